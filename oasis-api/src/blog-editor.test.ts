@@ -49,11 +49,15 @@ describe('JournalEditor blog fields', () => {
 
 describe('useJournal hook blog fields', () => {
   const hookSource = readFileSync(resolve(webRoot, 'hooks/useJournal.ts'), 'utf-8')
+  const clientTypes = readFileSync(resolve(__dirname, '../../oasis-client/src/api.gen.ts'), 'utf-8')
 
   test('JournalEntry interface includes slug, excerpt, published_at', () => {
-    expect(hookSource).toContain('slug?: string | null')
-    expect(hookSource).toContain('excerpt?: string | null')
-    expect(hookSource).toContain('published_at?: string | null')
+    // Generated from the API's response schema and re-exported by the hook
+    const entryType = clientTypes.slice(clientTypes.indexOf('export interface JournalEntry {'))
+    expect(entryType).toContain('slug?: string | null')
+    expect(entryType).toContain('excerpt?: string | null')
+    expect(entryType).toContain('published_at?: string | null')
+    expect(hookSource).toMatch(/export type \{[^}]*JournalEntry,[^}]*\} from '..\/lib\/api'/)
   })
 
   test('createEntry accepts slug and excerpt', () => {
@@ -13,12 +13,12 @@ describe('migration completeness', () => {
     expect(existsSync(resolve(root, 'scripts/db/init/07-blog.sql'))).toBe(true)
   })
 
-  test('migration files are numbered 01-07 sequentially', () => {
+  test('migration files are numbered sequentially', () => {
     const files = readdirSync(resolve(root, 'scripts/db/init'))
       .filter(f => f.endsWith('.sql'))
       .sort()
     const numbers = files.map(f => f.match(/^(\d+)/)?.[1]).filter(Boolean)
-    expect(numbers).toEqual(['01', '02', '03', '04', '05', '06', '07'])
+    expect(numbers).toEqual(['01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21'])
   })
 })
 
@@ -16,13 +16,20 @@ describe('BlogPostPage component', () => {
     expect(source).toContain('export default function BlogPostPage')
   })
 
-  test('imports react-markdown', () => {
+  // The markdown pipeline is shared with draft previews
+  test('renders content through PostContent', () => {
     const source = readFileSync(filePath, 'utf-8')
+    expect(source).toContain("from '../components/PostContent'")
+    expect(source).toContain('<PostContent content={post.content}')
+  })
+
+  test('PostContent imports react-markdown', () => {
+    const source = readFileSync(resolve(webRoot, 'src/components/PostContent.tsx'), 'utf-8')
     expect(source).toContain("from 'react-markdown'")
   })
 
-  test('imports remark-gfm', () => {
-    const source = readFileSync(filePath, 'utf-8')
+  test('PostContent imports remark-gfm', () => {
+    const source = readFileSync(resolve(webRoot, 'src/components/PostContent.tsx'), 'utf-8')
     expect(source).toContain("from 'remark-gfm'")
   })
 
@@ -52,8 +59,8 @@ describe('BlogPostPage component', () => {
     expect(existsSync(resolve(webRoot, 'src/pages/BlogPostPage.module.css'))).toBe(true)
   })
 
-  test('CSS has readable typography styles', () => {
-    const css = readFileSync(resolve(webRoot, 'src/pages/BlogPostPage.module.css'), 'utf-8')
+  test('content CSS has readable typography styles', () => {
+    const css = readFileSync(resolve(webRoot, 'src/components/PostContent.module.css'), 'utf-8')
     expect(css).toContain('.content')
     expect(css).toContain('line-height')
     expect(css).toContain('blockquote')
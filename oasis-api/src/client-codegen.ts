@@ -0,0 +1,141 @@
+import { resolve } from 'path'
+import { buildOpenApiDocument, type OpenApiDocument } from './openapi'
+
+/**
+ * Turns the OpenAPI document into the TypeScript types oasis-client is built
+ * on: one type per component schema, and a Paths map giving each JSON
+ * operation's path params, query, body and response. Only the JSON Schema
+ * that zod emits is handled.
+ *
+ *   bun run generate:client
+ */
+
+export const CLIENT_TYPES_PATH = resolve(__dirname, '../../oasis-client/src/api.gen.ts')
+
+type JsonSchema = {
+  $ref?: string
+  type?: string
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  enum?: unknown[]
+  const?: unknown
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+}
+
+type Operation = {
+  parameters?: { name: string; in: 'path' | 'query'; required: boolean; schema: JsonSchema }[]
+  requestBody?: { content: Record<string, { schema: JsonSchema }> }
+  responses: Record<string, { content?: Record<string, { schema?: JsonSchema }> }>
+}
+
+const METHODS = ['get', 'post', 'put', 'delete'] as const
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value)
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name)
+}
+
+function objectType(fields: string[], indent: string): string {
+  if (fields.length === 0) return 'Record<string, never>'
+  return `{\n${fields.map((f) => `${indent}  ${f}`).join('\n')}\n${indent}}`
+}
+
+export function tsType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) return schema.$ref.split('/').pop()!
+  const union = schema.anyOf ?? schema.oneOf
+  if (union) return union.map((s) => tsType(s, indent)).join(' | ')
+  if ('const' in schema) return literal(schema.const)
+  if (schema.enum) return schema.enum.map(literal).join(' | ')
+
+  switch (schema.type) {
+    case 'string': return 'string'
+    case 'number':
+    case 'integer': return 'number'
+    case 'boolean': return 'boolean'
+    case 'null': return 'null'
+    case 'array': {
+      const item = schema.items ? tsType(schema.items, indent) : 'unknown'
+      return /[|&\s]/.test(item) && !item.startsWith('{') ? `(${item})[]` : `${item}[]`
+    }
+    case 'object': {
+      const extra = schema.additionalProperties
+      if (!schema.properties) {
+        return `Record<string, ${typeof extra === 'object' && Object.keys(extra).length ? tsType(extra, indent) : 'unknown'}>`
+      }
+      const required = new Set(schema.required ?? [])
+      const fields = Object.entries(schema.properties).map(([name, prop]) =>
+        `${propertyKey(name)}${required.has(name) ? '' : '?'}: ${tsType(prop, `${indent}  `)}`
+      )
+      if (extra !== undefined && extra !== false) fields.push('[key: string]: unknown')
+      return objectType(fields, indent)
+    }
+    default: return 'unknown'
+  }
+}
+
+function componentDeclaration(name: string, schema: JsonSchema): string {
+  const type = tsType(schema)
+  return schema.type === 'object' && schema.properties
+    ? `export interface ${name} ${type}`
+    : `export type ${name} = ${type}`
+}
+
+function operationType(op: Operation, indent: string): string | null {
+  const [, response] = Object.entries(op.responses).find(([code]) => code !== 'default')!
+  const json = response.content?.['application/json']
+  // The client only speaks JSON; feeds, files and pages are fetched directly
+  if (!json) return null
+
+  const inner = `${indent}  `
+  const fields: string[] = []
+  const params = op.parameters ?? []
+  const pathParams = params.filter((p) => p.in === 'path')
+  if (pathParams.length) {
+    fields.push(`params: ${objectType(pathParams.map((p) => `${p.name}: ${tsType(p.schema)}`), inner)}`)
+  }
+  const queryParams = params.filter((p) => p.in === 'query')
+  if (queryParams.length) {
+    fields.push(`query: ${objectType(queryParams.map((p) => `${propertyKey(p.name)}${p.required ? '' : '?'}: ${tsType(p.schema)}`), inner)}`)
+  }
+  const body = op.requestBody?.content
+  if (body?.['multipart/form-data']) fields.push('body: FormData')
+  else if (body?.['application/json']) fields.push(`body: ${tsType(body['application/json'].schema, inner)}`)
+  fields.push(`response: ${json.schema ? tsType(json.schema, inner) : 'unknown'}`)
+  return objectType(fields, indent)
+}
+
+export function generateClientTypes(doc: OpenApiDocument): string {
+  const out = [
+    '// Generated from the API\'s OpenAPI document (/api/openapi.json).',
+    '// Do not edit: run `bun run generate:client` in oasis-api.',
+    '',
+  ]
+
+  for (const [name, schema] of Object.entries(doc.components.schemas)) {
+    out.push(componentDeclaration(name, schema as JsonSchema), '')
+  }
+
+  out.push('export interface Paths {')
+  for (const [path, item] of Object.entries(doc.paths)) {
+    const ops = METHODS.flatMap((method) => {
+      const op = (item as Record<string, Operation>)[method]
+      const type = op && operationType(op, '    ')
+      return type ? [`    ${method}: ${type}`] : []
+    })
+    if (ops.length) out.push(`  ${literal(path)}: {`, ...ops, '  }')
+  }
+  out.push('}', '')
+
+  return out.join('\n')
+}
+
+if (import.meta.main) {
+  await Bun.write(CLIENT_TYPES_PATH, generateClientTypes(buildOpenApiDocument()))
+  console.log(`Wrote ${CLIENT_TYPES_PATH}`)
+}
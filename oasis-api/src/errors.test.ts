@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import postgres from 'postgres'
+import { apiError, codeForStatus, errorResponse, fieldError } from './errors'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function pgError(fields: Record<string, string>) {
+  return new postgres.PostgresError({ message: 'db error', ...fields } as any)
+}
+
+describe('apiError() and fieldError()', () => {
+  test('build the envelope', () => {
+    expect(apiError('NOT_FOUND', 'Entry not found')).toEqual({
+      error: { code: 'NOT_FOUND', message: 'Entry not found', fields: [] },
+    })
+  })
+
+  test('a field error names the field in the message and the list', () => {
+    expect(fieldError('file', 'No file uploaded')).toEqual({
+      error: { code: 'VALIDATION', message: 'file: No file uploaded', fields: [{ field: 'file', message: 'No file uploaded' }] },
+    })
+  })
+})
+
+describe('codeForStatus()', () => {
+  test('maps statuses to codes', () => {
+    expect(codeForStatus(400)).toBe('VALIDATION')
+    expect(codeForStatus(413)).toBe('VALIDATION')
+    expect(codeForStatus(401)).toBe('UNAUTHORIZED')
+    expect(codeForStatus(404)).toBe('NOT_FOUND')
+    expect(codeForStatus(409)).toBe('CONFLICT')
+    expect(codeForStatus(412)).toBe('CONFLICT')
+    expect(codeForStatus(500)).toBe('INTERNAL')
+  })
+})
+
+describe('errorResponse()', () => {
+  test('a unique violation is a conflict on the key column', () => {
+    const { status, body } = errorResponse(pgError({ code: '23505', detail: 'Key (slug)=(hello) already exists.' }))
+    expect(status).toBe(409)
+    expect(body.error).toEqual({
+      code: 'CONFLICT',
+      message: 'slug: is already in use',
+      fields: [{ field: 'slug', message: 'is already in use' }],
+    })
+  })
+
+  test('bad input caught by Postgres is a validation error', () => {
+    const { status, body } = errorResponse(pgError({ code: '22P02' }))
+    expect(status).toBe(400)
+    expect(body.error.code).toBe('VALIDATION')
+    expect(body.error.fields).toEqual([])
+
+    const notNull = errorResponse(pgError({ code: '23502', column_name: 'title' }))
+    expect(notNull.body.error.fields).toEqual([{ field: 'title', message: 'is required' }])
+  })
+
+  test('other database errors and exceptions are 500s without details', () => {
+    for (const err of [pgError({ code: '57P01' }), new Error('connection refused at 10.0.0.1')]) {
+      const { status, body } = errorResponse(err)
+      expect(status).toBe(500)
+      expect(body).toEqual(apiError('INTERNAL', 'Internal server error'))
+    }
+  })
+
+  test('HTTPExceptions keep their status', () => {
+    const { status, body } = errorResponse(new HTTPException(401, { message: 'Unauthorized' }))
+    expect(status).toBe(401)
+    expect(body.error).toEqual({ code: 'UNAUTHORIZED', message: 'Unauthorized', fields: [] })
+  })
+})
+
+describe('global handlers', () => {
+  test('index.ts answers thrown errors and unknown routes with the envelope', () => {
+    expect(indexSrc).toContain('app.onError((err, c) => {')
+    expect(indexSrc).toContain('errorResponse(err)')
+    expect(indexSrc).toContain("app.notFound((c) => c.json(apiError('NOT_FOUND',")
+  })
+
+  test('no route returns a bare error string', () => {
+    expect(indexSrc).not.toMatch(/c\.json\(\{\s*error:/)
+  })
+
+  test('a thrown error reaches the client as JSON', async () => {
+    const app = new Hono()
+    app.onError((err, c) => {
+      const { status, body } = errorResponse(err)
+      return c.json(body, status)
+    })
+    app.post('/slugs', () => {
+      throw pgError({ code: '23505', detail: 'Key (user_id, slug)=(1, hello) already exists.' })
+    })
+
+    const res = await app.request('/slugs', { method: 'POST' })
+    expect(res.status).toBe(409)
+    const json = await res.json() as any
+    expect(json.error.code).toBe('CONFLICT')
+    expect(json.error.fields[0].field).toBe('slug')
+  })
+})
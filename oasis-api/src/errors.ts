@@ -0,0 +1,99 @@
+import postgres from 'postgres'
+import { HTTPException } from 'hono/http-exception'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+
+/**
+ * Every failed request answers with the same envelope:
+ *
+ *   { "error": { "code": "VALIDATION", "message": "...", "fields": [...] } }
+ *
+ * `code` is one of a few stable strings clients branch on; `message` is for
+ * people. `fields` lists problems with individual request fields and is
+ * empty otherwise. Some errors add keys beside `error`, e.g. the current
+ * entry on a 412 or a suggested slug on a slug conflict.
+ */
+export const ERROR_CODES = [
+  'VALIDATION',
+  'UNAUTHORIZED',
+  'NOT_FOUND',
+  'CONFLICT',
+  'UPSTREAM_LLM',
+  'INTERNAL',
+] as const
+
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+export interface FieldError {
+  /** Dotted path into the request body, e.g. "steps.0.title" */
+  field: string
+  message: string
+}
+
+export interface ErrorBody {
+  error: {
+    code: ErrorCode
+    message: string
+    fields: FieldError[]
+  }
+}
+
+export function apiError(code: ErrorCode, message: string, fields: FieldError[] = []): ErrorBody {
+  return { error: { code, message, fields } }
+}
+
+// A VALIDATION error about one field, e.g. a missing upload
+export function fieldError(field: string, message: string): ErrorBody {
+  return apiError('VALIDATION', `${field}: ${message}`, [{ field, message }])
+}
+
+export function codeForStatus(status: number): ErrorCode {
+  if (status === 401 || status === 403) return 'UNAUTHORIZED'
+  if (status === 404) return 'NOT_FOUND'
+  if (status === 409 || status === 412) return 'CONFLICT'
+  if (status >= 400 && status < 500) return 'VALIDATION'
+  return 'INTERNAL'
+}
+
+// SQLSTATEs a request can cause; anything else is a bug or an outage
+const POSTGRES_ERRORS: Record<string, { status: ContentfulStatusCode; code: ErrorCode; message: string }> = {
+  '23505': { status: 409, code: 'CONFLICT', message: 'is already in use' },
+  '23503': { status: 400, code: 'VALIDATION', message: 'refers to something that does not exist' },
+  '23502': { status: 400, code: 'VALIDATION', message: 'is required' },
+  '23514': { status: 400, code: 'VALIDATION', message: 'is not an allowed value' },
+  '22001': { status: 400, code: 'VALIDATION', message: 'is too long' },
+  '22003': { status: 400, code: 'VALIDATION', message: 'is out of range' },
+  '22007': { status: 400, code: 'VALIDATION', message: 'is not a valid date' },
+  '22008': { status: 400, code: 'VALIDATION', message: 'is not a valid date' },
+  '22P02': { status: 400, code: 'VALIDATION', message: 'is not a valid value' },
+}
+
+// Key violations name the columns in their detail: "Key (user_id, slug)=(1, hello)
+// already exists." Keys are scoped by owner first, so the last column is the field.
+function postgresField(err: postgres.PostgresError): string | null {
+  return err.column_name ?? err.detail?.match(/^Key \(([^)]+)\)=/)?.[1].split(', ').pop() ?? null
+}
+
+/**
+ * The status and envelope for an error that escaped a handler. Constraint
+ * violations and bad input caught by Postgres become 4xx; the rest are 500s
+ * whose details stay in the log.
+ */
+export function errorResponse(err: unknown): { status: ContentfulStatusCode; body: ErrorBody } {
+  if (err instanceof HTTPException) {
+    return { status: err.status as ContentfulStatusCode, body: apiError(codeForStatus(err.status), err.message) }
+  }
+
+  if (err instanceof postgres.PostgresError) {
+    const known = POSTGRES_ERRORS[err.code]
+    if (known) {
+      const field = postgresField(err)
+      const message = field ? `${field}: ${known.message}` : `Value ${known.message}`
+      return {
+        status: known.status,
+        body: apiError(known.code, message, field ? [{ field, message: known.message }] : []),
+      }
+    }
+  }
+
+  return { status: 500, body: apiError('INTERNAL', 'Internal server error') }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { etagFor, ifMatchSatisfied, listEtag } from './etag'
+import { etagFor as webEtagFor } from '../../oasis-web/src/lib/etag'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+const UPDATED_AT = '2025-03-01T12:00:00.123Z'
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('etagFor()', () => {
+  test('is a strong tag of the updated_at in milliseconds', () => {
+    expect(etagFor(UPDATED_AT)).toBe('"1740830400123"')
+    expect(etagFor(new Date(UPDATED_AT))).toBe('"1740830400123"')
+  })
+
+  test('matches what the web client derives from a row', () => {
+    expect(webEtagFor(UPDATED_AT)).toBe(etagFor(UPDATED_AT))
+  })
+})
+
+describe('listEtag()', () => {
+  test('is a weak tag that changes with the list', () => {
+    const tag = listEtag({ pages: [{ id: 1, title: 'About' }] })
+    expect(tag).toMatch(/^W\/"[\w-]{27}"$/)
+    expect(listEtag({ pages: [{ id: 1, title: 'About' }] })).toBe(tag)
+    expect(listEtag({ pages: [] })).not.toBe(tag)
+  })
+})
+
+describe('ifMatchSatisfied()', () => {
+  test('no header is an unconditional write', () => {
+    expect(ifMatchSatisfied(undefined, UPDATED_AT)).toBe(true)
+  })
+
+  test('only the current version matches', () => {
+    expect(ifMatchSatisfied('"1740830400123"', UPDATED_AT)).toBe(true)
+    expect(ifMatchSatisfied('"1740830400122"', UPDATED_AT)).toBe(false)
+    expect(ifMatchSatisfied('"1", "1740830400123"', UPDATED_AT)).toBe(true)
+    expect(ifMatchSatisfied('*', UPDATED_AT)).toBe(true)
+  })
+
+  test('a tag weakened by a compressing proxy still matches', () => {
+    expect(ifMatchSatisfied('W/"1740830400123"', UPDATED_AT)).toBe(true)
+  })
+})
+
+describe('ETag and If-Match routes', () => {
+  test('single-resource GETs send an ETag', () => {
+    for (const route of [
+      "app.get('/api/journal/:id', async",
+      "app.get('/api/projects/:id', requireAuth",
+      "app.get('/api/pages/:slug', async",
+      "app.get('/api/series/:id', requireAuth",
+    ]) {
+      expect(section(route)).toContain("c.header('ETag', etagFor(")
+    }
+  })
+
+  test('a stale If-Match is a 412 carrying the current version, before anything is written', () => {
+    const routes: [string, string, string][] = [
+      ["app.put('/api/journal/:id', requireAuth", 'entry: current[0] }, 412)', 'UPDATE journal.entries'],
+      ["app.put('/api/projects/:id', requireAuth", 'project: current[0] }, 412)', 'UPDATE projects.projects'],
+      ["app.put('/api/projects/:id/steps/:stepId', requireAuth", 'step: current[0] }, 412)', 'UPDATE projects.steps'],
+      ["app.put('/api/pages/:id', requireAuth", 'page: current[0] }, 412)', 'UPDATE journal.pages'],
+      ["app.put('/api/series/:id', requireAuth", 'series: current[0] }, 412)', 'UPDATE journal.series'],
+    ]
+    for (const [route, refusal, update] of routes) {
+      const body = section(route)
+      expect(body).toContain('ifMatchSatisfied(')
+      expect(body).toContain(refusal)
+      expect(body.indexOf(refusal)).toBeLessThan(body.indexOf(update))
+      // Successful writes hand back the new ETag for the next one
+      expect(body).toContain("c.header('ETag', etagFor(result[0].updated_at))")
+    }
+  })
+
+  test('a write that lands after the check is a 412, not a lost update', () => {
+    for (const [route, current] of [
+      ["app.put('/api/journal/:id', requireAuth", 'entry: latest[0]'],
+      ["app.put('/api/projects/:id', requireAuth", 'project: latest[0] }, 412)'],
+      ["app.put('/api/projects/:id/steps/:stepId', requireAuth", 'step: latest[0] }, 412)'],
+      ["app.put('/api/pages/:id', requireAuth", 'page: latest[0] }, 412)'],
+      ["app.put('/api/series/:id', requireAuth", 'series: latest[0] }, 412)'],
+    ]) {
+      const body = section(route)
+      // The version is checked again by the UPDATE itself
+      expect(body).toContain('${unchangedSince(')
+      expect(body).toContain('if (result.length === 0) {')
+      expect(body).toContain(current)
+    }
+  })
+
+  test('project and step writes always load the row they check', () => {
+    for (const route of ["app.put('/api/projects/:id', requireAuth", "app.put('/api/projects/:id/steps/:stepId', requireAuth"]) {
+      expect(section(route)).not.toContain('if (ifMatch) {')
+    }
+  })
+
+  test('a step is only written through its own project', () => {
+    const body = section("app.put('/api/projects/:id/steps/:stepId', requireAuth")
+    expect(body.match(/WHERE id = \$\{stepId\} AND project_id = \$\{projectId\}/g)?.length).toBe(3)
+  })
+
+  test('a reorder is checked against the project and only moves its own steps', () => {
+    const body = section("app.put('/api/projects/:id/steps', requireAuth")
+    expect(body).toContain('ifMatchSatisfied(ifMatch, current[0].updated_at)')
+    expect(body).toContain('project: current[0] }, 412)')
+    expect(body).toContain('${unchangedSince(')
+    expect(body).toContain('project: latest[0] }, 412)')
+    expect(body).toContain('WHERE id = ${u.id} AND project_id = ${projectId}')
+    expect(body).toContain("c.header('ETag', etagFor(result[0].updated_at))")
+  })
+
+  test('lists send an ETag of their contents', () => {
+    for (const route of [
+      "app.get('/api/journal', async",
+      "app.get('/api/journal/public', async",
+      "app.get('/api/projects', requireAuth",
+      "app.get('/api/pages', async",
+    ]) {
+      expect(section(route)).toContain("c.header('ETag', listEtag(")
+    }
+  })
+
+  test('browsers may send If-Match and read ETag cross-origin', () => {
+    expect(indexSrc).toContain("allowHeaders: ['Content-Type', 'Authorization', 'If-Match', 'Idempotency-Key']")
+    expect(indexSrc).toContain("exposeHeaders: ['ETag']")
+  })
+})
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto'
+
+/**
+ * Optimistic concurrency for writes. A row's ETag is its updated_at in
+ * epoch milliseconds; a PUT carrying If-Match is refused (412) once the row
+ * has moved on, so two tabs — or the MCP agent and a browser — can't
+ * silently overwrite each other.
+ */
+export function etagFor(updatedAt: Date | string): string {
+  return `"${new Date(updatedAt).getTime()}"`
+}
+
+/**
+ * Whether an If-Match header allows writing a row last updated at
+ * updatedAt. No header means an unconditional write. Weak tags are compared
+ * by value, since a proxy that compresses the response marks them weak.
+ */
+export function ifMatchSatisfied(header: string | undefined, updatedAt: Date | string): boolean {
+  if (!header) return true
+  const current = etagFor(updatedAt)
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === current)
+}
+
+/**
+ * A list has no single updated_at: rows can be added, trashed or reordered
+ * without any one of them changing. Its ETag is a digest of the response
+ * body instead, weak because it names the content rather than the bytes.
+ */
+export function listEtag(body: unknown): string {
+  return `W/"${createHash('sha256').update(JSON.stringify(body)).digest('base64url').slice(0, 27)}"`
+}
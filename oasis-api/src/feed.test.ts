@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { escapeXml, renderMarkdown, postUrl, buildRssFeed, buildAtomFeed, type FeedPost } from './feed'
+
+const opts = {
+  siteUrl: 'https://example.com/',
+  title: 'Test Blog',
+  description: 'A blog & more',
+}
+
+const posts: FeedPost[] = [
+  {
+    slug: 'second-post',
+    title: 'Second <Post>',
+    content: '# Heading\n\nSome **bold** text.',
+    excerpt: null,
+    published_at: new Date('2025-02-01T12:00:00Z'),
+    updated_at: new Date('2025-02-03T08:00:00Z'),
+  },
+  {
+    slug: 'first-post',
+    title: 'First Post',
+    content: 'Hello world',
+    excerpt: 'Custom excerpt',
+    published_at: '2025-01-01T12:00:00Z',
+    updated_at: '2025-01-01T12:00:00Z',
+  },
+]
+
+describe('escapeXml()', () => {
+  test('escapes all XML special characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+    )
+  })
+})
+
+describe('renderMarkdown()', () => {
+  test('renders GFM markdown to HTML', () => {
+    const html = renderMarkdown('**bold**\n\n| a | b |\n|---|---|\n| 1 | 2 |')
+    expect(html).toContain('<strong>bold</strong>')
+    expect(html).toContain('<table>')
+  })
+
+  test('shows raw HTML as text, like react-markdown', () => {
+    const html = renderMarkdown('<script>alert(1)</script>\n\nHi <img src=x onerror="alert(1)"> there')
+    expect(html).not.toContain('<script')
+    expect(html).not.toContain('<img')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('Hi &lt;img src=x onerror=&quot;alert(1)&quot;&gt; there')
+  })
+
+  test('drops script URLs from links and images', () => {
+    const html = renderMarkdown('[a](javascript:alert(1)) ![b](data:text/html,x) [c](https://example.com/a:b) [d](/blog/x)')
+    expect(html).not.toContain('javascript:')
+    expect(html).not.toContain('data:')
+    expect(html).toContain('href="https://example.com/a:b"')
+    expect(html).toContain('href="/blog/x"')
+  })
+})
+
+describe('postUrl()', () => {
+  test('builds slug permalink without double slashes', () => {
+    expect(postUrl('https://example.com/', 'my-post')).toBe('https://example.com/blog/my-post')
+    expect(postUrl('https://example.com', 'my-post')).toBe('https://example.com/blog/my-post')
+  })
+})
+
+describe('buildRssFeed()', () => {
+  const xml = buildRssFeed(posts, opts)
+
+  test('is an RSS 2.0 document', () => {
+    expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>')
+    expect(xml).toContain('<rss version="2.0"')
+    expect(xml).toContain('<title>Test Blog</title>')
+    expect(xml).toContain('<description>A blog &amp; more</description>')
+  })
+
+  test('has one item per post with permalink guid', () => {
+    expect(xml.match(/<item>/g)!.length).toBe(2)
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/blog/second-post</guid>')
+  })
+
+  test('escapes titles', () => {
+    expect(xml).toContain('<title>Second &lt;Post&gt;</title>')
+  })
+
+  test('uses stored excerpt, falling back to generated one', () => {
+    expect(xml).toContain('<description>Custom excerpt</description>')
+    expect(xml).toContain('<description>Heading\nSome bold text.</description>')
+  })
+
+  test('includes rendered HTML content', () => {
+    expect(xml).toContain('<content:encoded>&lt;h1&gt;Heading&lt;/h1&gt;')
+  })
+
+  test('uses RFC 822 dates', () => {
+    expect(xml).toContain('<pubDate>Sat, 01 Feb 2025 12:00:00 GMT</pubDate>')
+  })
+
+  test('handles empty post list', () => {
+    const empty = buildRssFeed([], opts)
+    expect(empty).toContain('<channel>')
+    expect(empty).not.toContain('<item>')
+  })
+})
+
+describe('buildAtomFeed()', () => {
+  const xml = buildAtomFeed(posts, opts)
+
+  test('is an Atom document', () => {
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(xml).toContain('<id>https://example.com/</id>')
+  })
+
+  test('feed updated is the latest entry update', () => {
+    expect(xml).toContain('<updated>2025-02-03T08:00:00.000Z</updated>')
+  })
+
+  test('entries have published and updated dates', () => {
+    expect(xml.match(/<entry>/g)!.length).toBe(2)
+    expect(xml).toContain('<published>2025-01-01T12:00:00.000Z</published>')
+  })
+
+  test('content is HTML-typed and escaped', () => {
+    expect(xml).toContain('<content type="html">&lt;p&gt;Hello world&lt;/p&gt;')
+  })
+})
+
+describe('feed routes', () => {
+  const indexSource = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+  test('feed routes are defined before /api/journal/:id', () => {
+    const rssIdx = indexSource.indexOf("'/api/journal/feed.rss'")
+    const atomIdx = indexSource.indexOf("'/api/journal/feed.atom'")
+    const idIdx = indexSource.indexOf("'/api/journal/:id'")
+    expect(rssIdx).toBeGreaterThan(-1)
+    expect(atomIdx).toBeGreaterThan(-1)
+    expect(rssIdx).toBeLessThan(idIdx)
+    expect(atomIdx).toBeLessThan(idIdx)
+  })
+
+  test('feeds use the published-post predicate', () => {
+    const feedSection = indexSource.slice(
+      indexSource.indexOf('async function getFeedPosts'),
+      indexSource.indexOf("'/api/journal/feed.rss'")
+    )
+    expect(feedSection).toContain('is_public = true AND published_at IS NOT NULL')
+  })
+})
@@ -0,0 +1,138 @@
+import { Marked } from 'marked'
+import { generateExcerpt } from './blog-helpers'
+
+export interface FeedPost {
+  slug: string
+  title: string
+  content: string
+  excerpt: string | null
+  published_at: Date | string
+  updated_at: Date | string
+}
+
+export interface FeedOptions {
+  siteUrl: string
+  title: string
+  description: string
+}
+
+/**
+ * Escape the five XML special characters.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Link and image URLs react-markdown keeps: relative, or one of these
+// protocols. Anything else (javascript:, data:, ...) becomes an empty URL.
+const SAFE_PROTOCOL = /^(https?|ircs?|mailto|xmpp)$/i
+
+function safeUrl(url: string): string {
+  const colon = url.indexOf(':')
+  const boundary = url.search(/[?#/]/)
+  if (colon === -1 || (boundary !== -1 && colon > boundary)) return url
+  return SAFE_PROTOCOL.test(url.slice(0, colon)) ? url : ''
+}
+
+// Raw HTML in a post is shown as text, as react-markdown shows it in the
+// browser, so server-rendered pages and feeds can't carry markup the SPA
+// wouldn't (including anything brought in by an import)
+const markdown = new Marked({
+  gfm: true,
+  async: false,
+  renderer: {
+    html: ({ text }) => escapeXml(text),
+  },
+  walkTokens: (token) => {
+    if (token.type === 'link' || token.type === 'image') token.href = safeUrl(token.href)
+  },
+})
+
+/**
+ * Render post markdown to HTML (GFM, same dialect as the blog's remark-gfm).
+ */
+export function renderMarkdown(content: string): string {
+  return markdown.parse(content) as string
+}
+
+export function postUrl(siteUrl: string, slug: string): string {
+  return `${siteUrl.replace(/\/$/, '')}/blog/${slug}`
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value)
+}
+
+/**
+ * Build an RSS 2.0 document. Posts are expected newest-first.
+ */
+export function buildRssFeed(posts: FeedPost[], opts: FeedOptions): string {
+  const siteUrl = opts.siteUrl.replace(/\/$/, '')
+  const lastBuild = posts.length > 0 ? toDate(posts[0].published_at) : new Date()
+
+  const items = posts.map((p) => {
+    const link = postUrl(siteUrl, p.slug)
+    return `    <item>
+      <title>${escapeXml(p.title)}</title>
+      <link>${escapeXml(link)}</link>
+      <guid isPermaLink="true">${escapeXml(link)}</guid>
+      <pubDate>${toDate(p.published_at).toUTCString()}</pubDate>
+      <description>${escapeXml(p.excerpt || generateExcerpt(p.content))}</description>
+      <content:encoded>${escapeXml(renderMarkdown(p.content))}</content:encoded>
+    </item>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(opts.title)}</title>
+    <link>${escapeXml(siteUrl)}/</link>
+    <description>${escapeXml(opts.description)}</description>
+    <atom:link href="${escapeXml(siteUrl)}/api/journal/feed.rss" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+/**
+ * Build an Atom 1.0 document. Posts are expected newest-first.
+ */
+export function buildAtomFeed(posts: FeedPost[], opts: FeedOptions): string {
+  const siteUrl = opts.siteUrl.replace(/\/$/, '')
+  const updated = posts.reduce<Date>((latest, p) => {
+    const d = toDate(p.updated_at)
+    return d > latest ? d : latest
+  }, posts.length > 0 ? toDate(posts[0].updated_at) : new Date())
+
+  const entries = posts.map((p) => {
+    const link = postUrl(siteUrl, p.slug)
+    return `  <entry>
+    <title>${escapeXml(p.title)}</title>
+    <link href="${escapeXml(link)}" />
+    <id>${escapeXml(link)}</id>
+    <published>${toDate(p.published_at).toISOString()}</published>
+    <updated>${toDate(p.updated_at).toISOString()}</updated>
+    <summary>${escapeXml(p.excerpt || generateExcerpt(p.content))}</summary>
+    <content type="html">${escapeXml(renderMarkdown(p.content))}</content>
+  </entry>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(opts.title)}</title>
+  <subtitle>${escapeXml(opts.description)}</subtitle>
+  <link href="${escapeXml(siteUrl)}/" />
+  <link href="${escapeXml(siteUrl)}/api/journal/feed.atom" rel="self" type="application/atom+xml" />
+  <id>${escapeXml(siteUrl)}/</id>
+  <updated>${updated.toISOString()}</updated>
+${entries.join('\n')}
+</feed>
+`
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test, afterAll } from 'bun:test'
+import { readFileSync, mkdtempSync, rmSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import sharp from 'sharp'
+import {
+  planVariants,
+  parseVariantName,
+  variantName,
+  variantPath,
+  variantUrl,
+  findMediaImages,
+  buildImageAsset,
+  buildAssetMap,
+  processImage,
+  type MediaImageRow,
+} from './images'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const row = (overrides: Partial<MediaImageRow> = {}): MediaImageRow => ({
+  id: 7,
+  filename: 'cat.jpg',
+  mime_type: 'image/jpeg',
+  width: 1000,
+  height: 500,
+  variants: planVariants('image/jpeg', 1000),
+  ...overrides,
+})
+
+describe('planVariants()', () => {
+  test('builds each smaller width in the original format and WebP', () => {
+    expect(planVariants('image/jpeg', 1000).map(variantName)).toEqual([
+      '320.jpg', '320.webp', '640.jpg', '640.webp', '960.jpg', '960.webp', '1000.webp',
+    ])
+  })
+
+  test('adds a full-size WebP copy for non-WebP originals only', () => {
+    expect(planVariants('image/png', 300)).toEqual([{ width: 300, format: 'webp' }])
+    expect(planVariants('image/webp', 300)).toEqual([])
+  })
+
+  test('leaves GIFs and PDFs alone', () => {
+    expect(planVariants('image/gif', 2000)).toEqual([])
+    expect(planVariants('application/pdf', 2000)).toEqual([])
+  })
+})
+
+describe('variant names and paths', () => {
+  test('round-trips a variant name', () => {
+    expect(variantName({ width: 640, format: 'webp' })).toBe('640.webp')
+    expect(parseVariantName('640.webp')).toEqual({ width: 640, format: 'webp' })
+  })
+
+  test('rejects unknown formats and path tricks', () => {
+    expect(parseVariantName('640.gif')).toBeNull()
+    expect(parseVariantName('../640.webp')).toBeNull()
+    expect(parseVariantName('abc.png')).toBeNull()
+  })
+
+  test('caches variants beside the originals, keyed by hash', () => {
+    const hash = 'cd'.padEnd(64, '1')
+    expect(variantPath('/app/media/', hash, { width: 320, format: 'jpg' })).toBe(`/app/media/variants/cd/${hash}-320.jpg`)
+    expect(variantUrl(7, { width: 320, format: 'jpg' })).toBe('/media/7/w/320.jpg')
+  })
+})
+
+describe('findMediaImages()', () => {
+  test('finds uploaded images once each', () => {
+    const md = '![a](/media/7/cat.jpg)\n\n![b](/media/7/cat.jpg "title") and ![c](</media/9/dog.png>)'
+    expect(findMediaImages(md)).toEqual([
+      { url: '/media/7/cat.jpg', id: 7 },
+      { url: '/media/9/dog.png', id: 9 },
+    ])
+  })
+
+  test('ignores external images and plain links', () => {
+    expect(findMediaImages('![x](https://example.com/a.png) [pdf](/media/3/doc.pdf)')).toEqual([])
+  })
+})
+
+describe('buildImageAsset()', () => {
+  test('lists variants and the original in the srcset', () => {
+    const asset = buildImageAsset(row())!
+    expect(asset.width).toBe(1000)
+    expect(asset.height).toBe(500)
+    expect(asset.srcset).toBe('/media/7/w/320.jpg 320w, /media/7/w/640.jpg 640w, /media/7/w/960.jpg 960w, /media/7/cat.jpg 1000w')
+    expect(asset.webp_srcset).toBe('/media/7/w/320.webp 320w, /media/7/w/640.webp 640w, /media/7/w/960.webp 960w, /media/7/w/1000.webp 1000w')
+  })
+
+  test('WebP originals need no separate WebP srcset', () => {
+    const asset = buildImageAsset(row({ filename: 'cat.webp', mime_type: 'image/webp', variants: planVariants('image/webp', 1000) }))!
+    expect(asset.srcset).toContain('/media/7/cat.webp 1000w')
+    expect(asset.webp_srcset).toBeNull()
+  })
+
+  test('skips assets without known dimensions', () => {
+    expect(buildImageAsset(row({ width: null, height: null }))).toBeNull()
+  })
+})
+
+describe('buildAssetMap()', () => {
+  test('keys assets by the URL used in the post', () => {
+    const map = buildAssetMap([{ url: '/media/7/cat.jpg', id: 7 }], [row()])
+    expect(Object.keys(map)).toEqual(['/media/7/cat.jpg'])
+  })
+
+  test('drops references whose filename does not match the asset', () => {
+    expect(buildAssetMap([{ url: '/media/7/other.jpg', id: 7 }], [row()])).toEqual({})
+    expect(buildAssetMap([{ url: '/media/8/cat.jpg', id: 8 }], [row()])).toEqual({})
+  })
+})
+
+describe('processImage()', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'oasis-images-'))
+  afterAll(() => rmSync(dir, { recursive: true, force: true }))
+
+  test('writes every planned variant to the cache', async () => {
+    const bytes = await sharp({ create: { width: 700, height: 350, channels: 3, background: '#336699' } }).png().toBuffer()
+    const hash = 'ef'.padEnd(64, '2')
+    const info = await processImage(new Uint8Array(bytes), 'image/png', dir, hash)
+
+    expect(info.width).toBe(700)
+    expect(info.height).toBe(350)
+    expect(info.variants.map(variantName)).toEqual(['320.png', '320.webp', '640.png', '640.webp', '700.webp'])
+    for (const variant of info.variants) {
+      expect(existsSync(variantPath(dir, hash, variant))).toBe(true)
+    }
+    const resized = await sharp(variantPath(dir, hash, { width: 320, format: 'webp' })).metadata()
+    expect(resized.format).toBe('webp')
+    expect(resized.width).toBe(320)
+  })
+})
+
+describe('image variants wiring', () => {
+  test('migration adds dimensions and a variants list', () => {
+    const migration = readFileSync(resolve(root, 'scripts/db/init/15-media-variants.sql'), 'utf-8')
+    expect(migration).toContain('ADD COLUMN IF NOT EXISTS width INTEGER')
+    expect(migration).toContain("ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'")
+  })
+
+  test('uploads build variants and the public post includes an asset map', () => {
+    expect(indexSrc).toContain('await processImage(bytes, mimeType, MEDIA_DIR, sha256)')
+    expect(indexSrc).toContain('loadImageAssets(p.content),')
+  })
+
+  test('variant route only serves planned variants and rebuilds a missing cache entry', () => {
+    const start = indexSrc.indexOf("app.get('/media/:id/w/:variant'")
+    expect(start).toBeGreaterThan(-1)
+    const route = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+    expect(route).toContain('parseVariantName(')
+    expect(route).toContain('if (!known)')
+    expect(route).toContain('await writeVariant(storagePath(MEDIA_DIR, assets[0].sha256), path, variant)')
+  })
+})
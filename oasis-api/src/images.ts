@@ -0,0 +1,166 @@
+import sharp from 'sharp'
+import { mkdir } from 'fs/promises'
+import { dirname } from 'path'
+import { MEDIA_TYPES, mediaUrl } from './media'
+
+/**
+ * Responsive image derivatives.
+ *
+ * Each uploaded PNG/JPEG/WebP gets downscaled copies at the standard widths,
+ * in its own format plus WebP. Variants are cached on the media volume next
+ * to the originals and rebuilt from the original if the cache is cleared.
+ * The public post endpoint turns them into an asset map for srcset.
+ */
+
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920]
+
+// GIFs are served as-is so animations survive
+export const RESIZABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+export type VariantFormat = 'png' | 'jpg' | 'webp'
+
+export interface ImageVariant {
+  width: number
+  format: VariantFormat
+}
+
+export const VARIANT_TYPES: Record<VariantFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+}
+
+export interface ImageInfo {
+  width: number | null
+  height: number | null
+  variants: ImageVariant[]
+}
+
+/** Entry in a post's asset map, keyed by the image URL used in the markdown */
+export interface ImageAsset {
+  width: number
+  height: number
+  srcset: string
+  webp_srcset: string | null
+}
+
+export interface MediaImageRow {
+  id: number
+  filename: string
+  mime_type: string
+  width: number | null
+  height: number | null
+  variants: ImageVariant[]
+}
+
+/**
+ * The variants to build for an image: every standard width below the
+ * original, in the original's format and as WebP, plus a full-size WebP.
+ */
+export function planVariants(mimeType: string, originalWidth: number): ImageVariant[] {
+  if (!RESIZABLE_TYPES.includes(mimeType)) return []
+  const format = MEDIA_TYPES[mimeType] as VariantFormat
+  const variants: ImageVariant[] = []
+  for (const width of IMAGE_WIDTHS.filter((w) => w < originalWidth)) {
+    variants.push({ width, format })
+    if (format !== 'webp') variants.push({ width, format: 'webp' })
+  }
+  if (format !== 'webp') variants.push({ width: originalWidth, format: 'webp' })
+  return variants
+}
+
+export function variantName(variant: ImageVariant): string {
+  return `${variant.width}.${variant.format}`
+}
+
+export function parseVariantName(name: string): ImageVariant | null {
+  const match = name.match(/^(\d{1,5})\.(png|jpg|webp)$/)
+  if (!match) return null
+  return { width: parseInt(match[1]), format: match[2] as VariantFormat }
+}
+
+export function variantPath(root: string, sha256: string, variant: ImageVariant): string {
+  return `${root.replace(/\/$/, '')}/variants/${sha256.slice(0, 2)}/${sha256}-${variantName(variant)}`
+}
+
+export function variantUrl(assetId: number, variant: ImageVariant): string {
+  return `/media/${assetId}/w/${variantName(variant)}`
+}
+
+/** Resize the source (bytes or a file path) and write one variant to disk. */
+export async function writeVariant(source: Uint8Array | string, path: string, variant: ImageVariant): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await sharp(source)
+    .rotate()
+    .resize({ width: variant.width, withoutEnlargement: true })
+    .toFormat(variant.format === 'jpg' ? 'jpeg' : variant.format, { quality: 80 })
+    .toFile(path)
+}
+
+/**
+ * Read an image's dimensions and build its variants, skipping any already
+ * cached (identical uploads share a hash, so they share variants too).
+ */
+export async function processImage(bytes: Uint8Array, mimeType: string, root: string, sha256: string): Promise<ImageInfo> {
+  const meta = await sharp(bytes).metadata()
+  if (!meta.width || !meta.height) return { width: null, height: null, variants: [] }
+
+  // EXIF orientations 5–8 are rotated a quarter turn; report displayed size
+  const rotated = (meta.orientation ?? 1) >= 5
+  const width = rotated ? meta.height : meta.width
+  const height = rotated ? meta.width : meta.height
+
+  const variants = planVariants(mimeType, width)
+  // One at a time — resizing large images in parallel is memory-hungry
+  for (const variant of variants) {
+    const path = variantPath(root, sha256, variant)
+    if (!await Bun.file(path).exists()) {
+      await writeVariant(bytes, path, variant)
+    }
+  }
+
+  return { width, height, variants }
+}
+
+/** Uploaded images referenced from markdown, as `![alt](/media/<id>/<file>)`. */
+export function findMediaImages(markdown: string): { url: string; id: number }[] {
+  const refs = new Map<string, number>()
+  for (const match of markdown.matchAll(/!\[[^\]]*\]\(\s*<?(\/media\/(\d+)\/[^\s)>]+)/g)) {
+    refs.set(match[1], parseInt(match[2]))
+  }
+  return [...refs].map(([url, id]) => ({ url, id }))
+}
+
+export function buildImageAsset(row: MediaImageRow): ImageAsset | null {
+  if (!row.width || !row.height) return null
+
+  const srcsetOf = (format: VariantFormat) =>
+    row.variants
+      .filter((v) => v.format === format)
+      .map((v) => `${variantUrl(row.id, v)} ${v.width}w`)
+
+  const format = MEDIA_TYPES[row.mime_type] as VariantFormat
+  const original = `${mediaUrl(row)} ${row.width}w`
+  const webp = format === 'webp' ? [] : srcsetOf('webp')
+
+  return {
+    width: row.width,
+    height: row.height,
+    srcset: [...srcsetOf(format), original].join(', '),
+    webp_srcset: webp.length > 0 ? webp.join(', ') : null,
+  }
+}
+
+/** Asset map for a post: image URL → dimensions and srcsets. */
+export function buildAssetMap(refs: { url: string; id: number }[], rows: MediaImageRow[]): Record<string, ImageAsset> {
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  const assets: Record<string, ImageAsset> = {}
+  for (const ref of refs) {
+    const row = byId.get(ref.id)
+    // The URL must match the asset's own, not just its id
+    if (!row || mediaUrl(row) !== ref.url) continue
+    const asset = buildImageAsset(row)
+    if (asset) assets[ref.url] = asset
+  }
+  return assets
+}
@@ -0,0 +1,237 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { strToU8, zipSync } from 'fflate'
+import { IMPORT_ADAPTERS } from './importers'
+import { normalizeTags, parseLooseDate } from './importers/shared'
+import { autop } from './importers/wordpress'
+import { parseFrontMatter } from './importers/markdown'
+import { ImportEntrySchema } from './schemas'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const wxr = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <item>
+    <title>Hello &amp; welcome</title>
+    <content:encoded><![CDATA[First paragraph with <strong>bold</strong>.
+
+Second paragraph
+with a break.]]></content:encoded>
+    <excerpt:encoded><![CDATA[]]></excerpt:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date>2019-05-02 16:00:00</wp:post_date>
+    <wp:post_date_gmt>2019-05-02 14:00:00</wp:post_date_gmt>
+    <wp:post_name>hello-welcome</wp:post_name>
+    <wp:status>publish</wp:status>
+    <wp:post_type>post</wp:post_type>
+    <category domain="category" nicename="uncategorized"><![CDATA[Uncategorized]]></category>
+    <category domain="post_tag" nicename="travel"><![CDATA[Travel]]></category>
+    <category domain="post_tag" nicename="Road Trips"><![CDATA[Road Trips]]></category>
+  </item>
+  <item>
+    <title>Unfinished</title>
+    <content:encoded><![CDATA[<p>Draft text</p>]]></content:encoded>
+    <wp:post_id>13</wp:post_id>
+    <wp:post_date>2020-01-01 09:00:00</wp:post_date>
+    <wp:post_date_gmt>0000-00-00 00:00:00</wp:post_date_gmt>
+    <wp:post_name></wp:post_name>
+    <wp:status>draft</wp:status>
+    <wp:post_type>post</wp:post_type>
+  </item>
+  <item>
+    <title>About</title>
+    <content:encoded><![CDATA[About me]]></content:encoded>
+    <wp:post_id>2</wp:post_id>
+    <wp:status>publish</wp:status>
+    <wp:post_type>page</wp:post_type>
+  </item>
+</channel>
+</rss>`
+
+const ghostExport = {
+  db: [{
+    meta: { version: '5.0.0' },
+    data: {
+      posts: [
+        {
+          id: 'a1', title: 'From Ghost', slug: 'from-ghost', html: '<h2>Intro</h2><p>Body</p>',
+          status: 'published', type: 'post', custom_excerpt: 'Short', published_at: '2022-06-01T08:00:00.000Z',
+          created_at: '2022-05-30T08:00:00.000Z',
+        },
+        {
+          id: 'a2', title: 'Old editor', slug: 'old-editor', html: null, status: 'draft', page: false,
+          mobiledoc: JSON.stringify({ cards: [['card-markdown', { markdown: 'Written in **markdown**' }]] }),
+          published_at: null, created_at: 1510000000000,
+        },
+        { id: 'a3', title: 'Contact', slug: 'contact', html: '<p>Mail me</p>', status: 'published', type: 'page' },
+        { id: 'a4', title: 'Newsletter', slug: 'newsletter', html: '<p>Hi</p>', status: 'sent', type: 'post' },
+      ],
+      tags: [
+        { id: 't1', name: 'Photography', slug: 'photography' },
+        { id: 't2', name: '#hidden', slug: 'hash-hidden', visibility: 'internal' },
+      ],
+      posts_tags: [
+        { post_id: 'a1', tag_id: 't2', sort_order: 0 },
+        { post_id: 'a1', tag_id: 't1', sort_order: 1 },
+      ],
+    },
+  }],
+}
+
+describe('shared helpers', () => {
+  test('dates in the formats platforms export', () => {
+    expect(parseLooseDate('2019-05-02 14:00:00')?.toISOString()).toBe('2019-05-02T14:00:00.000Z')
+    expect(parseLooseDate('2024-01-05 10:00:00 +0100')?.toISOString()).toBe('2024-01-05T09:00:00.000Z')
+    expect(parseLooseDate('2024-01-05')?.toISOString()).toBe('2024-01-05T00:00:00.000Z')
+    expect(parseLooseDate('2022-06-01T08:00:00.000Z')?.toISOString()).toBe('2022-06-01T08:00:00.000Z')
+    expect(parseLooseDate(1510000000000)?.toISOString()).toBe('2017-11-06T20:26:40.000Z')
+    expect(parseLooseDate('0000-00-00 00:00:00')).toBeNull()
+    expect(parseLooseDate('someday')).toBeNull()
+  })
+
+  test('tags become valid, unique journal tags', () => {
+    expect(normalizeTags(['Road Trips', 'road-trips', 'C++', '', 42])).toEqual(['road-trips', 'c', '42'])
+    expect(normalizeTags(Array.from({ length: 25 }, (_, i) => `t${i}`))).toHaveLength(20)
+  })
+})
+
+describe('WordPress adapter', () => {
+  const result = IMPORT_ADAPTERS.wordpress.parse(strToU8(wxr))
+
+  test('maps published posts onto entry fields', () => {
+    const post = result.posts[0]
+    expect(post.item).toBe('post 12')
+    expect(post.title).toBe('Hello & welcome')
+    expect(post.slug).toBe('hello-welcome')
+    expect(post.is_public).toBe(true)
+    expect(post.published_at?.toISOString()).toBe('2019-05-02T14:00:00.000Z')
+    expect(post.tags).toEqual(['travel', 'road-trips'])
+    expect(post.content).toBe('First paragraph with **bold**.\n\nSecond paragraph  \nwith a break.')
+  })
+
+  test('drafts stay private and unpublished', () => {
+    const draft = result.posts[1]
+    expect(draft.is_public).toBe(false)
+    expect(draft.published_at).toBeNull()
+    expect(draft.slug).toBeNull()
+    expect(draft.created_at?.toISOString()).toBe('2020-01-01T09:00:00.000Z')
+  })
+
+  test('pages are reported as skipped', () => {
+    expect(result.skipped).toEqual([{ item: 'post 2', title: 'About', reason: 'Not a post (page)' }])
+  })
+
+  test('mapped posts pass entry validation', () => {
+    for (const { item, ...fields } of result.posts) {
+      expect(ImportEntrySchema.safeParse(fields).success).toBe(true)
+    }
+  })
+
+  test('rejects files that are not WXR', () => {
+    expect(() => IMPORT_ADAPTERS.wordpress.parse(strToU8('<rss><channel></channel></rss>'))).toThrow('WXR')
+  })
+
+  test('autop leaves content that already has paragraphs alone', () => {
+    expect(autop('<p>a</p>\n\n<p>b</p>')).toBe('<p>a</p>\n\n<p>b</p>')
+    expect(autop('a\n\n<h2>b</h2>')).toBe('<p>a</p>\n<h2>b</h2>')
+  })
+})
+
+describe('Ghost adapter', () => {
+  const result = IMPORT_ADAPTERS.ghost.parse(strToU8(JSON.stringify(ghostExport)))
+
+  test('maps posts with their public tags', () => {
+    const post = result.posts[0]
+    expect(post.content).toBe('## Intro\n\nBody')
+    expect(post.excerpt).toBe('Short')
+    expect(post.is_public).toBe(true)
+    expect(post.published_at?.toISOString()).toBe('2022-06-01T08:00:00.000Z')
+    expect(post.tags).toEqual(['photography'])
+  })
+
+  test('falls back to markdown cards in older exports', () => {
+    const post = result.posts[1]
+    expect(post.content).toBe('Written in **markdown**')
+    expect(post.is_public).toBe(false)
+    expect(post.created_at?.getTime()).toBe(1510000000000)
+  })
+
+  test('pages and newsletter-only posts are skipped', () => {
+    expect(result.skipped.map((s) => s.item)).toEqual(['post a3', 'post a4'])
+  })
+
+  test('rejects other JSON', () => {
+    expect(() => IMPORT_ADAPTERS.ghost.parse(strToU8('{"posts": 1}'))).toThrow('Ghost')
+  })
+})
+
+describe('Jekyll/Hugo adapter', () => {
+  test('Jekyll: date and slug from the filename, drafts from _drafts', () => {
+    const zip = zipSync({
+      'site/_posts/2021-03-04-first-post.md': strToU8('---\ntitle: First\ntags: notes misc\n---\n\nHello'),
+      'site/_drafts/idea.md': strToU8('---\ntitle: Idea\n---\nLater'),
+      'site/about.md': strToU8('---\ntitle: About\n---\nMe'),
+    })
+    const result = IMPORT_ADAPTERS.markdown.parse(zip)
+
+    expect(result.posts).toHaveLength(2)
+    const [first, idea] = result.posts
+    expect(first.slug).toBe('first-post')
+    expect(first.published_at?.toISOString()).toBe('2021-03-04T00:00:00.000Z')
+    expect(first.tags).toEqual(['notes', 'misc'])
+    expect(first.content).toBe('Hello')
+    expect(idea.is_public).toBe(false)
+    expect(result.skipped).toEqual([{ item: 'site/about.md', title: '', reason: 'Not in _posts or _drafts' }])
+  })
+
+  test('Hugo: TOML front matter, page bundles, and section pages', () => {
+    const zip = zipSync({
+      'content/posts/bundle/index.md': strToU8('+++\ntitle = "Bundled"\ndate = 2023-02-01T10:00:00Z\ndraft = false\n+++\nBody'),
+      'content/posts/_index.md': strToU8('---\ntitle: Posts\n---\nList'),
+      'content/posts/wip.md': strToU8('---\ntitle: WIP\ndraft: true\nslug: custom\n---\nSoon'),
+      'content/about.md': strToU8('---\ntitle: About\n---\nMe'),
+    })
+    const result = IMPORT_ADAPTERS.markdown.parse(zip)
+
+    const bundled = result.posts.find((p) => p.title === 'Bundled')!
+    expect(bundled.slug).toBe('bundle')
+    expect(bundled.published_at?.toISOString()).toBe('2023-02-01T10:00:00.000Z')
+    const wip = result.posts.find((p) => p.title === 'WIP')!
+    expect(wip.slug).toBe('custom')
+    expect(wip.is_public).toBe(false)
+    expect(result.skipped.map((s) => s.reason).sort()).toEqual(['Section list page', 'Top-level page, not a post'])
+  })
+
+  test('TOML and YAML front matter', () => {
+    expect(parseFrontMatter('+++\ntitle = "T"\n+++\nBody')).toEqual({ data: { title: 'T' }, content: 'Body' })
+    expect(parseFrontMatter('---\ntitle: T\n---\nBody')?.data).toEqual({ title: 'T' })
+    expect(parseFrontMatter('No front matter')).toBeNull()
+  })
+})
+
+describe('platform import endpoint', () => {
+  const start = indexSrc.indexOf("app.post('/api/journal/import/:source', requireAuth")
+  const route = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+
+  test('is registered for every adapter', () => {
+    expect(start).toBeGreaterThan(-1)
+    expect(Object.keys(IMPORT_ADAPTERS).sort()).toEqual(['ghost', 'markdown', 'wordpress'])
+  })
+
+  test('dry run reports without writing', () => {
+    expect(route).toContain("c.req.query('dry_run')")
+    expect(route.indexOf('if (dryRun)')).toBeGreaterThan(-1)
+    expect(route.indexOf('if (dryRun)')).toBeLessThan(route.indexOf('applyImport('))
+  })
+
+  test('never overwrites existing entries', () => {
+    expect(route).toContain("plan.action !== 'create'")
+    expect(route).toContain('report.conflicts.push')
+  })
+})
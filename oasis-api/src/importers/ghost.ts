@@ -0,0 +1,95 @@
+import { strFromU8 } from 'fflate'
+import {
+  htmlToMarkdown,
+  normalizeSlug,
+  normalizeTags,
+  parseLooseDate,
+  type ImportAdapter,
+  type SourceExport,
+} from './shared'
+
+/**
+ * Ghost JSON export, from Settings → Labs → Export. Posts only; pages and
+ * newsletter-only emails are reported as skipped. Internal (#hash) tags
+ * are dropped.
+ */
+
+// Statuses that become journal entries, and whether they are public
+const STATUSES: Record<string, boolean> = {
+  published: true,
+  scheduled: true,
+  draft: false,
+}
+
+// Exports before Ghost 4 may have no html; fall back to markdown cards
+function mobiledocMarkdown(mobiledoc: unknown): string {
+  if (typeof mobiledoc !== 'string') return ''
+  try {
+    const doc = JSON.parse(mobiledoc)
+    return (doc.cards ?? [])
+      .filter(([name]: [string]) => name === 'markdown' || name === 'card-markdown')
+      .map(([, payload]: [string, { markdown?: string }]) => payload.markdown ?? '')
+      .join('\n\n')
+      .trim()
+  } catch {
+    return ''
+  }
+}
+
+export const ghost: ImportAdapter = {
+  label: 'Ghost export',
+
+  parse(bytes) {
+    let doc: any
+    try { doc = JSON.parse(strFromU8(bytes)) } catch { throw new Error('not valid JSON') }
+    // { db: [{ meta, data }] } from the admin, or { meta, data } from the API
+    const data = doc?.db?.[0]?.data ?? doc?.data
+    if (!data || !Array.isArray(data.posts)) throw new Error('not a Ghost JSON export')
+
+    const tagsById = new Map<string, any>((data.tags ?? []).map((tag: any) => [tag.id, tag]))
+    const postTags = new Map<string, any[]>()
+    for (const link of [...(data.posts_tags ?? [])].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))) {
+      const tag = tagsById.get(link.tag_id)
+      if (!tag || tag.visibility === 'internal' || String(tag.name).startsWith('#')) continue
+      postTags.set(link.post_id, [...(postTags.get(link.post_id) ?? []), tag.slug || tag.name])
+    }
+
+    const result: SourceExport = { posts: [], skipped: [] }
+    for (const post of data.posts) {
+      const id = `post ${post.id}`
+      const title = String(post.title ?? '').trim()
+      const type = post.type ?? (post.page ? 'page' : 'post')
+
+      if (type !== 'post') {
+        result.skipped.push({ item: id, title, reason: `Not a post (${type})` })
+        continue
+      }
+      if (!(post.status in STATUSES)) {
+        result.skipped.push({ item: id, title, reason: `Status "${post.status}" is not imported` })
+        continue
+      }
+
+      const content = (post.html ? htmlToMarkdown(post.html) : '')
+        || mobiledocMarkdown(post.mobiledoc)
+        || String(post.plaintext ?? '').trim()
+      if (!content) {
+        result.skipped.push({ item: id, title, reason: 'No content' })
+        continue
+      }
+
+      const isPublic = STATUSES[post.status]
+      result.posts.push({
+        item: id,
+        title: title || 'Untitled',
+        content,
+        slug: normalizeSlug(post.slug),
+        excerpt: post.custom_excerpt?.trim() || null,
+        is_public: isPublic,
+        published_at: isPublic ? parseLooseDate(post.published_at) : null,
+        created_at: parseLooseDate(post.created_at) ?? undefined,
+        tags: normalizeTags(postTags.get(post.id) ?? []),
+      })
+    }
+    return result
+  },
+}
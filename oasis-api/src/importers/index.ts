@@ -0,0 +1,16 @@
+import { ghost } from './ghost'
+import { markdown } from './markdown'
+import { wordpress } from './wordpress'
+import type { ImportAdapter } from './shared'
+
+/**
+ * Importers for posts from other blogging platforms, keyed by the :source
+ * in POST /api/journal/import/:source.
+ */
+export const IMPORT_ADAPTERS: Record<string, ImportAdapter> = {
+  wordpress,
+  ghost,
+  markdown,
+}
+
+export type { ImportAdapter, SourcePost, SkippedItem, SourceExport } from './shared'
@@ -0,0 +1,109 @@
+import { parseMarkdownFile, readArchive } from '../journal-archive'
+import {
+  normalizeSlug,
+  normalizeTags,
+  parseLooseDate,
+  type ImportAdapter,
+  type SourceExport,
+} from './shared'
+
+/**
+ * A zipped Jekyll or Hugo site (or just its posts folder). Jekyll posts
+ * come from _posts/ and _drafts/, Hugo posts from the sections under
+ * content/. Front matter may be YAML (---) or TOML (+++).
+ */
+
+const EXTENSIONS = ['.md', '.markdown']
+
+// Jekyll names posts YYYY-MM-DD-slug.md
+const JEKYLL_FILENAME = /^(\d{4}-\d{2}-\d{2})-(.+)$/
+
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; content: string } | null {
+  const toml = text.replace(/^\uFEFF/, '').match(/^\+\+\+\r?\n([\s\S]*?)\r?\n\+\+\+[ \t]*(?:\r?\n|$)([\s\S]*)$/)
+  if (!toml) return parseMarkdownFile(text)
+
+  let data: unknown
+  try { data = Bun.TOML.parse(toml[1]) } catch { return null }
+  return { data: data as Record<string, unknown>, content: toml[2] }
+}
+
+// Jekyll accepts a space-separated string as well as a list
+function list(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (typeof value === 'string') return value.split(/[\s,]+/)
+  return []
+}
+
+function string(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/** Which files are posts, given the site layout the archive contains. */
+function postFilter(paths: string[][]): (segments: string[]) => string | null {
+  if (paths.some((p) => p.includes('_posts') || p.includes('_drafts'))) {
+    return (p) => (p.includes('_posts') || p.includes('_drafts') ? null : 'Not in _posts or _drafts')
+  }
+  if (paths.some((p) => p.includes('content'))) {
+    return (p) => {
+      if (!p.includes('content')) return 'Not under content/'
+      if (p.slice(p.indexOf('content') + 1).length === 1) return 'Top-level page, not a post'
+      if (/^_index\.(md|markdown)$/i.test(p[p.length - 1])) return 'Section list page'
+      return null
+    }
+  }
+  return () => null
+}
+
+export const markdown: ImportAdapter = {
+  label: 'Jekyll or Hugo site archive',
+
+  parse(bytes) {
+    const files = readArchive(bytes, EXTENSIONS)
+    const paths = files.map((file) => file.name.split('/'))
+    const skipReason = postFilter(paths)
+
+    const result: SourceExport = { posts: [], skipped: [] }
+    files.forEach((file, i) => {
+      const segments = paths[i]
+      const reason = skipReason(segments)
+      if (reason) {
+        result.skipped.push({ item: file.name, title: '', reason })
+        return
+      }
+
+      const doc = parseFrontMatter(file.content)
+      if (!doc) {
+        result.skipped.push({ item: file.name, title: '', reason: 'No front matter' })
+        return
+      }
+      const { data } = doc
+      const title = string(data.title) ?? 'Untitled'
+      const content = doc.content.trim()
+      if (!content) {
+        result.skipped.push({ item: file.name, title, reason: 'No content' })
+        return
+      }
+
+      // Page bundles (my-post/index.md) take the folder's name
+      let basename = segments[segments.length - 1].replace(/\.(md|markdown)$/i, '')
+      if (basename === 'index' && segments.length > 1) basename = segments[segments.length - 2]
+      const jekyll = basename.match(JEKYLL_FILENAME)
+
+      const draft = data.draft === true || data.published === false || segments.includes('_drafts')
+      const date = parseLooseDate(data.publishDate ?? data.date) ?? parseLooseDate(jekyll?.[1])
+
+      result.posts.push({
+        item: file.name,
+        title,
+        content,
+        slug: normalizeSlug(data.slug) ?? normalizeSlug(jekyll ? jekyll[2] : basename),
+        excerpt: string(data.excerpt) ?? string(data.description) ?? string(data.summary),
+        is_public: !draft,
+        published_at: draft ? null : date,
+        created_at: date ?? undefined,
+        tags: normalizeTags([...list(data.tags), ...list(data.categories)]),
+      })
+    })
+    return result
+  },
+}
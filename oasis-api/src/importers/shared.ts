@@ -0,0 +1,103 @@
+import TurndownService from 'turndown'
+import { slugify } from '../schemas'
+
+/**
+ * What every platform adapter produces: posts mapped onto journal.entries
+ * fields, plus the items it deliberately left out (pages, attachments,
+ * empty drafts) so the import report can account for everything.
+ */
+
+export interface SourcePost {
+  /** Where the post came from, for the report — a post id or file path */
+  item: string
+  title: string
+  content: string
+  slug: string | null
+  excerpt: string | null
+  is_public: boolean
+  published_at: Date | null
+  created_at?: Date
+  tags: string[]
+}
+
+export interface SkippedItem {
+  item: string
+  title: string
+  reason: string
+}
+
+export interface SourceExport {
+  posts: SourcePost[]
+  skipped: SkippedItem[]
+}
+
+export interface ImportAdapter {
+  /** Shown in errors, e.g. "WordPress export" */
+  label: string
+  /** Throws if the bytes aren't this platform's export */
+  parse(bytes: Uint8Array): SourceExport
+}
+
+// Journal tags allow at most 20 per entry
+const MAX_TAGS = 20
+
+export function normalizeSlug(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  return slugify(String(value)).slice(0, 255).replace(/-+$/, '') || null
+}
+
+/** Tag names in the journal's slug format, deduplicated, in source order. */
+export function normalizeTags(values: unknown[]): string[] {
+  const tags = new Set<string>()
+  for (const value of values) {
+    const tag = normalizeSlug(value)?.slice(0, 64).replace(/-+$/, '')
+    if (tag) tags.add(tag)
+  }
+  return [...tags].slice(0, MAX_TAGS)
+}
+
+/**
+ * Dates as blogging platforms write them: ISO timestamps, Jekyll's
+ * "2024-01-05 10:00:00 +0100", WordPress's zoneless "2024-01-05 10:00:00"
+ * (taken as UTC), bare dates, or epoch milliseconds. WordPress's
+ * "0000-00-00" means none.
+ */
+export function parseLooseDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (value === null || value === undefined) return null
+  // Older Ghost exports use epoch milliseconds
+  if (typeof value === 'number') return new Date(value)
+
+  // TOML datetimes arrive as objects whose string form is ISO
+  const text = String(value).trim()
+  if (!text || text.startsWith('0000-00-00')) return null
+
+  const match = text.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})?)?$/i)
+  const iso = match
+    ? `${match[1]}T${match[2] ?? '00:00:00'}${(match[3] ?? 'Z').replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')}`
+    : text
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? null : date
+}
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '*',
+})
+
+// Keep the language hint on highlighted code blocks
+turndown.addRule('fencedCodeLanguage', {
+  filter: (node) => node.nodeName === 'PRE' && node.firstChild?.nodeName === 'CODE',
+  replacement: (_content, node) => {
+    const code = node.firstChild as HTMLElement
+    const lang = (code.getAttribute('class') || '').match(/(?:lang|language)-([\w-]+)/)?.[1] ?? ''
+    const text = (code.textContent || '').replace(/\n$/, '')
+    return `\n\n\`\`\`${lang}\n${text}\n\`\`\`\n\n`
+  },
+})
+
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html).trim()
+}
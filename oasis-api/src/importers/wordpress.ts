@@ -0,0 +1,121 @@
+import { XMLParser } from 'fast-xml-parser'
+import { strFromU8 } from 'fflate'
+import {
+  htmlToMarkdown,
+  normalizeSlug,
+  normalizeTags,
+  parseLooseDate,
+  type ImportAdapter,
+  type SourceExport,
+} from './shared'
+
+/**
+ * WordPress eXtended RSS (WXR), from Tools → Export. Posts only — pages,
+ * attachments, menus and revisions are reported as skipped.
+ */
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  // Slugs and titles like "2019" must stay strings
+  parseTagValue: false,
+  isArray: (name) => name === 'item' || name === 'category',
+})
+
+// Statuses that become journal entries, and whether they are public
+const STATUSES: Record<string, boolean> = {
+  publish: true,
+  future: true,
+  draft: false,
+  pending: false,
+  private: false,
+}
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return text((value as Record<string, unknown>)['#text'])
+  return String(value)
+}
+
+/**
+ * Classic-editor content has no <p> tags; WordPress adds them when it
+ * renders (wpautop). Blank lines become paragraphs, single newlines breaks.
+ */
+export function autop(html: string): string {
+  if (/<p[\s>]/i.test(html)) return html
+  return html
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => /^<(h\d|ul|ol|pre|blockquote|table|figure|div|hr)\b/i.test(block)
+      ? block
+      : `<p>${block.replace(/\n/g, '<br>\n')}</p>`)
+    .join('\n')
+}
+
+// Non-ASCII slugs are stored percent-encoded
+function decodeSlug(slug: string): string {
+  try { return decodeURIComponent(slug) } catch { return slug }
+}
+
+// [caption] wraps an image and its caption; [embed] wraps a bare URL
+function stripShortcodes(html: string): string {
+  return html
+    .replace(/\[caption[^\]]*\]([\s\S]*?)\[\/caption\]/g, '$1')
+    .replace(/\[embed[^\]]*\]([\s\S]*?)\[\/embed\]/g, '$1')
+}
+
+export const wordpress: ImportAdapter = {
+  label: 'WordPress export',
+
+  parse(bytes) {
+    let doc: any
+    try { doc = parser.parse(strFromU8(bytes)) } catch { throw new Error('not valid XML') }
+    const channel = doc?.rss?.channel
+    if (!channel || !('wp:wxr_version' in channel)) throw new Error('not a WordPress WXR export')
+
+    const result: SourceExport = { posts: [], skipped: [] }
+    for (const item of channel.item ?? []) {
+      const id = `post ${text(item['wp:post_id'])}`
+      const title = text(item.title).trim()
+      const type = text(item['wp:post_type'])
+      const status = text(item['wp:status'])
+
+      if (type !== 'post') {
+        result.skipped.push({ item: id, title, reason: `Not a post (${type || 'unknown type'})` })
+        continue
+      }
+      if (!(status in STATUSES)) {
+        result.skipped.push({ item: id, title, reason: `Status "${status}" is not imported` })
+        continue
+      }
+
+      const content = htmlToMarkdown(autop(stripShortcodes(text(item['content:encoded']))))
+      if (!content) {
+        result.skipped.push({ item: id, title, reason: 'No content' })
+        continue
+      }
+
+      // GMT dates are zeroed on drafts that were never scheduled
+      const date = parseLooseDate(text(item['wp:post_date_gmt'])) ?? parseLooseDate(text(item['wp:post_date']))
+      const categories = (item.category ?? [])
+        .filter((c: any) => c['@_domain'] === 'post_tag' || c['@_domain'] === 'category')
+        .map((c: any) => c['@_nicename'] || text(c))
+        .filter((name: string) => name !== 'uncategorized')
+      const excerpt = htmlToMarkdown(text(item['excerpt:encoded']))
+
+      result.posts.push({
+        item: id,
+        title: title || 'Untitled',
+        content,
+        slug: normalizeSlug(decodeSlug(text(item['wp:post_name']))),
+        excerpt: excerpt || null,
+        is_public: STATUSES[status],
+        published_at: STATUSES[status] ? date : null,
+        created_at: date ?? undefined,
+        tags: normalizeTags(categories),
+      })
+    }
+    return result
+  },
+}
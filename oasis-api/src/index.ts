@@ -1,4 +1,7 @@
 import { Hono } from 'hono'
+import { createHash } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname } from 'path'
 import { cors } from 'hono/cors'
 import { createMiddleware } from 'hono/factory'
 import postgres from 'postgres'
@@ -13,10 +16,76 @@ import {
   UpdateStepSchema,
   ReorderStepsSchema,
   GenerateStepsSchema,
+  SlugSchema,
+  CreateSeriesSchema,
+  UpdateSeriesSchema,
+  CreateShareLinkSchema,
+  PreviewJournalSchema,
+  ImportEntrySchema,
+  CreatePageSchema,
+  UpdatePageSchema,
+  ReceiveWebmentionSchema,
+  ModerateWebmentionSchema,
+  RESERVED_PAGE_SLUGS,
   parseBody,
   slugify,
+  uniqueSlug,
+  type ImportEntry,
 } from './schemas'
 import { generateExcerpt, calculateReadingTime } from './blog-helpers'
+import { HEADLINE_OPTIONS, MAX_QUERY_LENGTH, parseHeadline } from './search'
+import { createPublishScheduler, type LivePost } from './scheduler'
+import { shouldSnapshot, type RevisionSource } from './revisions'
+import { parseRetentionDays } from './trash'
+import { etagFor, ifMatchSatisfied, listEtag } from './etag'
+import { paginate, parsePageQuery, type Cursor, type CursorRow } from './pagination'
+import { buildOpenApiDocument, type OpenApiDocument } from './openapi'
+import { apiError, errorResponse, fieldError } from './errors'
+import { buildRssFeed, buildAtomFeed, postUrl, type FeedOptions, type FeedPost } from './feed'
+import {
+  renderPostPage,
+  FALLBACK_TEMPLATE,
+  type PagePost,
+  type AdjacentPosts,
+  type RelatedPost,
+} from './render'
+import { buildSitemap, buildRobotsTxt, type SitemapPost } from './sitemap'
+import { generateShareToken, isShareToken, shareLinkExpiry, shareUrl } from './share-links'
+import { buildPostSeries, type PostSeries, type SeriesPartRow } from './series'
+import {
+  ARCHIVE_MAX_BYTES,
+  serializeEntry,
+  parseMarkdownFile,
+  entryFilename,
+  createZipStream,
+  readArchive,
+  isUnchanged,
+  type ArchiveEntry,
+  type ArchiveFile,
+} from './journal-archive'
+import { IMPORT_ADAPTERS, type SourceExport } from './importers'
+import {
+  createHttpSender,
+  extractLinks,
+  linksChanged,
+  sendWebmention,
+  verifyMention,
+  mentionTargetSlug,
+  type PostMention,
+} from './webmention'
+import { MEDIA_MAX_BYTES, sniffMimeType, sanitizeFilename, storagePath, mediaUrl } from './media'
+import {
+  processImage,
+  writeVariant,
+  parseVariantName,
+  variantPath,
+  findMediaImages,
+  buildAssetMap,
+  VARIANT_TYPES,
+  type ImageAsset,
+  type ImageInfo,
+  type MediaImageRow,
+} from './images'
 
 // ─── Typed Hono app with session variables ─────────────────────────────────
 type SessionUser = typeof auth.$Infer.Session.user
@@ -56,11 +125,21 @@ app.use('/*', cors({
     if (ALLOWED_ORIGINS.includes(origin)) return origin
     return ''                                     // deny
   },
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'If-Match', 'Idempotency-Key'],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  exposeHeaders: ['ETag'],
   credentials: true,
 }))
 
+// ─── Errors — one envelope for every failure (see errors.ts) ─────────────────
+app.onError((err, c) => {
+  const { status, body } = errorResponse(err)
+  if (status >= 500) console.error(`${c.req.method} ${c.req.path} failed:`, err)
+  return c.json(body, status)
+})
+
+app.notFound((c) => c.json(apiError('NOT_FOUND', `No route for ${c.req.method} ${c.req.path}`), 404))
+
 // ─── Better Auth handler ────────────────────────────────────────────────────
 app.on(['POST', 'GET'], '/api/auth/*', (c) => {
   return auth.handler(c.req.raw)
@@ -79,7 +158,7 @@ app.use('*', async (c, next) => {
         return next()
       }
     }
-    return c.json({ error: 'Invalid internal API key' }, 401)
+    return c.json(apiError('UNAUTHORIZED', 'Invalid internal API key'), 401)
   }
 
   const session = await auth.api.getSession({
@@ -101,7 +180,7 @@ app.use('*', async (c, next) => {
 const requireAuth = createMiddleware(async (c, next) => {
   const user = c.get('user')
   if (!user) {
-    return c.json({ error: 'Unauthorized' }, 401)
+    return c.json(apiError('UNAUTHORIZED', 'Unauthorized'), 401)
   }
   await next()
 })
@@ -136,284 +215,2002 @@ app.get('/api/containers', requireAuth, async (c) => {
     })
     .filter(Boolean)
 
-  return c.json({ containers })
-})
+  return c.json({ containers })
+})
+
+app.get('/api/system', requireAuth, async (c) => {
+  const procPath = process.env.PROC_PATH || '/proc'
+  const [uptimeResult, memResult, loadResult, diskResult] = await Promise.all([
+    exec(`cat ${procPath}/uptime`),
+    exec(`cat ${procPath}/meminfo`),
+    exec(`cat ${procPath}/loadavg`),
+    exec("df -h / | tail -1 | awk '{print $2,$3,$4,$5}'"),
+  ])
+
+  const uptimeSeconds = parseFloat(uptimeResult.stdout.split(' ')[0])
+  const days = Math.floor(uptimeSeconds / 86400)
+  const hours = Math.floor((uptimeSeconds % 86400) / 3600)
+  const minutes = Math.floor((uptimeSeconds % 3600) / 60)
+  const uptime = `${days}d ${hours}h ${minutes}m`
+
+  const memLines = memResult.stdout.split('\n')
+  const memTotal = parseInt(memLines.find(l => l.startsWith('MemTotal'))?.split(/\s+/)[1] || '0') / 1024
+  const memAvailable = parseInt(memLines.find(l => l.startsWith('MemAvailable'))?.split(/\s+/)[1] || '0') / 1024
+  const memUsed = memTotal - memAvailable
+  const memPercent = Math.round((memUsed / memTotal) * 100)
+
+  const loadAvg = loadResult.stdout.split(' ').slice(0, 3).join(' ')
+
+  const [diskTotal, diskUsed, diskAvail, diskPercent] = diskResult.stdout.split(' ')
+
+  return c.json({
+    uptime,
+    memory: {
+      total: `${Math.round(memTotal)} MB`,
+      used: `${Math.round(memUsed)} MB`,
+      percent: memPercent,
+    },
+    load: loadAvg,
+    disk: {
+      total: diskTotal,
+      used: diskUsed,
+      available: diskAvail,
+      percent: diskPercent,
+    },
+  })
+})
+
+app.get('/api/health', (c) => c.json({ status: 'ok' }))
+
+// Built on first request; routes and schemas don't change while running
+let openApiDocument: OpenApiDocument | null = null
+app.get('/api/openapi.json', (c) => c.json(openApiDocument ??= buildOpenApiDocument()))
+
+// ─── Optimistic concurrency — If-Match checks (see etag.ts) ─────────────────
+
+// Appended to an UPDATE's WHERE clause when the write was checked against a
+// version: if another write lands between the check and the UPDATE, nothing
+// matches and the route answers 412 instead of overwriting it. Compared to
+// the millisecond, like the ETag.
+function unchangedSince(updatedAt: Date | null) {
+  return updatedAt ? sql`AND date_trunc('milliseconds', updated_at) = ${updatedAt}` : sql``
+}
+
+// ─── Journal tags ────────────────────────────────────────────────────────────
+
+// Sorted tag names for the journal.entries row in the enclosing query
+function entryTagsColumn() {
+  return sql`COALESCE((
+    SELECT array_agg(t.name ORDER BY t.name)
+    FROM journal.entry_tags et JOIN journal.tags t ON t.id = et.tag_id
+    WHERE et.entry_id = journal.entries.id
+  ), '{}') AS tags`
+}
+
+// Replace an entry's tag set, creating any tags that don't exist yet
+async function setEntryTags(entryId: number, tags: string[]): Promise<string[]> {
+  const names = [...new Set(tags)].sort()
+
+  await sql.begin(async (tx) => {
+    await tx`DELETE FROM journal.entry_tags WHERE entry_id = ${entryId}`
+    if (names.length === 0) return
+    await tx`
+      INSERT INTO journal.tags ${sql(names.map((name) => ({ name })), 'name')}
+      ON CONFLICT (name) DO NOTHING
+    `
+    await tx`
+      INSERT INTO journal.entry_tags (entry_id, tag_id)
+      SELECT ${entryId}, id FROM journal.tags WHERE name IN ${sql(names)}
+    `
+  })
+
+  return names
+}
+
+// ─── Journal slugs — unique across all entries, trashed ones included ──────
+
+async function isSlugTaken(slug: string, excludeId: number | null = null): Promise<boolean> {
+  const rows = await sql`
+    SELECT 1 FROM journal.entries
+    WHERE slug = ${slug} ${excludeId ? sql`AND id <> ${excludeId}` : sql``}
+    LIMIT 1
+  `
+  return rows.length > 0
+}
+
+// First free slug among base, base-2, base-3, ...
+async function findAvailableSlug(base: string, excludeId: number | null = null): Promise<string> {
+  const rows = await sql`
+    SELECT slug FROM journal.entries
+    WHERE (slug = ${base} OR slug LIKE ${base + '-%'})
+      ${excludeId ? sql`AND id <> ${excludeId}` : sql``}
+  `
+  return uniqueSlug(base, new Set(rows.map((r) => r.slug as string)))
+}
+
+async function slugConflict(slug: string, excludeId: number | null = null) {
+  return {
+    ...apiError('CONFLICT', `Slug "${slug}" is already in use`, [{ field: 'slug', message: 'is already in use' }]),
+    slug,
+    suggestion: await findAvailableSlug(slug, excludeId),
+  }
+}
+
+app.get('/api/journal/slug-available', requireAuth, async (c) => {
+  const parsed = parseBody(SlugSchema.min(1), (c.req.query('slug') || '').trim())
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const slug = parsed.data
+  // Editing an existing entry: its own slug doesn't count as taken
+  const excludeId = parseInt(c.req.query('exclude_id') || '') || null
+
+  const available = !await isSlugTaken(slug, excludeId)
+  return c.json({
+    slug,
+    available,
+    suggestion: available ? null : await findAvailableSlug(slug, excludeId),
+  })
+})
+
+// ─── Draft preview — blog metadata for unsaved content ──────────────────────
+
+// Same derivations as the public post endpoint, so the editor preview matches
+app.post('/api/journal/preview', requireAuth, async (c) => {
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
+
+  const parsed = parseBody(PreviewJournalSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { content, excerpt } = parsed.data
+
+  return c.json({
+    preview: {
+      excerpt: excerpt?.trim() || generateExcerpt(content),
+      reading_time: calculateReadingTime(content),
+      assets: await loadImageAssets(content),
+    },
+  })
+})
+
+// ─── Journal CRUD — reads are visibility-aware, writes require auth ─────────
+
+// ─── Journal pagination — ?after=<timestamp,id> cursors (see pagination.ts) ──
+
+// The row's sort position, to microseconds so no row is skipped or repeated
+function cursorColumn(column: 'created_at' | 'published_at') {
+  return sql`to_char(${sql(column)} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_at`
+}
+
+// Rows after the cursor, in (column DESC, id DESC) order
+function afterCursor(column: 'created_at' | 'published_at', cursor: Cursor | null) {
+  return cursor ? sql`AND (${sql(column)}, id) < (${cursor.at}::timestamptz, ${cursor.id})` : sql``
+}
+
+app.get('/api/journal', async (c) => {
+  const page = parsePageQuery({ limit: c.req.query('limit'), after: c.req.query('after') }, 20)
+  if (!page.success) return c.json(apiError('VALIDATION', page.error, page.fields), 400)
+  const { limit, cursor } = page
+  const user = c.get('user')
+
+  // Authenticated: user's entries + legacy (NULL user_id). Anonymous: only public ones.
+  const rows = user
+    ? await sql`SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at,
+                ${cursorColumn('created_at')}
+            FROM journal.entries
+            WHERE (user_id = ${user.id} OR user_id IS NULL) AND deleted_at IS NULL ${afterCursor('created_at', cursor)}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${limit + 1}`
+    : await sql`SELECT id, title, content, is_public, slug, excerpt, published_at, created_at, updated_at,
+                ${cursorColumn('created_at')}
+            FROM journal.entries
+            WHERE is_public = true AND deleted_at IS NULL AND (published_at IS NULL OR published_at <= NOW())
+              ${afterCursor('created_at', cursor)}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${limit + 1}`
+
+  const { rows: entries, next_cursor } = paginate(rows as unknown as (CursorRow & Record<string, any>)[], limit)
+  const body = { entries: entries.map(({ cursor_at: _, ...entry }) => entry), next_cursor, limit }
+  c.header('ETag', listEtag(body))
+  return c.json(body)
+})
+
+// ─── Public blog endpoints (must be before /api/journal/:id) ────────────────
+
+app.get('/api/journal/public', async (c) => {
+  const page = parsePageQuery({ limit: c.req.query('limit'), after: c.req.query('after') }, 10)
+  if (!page.success) return c.json(apiError('VALIDATION', page.error, page.fields), 400)
+  const { limit, cursor } = page
+  const tag = c.req.query('tag')?.trim().toLowerCase() || null
+
+  const tagFilter = tag
+    ? sql`AND id IN (
+        SELECT et.entry_id FROM journal.entry_tags et
+        JOIN journal.tags t ON t.id = et.tag_id
+        WHERE t.name = ${tag})`
+    : sql``
+
+  // Walks idx_journal_entries_published_keyset from the cursor down
+  const rows = await sql`SELECT id, slug, title, content, excerpt, published_at, ${entryTagsColumn()}, ${cursorColumn('published_at')}
+      FROM journal.entries
+      WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL ${tagFilter}
+        ${afterCursor('published_at', cursor)}
+      ORDER BY published_at DESC, id DESC
+      LIMIT ${limit + 1}`
+  const { rows: posts, next_cursor } = paginate(rows as unknown as (CursorRow & Record<string, any>)[], limit)
+
+  const postsWithMeta = posts.map((p) => ({
+    slug: p.slug,
+    title: p.title,
+    excerpt: p.excerpt || generateExcerpt(p.content),
+    published_at: p.published_at,
+    reading_time: calculateReadingTime(p.content),
+    tags: p.tags,
+  }))
+
+  const body = { posts: postsWithMeta, next_cursor, limit, tag }
+  c.header('ETag', listEtag(body))
+  return c.json(body)
+})
+
+// Srcset data for the uploaded images a post embeds
+async function loadImageAssets(content: string): Promise<Record<string, ImageAsset>> {
+  const refs = findMediaImages(content)
+  if (refs.length === 0) return {}
+
+  const rows = await sql`
+    SELECT id, filename, mime_type, width, height, variants
+    FROM media.assets
+    WHERE id IN ${sql(refs.map((r) => r.id))}
+  `
+  return buildAssetMap(refs, rows as unknown as MediaImageRow[])
+}
+
+// The post's series, limited to its published parts
+async function loadPostSeries(entryId: number): Promise<PostSeries | null> {
+  const rows = await sql`
+    SELECT s.title AS series_title, e.id AS entry_id, e.slug, e.title
+    FROM journal.series_entries m
+    JOIN journal.series s ON s.id = m.series_id
+    JOIN journal.series_entries se ON se.series_id = m.series_id
+    JOIN journal.entries e ON e.id = se.entry_id
+    WHERE m.entry_id = ${entryId}
+      AND e.is_public = true AND e.published_at IS NOT NULL AND e.published_at <= NOW()
+      AND e.deleted_at IS NULL
+    ORDER BY se.position, e.id
+  `
+  return buildPostSeries(rows as unknown as SeriesPartRow[], entryId)
+}
+
+// Neighbouring published posts by publish date; the older one is "previous"
+async function loadAdjacentPosts(entry: { id: number; published_at: Date }): Promise<AdjacentPosts> {
+  const [previous, next] = await Promise.all([
+    sql`SELECT slug, title FROM journal.entries
+        WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+          AND (published_at, id) < (${entry.published_at}, ${entry.id})
+        ORDER BY published_at DESC, id DESC
+        LIMIT 1`,
+    sql`SELECT slug, title FROM journal.entries
+        WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+          AND (published_at, id) > (${entry.published_at}, ${entry.id})
+        ORDER BY published_at ASC, id ASC
+        LIMIT 1`,
+  ])
+
+  return {
+    previous: previous[0] ? { slug: previous[0].slug, title: previous[0].title } : null,
+    next: next[0] ? { slug: next[0].slug, title: next[0].title } : null,
+  }
+}
+
+const RELATED_POST_LIMIT = 3
+const RELATED_TERM_LIMIT = 25
+
+// Posts with the most vocabulary in common: the post's most frequent search
+// terms become an OR query, ranked against the full-text index.
+async function loadRelatedPosts(entryId: number): Promise<RelatedPost[]> {
+  const posts = await sql`
+    WITH terms AS (
+      SELECT lexeme FROM journal.entries, unnest(search_vector)
+      WHERE id = ${entryId}
+      ORDER BY array_length(positions, 1) DESC, lexeme
+      LIMIT ${RELATED_TERM_LIMIT}
+    ), q AS (
+      SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS query FROM terms
+    )
+    SELECT e.slug, e.title, e.excerpt, e.content, e.published_at
+    FROM journal.entries e, q
+    WHERE e.id <> ${entryId} AND e.search_vector @@ q.query
+      AND e.is_public = true AND e.published_at IS NOT NULL AND e.published_at <= NOW()
+      AND e.deleted_at IS NULL
+    ORDER BY ts_rank(e.search_vector, q.query) DESC, e.published_at DESC
+    LIMIT ${RELATED_POST_LIMIT}
+  `
+
+  return posts.map((p) => ({
+    slug: p.slug,
+    title: p.title,
+    excerpt: p.excerpt || generateExcerpt(p.content),
+    published_at: p.published_at,
+  }))
+}
+
+// A retired slug resolves to the post that now owns it; the returned slug is
+// always the canonical one, so clients can tell when to update the URL.
+async function getPublishedPost(slug: string): Promise<PagePost | null> {
+  const entries = await sql`
+    SELECT id, slug, title, content, excerpt, published_at, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE (slug = ${slug} OR id = (SELECT entry_id FROM journal.slug_history WHERE slug = ${slug}))
+      AND is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+    ORDER BY (slug = ${slug}) DESC
+    LIMIT 1
+  `
+
+  if (entries.length === 0) return null
+
+  const p = entries[0]
+  const [assets, series, adjacent, related, mentions] = await Promise.all([
+    loadImageAssets(p.content),
+    loadPostSeries(p.id),
+    loadAdjacentPosts(p as { id: number; published_at: Date }),
+    loadRelatedPosts(p.id),
+    loadPostMentions(p.id),
+  ])
+
+  return {
+    slug: p.slug,
+    title: p.title,
+    content: p.content,
+    excerpt: p.excerpt || generateExcerpt(p.content),
+    published_at: p.published_at,
+    updated_at: p.updated_at,
+    reading_time: calculateReadingTime(p.content),
+    tags: p.tags,
+    assets,
+    series,
+    adjacent,
+    related,
+    mentions,
+  }
+}
+
+app.get('/api/journal/slug/:slug', async (c) => {
+  const post = await getPublishedPost(c.req.param('slug'))
+
+  if (!post) {
+    return c.json(apiError('NOT_FOUND', 'Post not found'), 404)
+  }
+
+  return c.json({ post })
+})
+
+// Real 301 for retired slugs, for nginx and other server-side consumers.
+// 404 means "not retired" — the caller should serve /blog/:slug as-is.
+app.get('/api/journal/slug/:slug/redirect', async (c) => {
+  const slug = c.req.param('slug')
+
+  const targets = await sql`
+    SELECT e.slug FROM journal.slug_history h
+    JOIN journal.entries e ON e.id = h.entry_id
+    WHERE h.slug = ${slug} AND e.slug IS NOT NULL AND e.slug <> ${slug}
+      AND e.is_public = true AND e.published_at IS NOT NULL AND e.published_at <= NOW()
+      AND e.deleted_at IS NULL
+  `
+
+  if (targets.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'No redirect for slug'), 404)
+  }
+
+  return c.redirect(`/blog/${targets[0].slug}`, 301)
+})
+
+// ─── Full-text search — own entries when signed in, published posts otherwise ─
+
+app.get('/api/journal/search', async (c) => {
+  const q = (c.req.query('q') || '').trim()
+  if (!q) return c.json(apiError('VALIDATION', 'Query parameter q is required'), 400)
+  if (q.length > MAX_QUERY_LENGTH) {
+    return c.json(apiError('VALIDATION', `Query must be at most ${MAX_QUERY_LENGTH} characters`), 400)
+  }
+  const limit = Math.min(50, Math.max(1, parseInt(c.req.query('limit') || '20') || 20))
+  // scope=public lets signed-in readers search the blog as visitors see it
+  const user = c.req.query('scope') === 'public' ? null : c.get('user')
+
+  const rows = user
+    ? await sql`
+        SELECT id, title, slug, is_public, published_at, created_at,
+          ts_headline('english', content, query, ${HEADLINE_OPTIONS}) AS headline
+        FROM journal.entries, websearch_to_tsquery('english', ${q}) query
+        WHERE search_vector @@ query
+          AND (user_id = ${user.id} OR user_id IS NULL) AND deleted_at IS NULL
+        ORDER BY ts_rank(search_vector, query) DESC, created_at DESC
+        LIMIT ${limit}`
+    : await sql`
+        SELECT slug, title, published_at,
+          ts_headline('english', content, query, ${HEADLINE_OPTIONS}) AS headline
+        FROM journal.entries, websearch_to_tsquery('english', ${q}) query
+        WHERE search_vector @@ query
+          AND is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+        ORDER BY ts_rank(search_vector, query) DESC, published_at DESC
+        LIMIT ${limit}`
+
+  const results = rows.map(({ headline, ...row }) => ({
+    ...row,
+    snippet: parseHeadline(headline),
+  }))
+
+  return c.json({ results, q })
+})
+
+// ─── Syndication feeds (RSS 2.0 / Atom) ──────────────────────────────────────
+
+const FEED_LIMIT = 20
+
+const feedOptions: FeedOptions = {
+  siteUrl: process.env.SITE_URL || 'https://jamescq.com',
+  title: 'ash1 oasis',
+  description: 'Posts from the ash1 oasis blog',
+}
+
+async function getFeedPosts() {
+  const posts = await sql`
+    SELECT slug, title, content, excerpt, published_at, updated_at
+    FROM journal.entries
+    WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+    ORDER BY published_at DESC
+    LIMIT ${FEED_LIMIT}
+  `
+  return posts as unknown as FeedPost[]
+}
+
+app.get('/api/journal/feed.rss', async (c) => {
+  const posts = await getFeedPosts()
+  return c.body(buildRssFeed(posts, feedOptions), 200, {
+    'Content-Type': 'application/rss+xml; charset=utf-8',
+  })
+})
+
+app.get('/api/journal/feed.atom', async (c) => {
+  const posts = await getFeedPosts()
+  return c.body(buildAtomFeed(posts, feedOptions), 200, {
+    'Content-Type': 'application/atom+xml; charset=utf-8',
+  })
+})
+
+// ─── Sitemap and robots.txt (nginx serves these at the site root) ──────────
+
+app.get('/sitemap.xml', async (c) => {
+  const posts = await sql`
+    SELECT slug, updated_at
+    FROM journal.entries
+    WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+    ORDER BY published_at DESC
+  `
+  return c.body(buildSitemap(posts as unknown as SitemapPost[], feedOptions.siteUrl), 200, {
+    'Content-Type': 'application/xml; charset=utf-8',
+  })
+})
+
+app.get('/robots.txt', (c) => {
+  return c.body(buildRobotsTxt(feedOptions.siteUrl), 200, {
+    'Content-Type': 'text/plain; charset=utf-8',
+  })
+})
+
+// ─── Server-rendered post pages (nginx sends /blog/:slug here) ──────────────
+
+const WEB_TEMPLATE_URL = process.env.WEB_TEMPLATE_URL || 'http://oasis-web:3000/index.html'
+const TEMPLATE_TTL_MS = 5 * 60 * 1000
+
+let templateCache: { html: string; fetchedAt: number } | null = null
+
+// The SPA's built index.html, so the rendered page boots the current bundle
+async function getPageTemplate(): Promise<string> {
+  if (templateCache && Date.now() - templateCache.fetchedAt < TEMPLATE_TTL_MS) {
+    return templateCache.html
+  }
+  try {
+    const res = await fetch(WEB_TEMPLATE_URL)
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    templateCache = { html: await res.text(), fetchedAt: Date.now() }
+    return templateCache.html
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`Failed to fetch page template from ${WEB_TEMPLATE_URL}: ${msg}`)
+    return templateCache?.html ?? FALLBACK_TEMPLATE
+  }
+}
+
+// 404 tells nginx to fall back to the plain SPA shell
+app.get('/api/journal/slug/:slug/page', async (c) => {
+  const slug = c.req.param('slug')
+  const post = await getPublishedPost(slug)
+
+  if (!post) {
+    return c.json(apiError('NOT_FOUND', 'Post not found'), 404)
+  }
+  if (post.slug !== slug) {
+    return c.redirect(`/blog/${post.slug}`, 301)
+  }
+
+  const template = await getPageTemplate()
+  return c.html(renderPostPage(template, post, { siteUrl: feedOptions.siteUrl, siteName: feedOptions.title }))
+})
+
+// ─── Journal archive — markdown zip export/import (must be before /api/journal/:id) ─
+
+// The user's live entries, serialized in batches so the zip can stream
+async function* journalArchiveFiles(userId: string): AsyncGenerator<ArchiveFile> {
+  const taken = new Set<string>()
+  const cursor = sql`
+    SELECT id, title, content, slug, excerpt, is_public, published_at, created_at, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+    ORDER BY created_at, id
+  `.cursor(100)
+
+  for await (const rows of cursor) {
+    for (const row of rows as unknown as ArchiveEntry[]) {
+      yield { name: entryFilename(row, taken), content: serializeEntry(row), mtime: new Date(row.updated_at!) }
+    }
+  }
+}
+
+app.get('/api/journal/export', requireAuth, (c) => {
+  const userId = c.get('user')!.id
+  const date = new Date().toISOString().slice(0, 10)
+
+  return new Response(createZipStream(journalArchiveFiles(userId)), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="journal-${date}.zip"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+})
+
+type ImportPlan =
+  | { action: 'create' }
+  | { action: 'update'; current: ArchiveEntry }
+  | { action: 'unchanged'; current: ArchiveEntry }
+  | { action: 'conflict'; reason: string }
+
+/**
+ * Match an imported entry to one of the user's own: by slug first, then by
+ * id. An id only counts when the slugs agree — ids from another instance
+ * (or a rebuilt database) can point at an unrelated entry.
+ */
+async function planImport(userId: string, entry: ImportEntry): Promise<ImportPlan> {
+  const columns = sql`id, title, content, slug, excerpt, is_public, published_at, created_at, ${entryTagsColumn()}`
+
+  let current: ArchiveEntry | undefined
+  if (entry.slug) {
+    const rows = await sql`
+      SELECT ${columns}, user_id, deleted_at FROM journal.entries WHERE slug = ${entry.slug}
+    `
+    if (rows.length > 0) {
+      const row = rows[0]
+      if (row.user_id && row.user_id !== userId) {
+        return { action: 'conflict', reason: 'Slug is used by another user\'s entry' }
+      }
+      if (row.deleted_at) {
+        return { action: 'conflict', reason: 'Slug belongs to an entry in the trash' }
+      }
+      if (entry.id && entry.id !== row.id) {
+        // The archive's id names a different entry than its slug does; only a
+        // problem if that id exists here
+        const byId = await sql`
+          SELECT 1 FROM journal.entries
+          WHERE id = ${entry.id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+        `
+        if (byId.length > 0) {
+          return { action: 'conflict', reason: `Slug matches entry ${row.id} but id matches entry ${entry.id}` }
+        }
+      }
+      current = row as unknown as ArchiveEntry
+    }
+  }
+
+  if (!current && entry.id) {
+    const rows = await sql`
+      SELECT ${columns} FROM journal.entries
+      WHERE id = ${entry.id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+    `
+    if (rows.length > 0) {
+      const row = rows[0] as unknown as ArchiveEntry
+      if (entry.slug && row.slug && row.slug !== entry.slug) {
+        return { action: 'conflict', reason: `Entry ${entry.id} has slug "${row.slug}"` }
+      }
+      current = row
+    }
+  }
+
+  if (!current) return { action: 'create' }
+  return isUnchanged(current, entry) ? { action: 'unchanged', current } : { action: 'update', current }
+}
+
+// Write an entry as planned; returns its id and slug
+async function applyImport(userId: string, entry: ImportEntry, plan: ImportPlan): Promise<{ id: number; slug: string | null }> {
+  if (plan.action === 'unchanged') return { id: plan.current.id, slug: plan.current.slug }
+  if (plan.action === 'conflict') throw new Error(plan.reason)
+
+  // Fields missing from the front matter keep their stored values
+  const current = plan.action === 'update' ? plan.current : null
+  const isPublic = entry.is_public ?? current?.is_public ?? false
+
+  // Public entries need a slug and a publish time, as they do through the editor
+  const slug = entry.slug
+    || current?.slug
+    || (isPublic ? await findAvailableSlug(slugify(entry.title), current?.id ?? null) : null)
+  let publishedAt = entry.published_at !== undefined ? entry.published_at : current?.published_at ?? null
+  if (isPublic && !publishedAt) publishedAt = new Date()
+
+  let id: number
+  if (plan.action === 'update') {
+    id = plan.current.id
+    if (plan.current.title !== entry.title || plan.current.content !== entry.content
+      || (entry.excerpt !== undefined && plan.current.excerpt !== entry.excerpt)) {
+      await insertRevision(id, plan.current)
+    }
+    await sql`
+      UPDATE journal.entries
+      SET title = ${entry.title},
+          content = ${entry.content},
+          excerpt = ${entry.excerpt !== undefined ? entry.excerpt : plan.current.excerpt},
+          is_public = ${isPublic},
+          slug = ${slug},
+          published_at = ${publishedAt}
+      WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+    `
+  } else {
+    const result = await sql`
+      INSERT INTO journal.entries (title, content, is_public, user_id, slug, excerpt, published_at, created_at)
+      VALUES (
+        ${entry.title}, ${entry.content}, ${isPublic}, ${userId}, ${slug},
+        ${entry.excerpt ?? null}, ${publishedAt}, ${entry.created_at ?? new Date()}
+      )
+      RETURNING id
+    `
+    id = result[0].id
+  }
+
+  if (entry.tags !== undefined) {
+    await setEntryTags(id, entry.tags)
+  }
+  return { id, slug }
+}
+
+app.post('/api/journal/import', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+
+  let form: Record<string, string | File | (string | File)[]>
+  try { form = await c.req.parseBody() } catch { return c.json(apiError('VALIDATION', 'Expected multipart/form-data body'), 400) }
+
+  const file = form.file
+  if (!(file instanceof File)) {
+    return c.json(fieldError('file', 'a zip archive is required'), 400)
+  }
+  if (file.size > ARCHIVE_MAX_BYTES) {
+    return c.json(fieldError('file', `must be at most ${ARCHIVE_MAX_BYTES / (1024 * 1024)} MB`), 413)
+  }
+
+  let files: ArchiveFile[]
+  try {
+    files = readArchive(new Uint8Array(await file.arrayBuffer()))
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    return c.json(fieldError('file', `not a readable zip archive (${msg})`), 400)
+  }
+
+  const report = {
+    created: [] as { file: string; id: number; slug: string | null }[],
+    updated: [] as { file: string; id: number; slug: string | null }[],
+    unchanged: [] as { file: string; id: number; slug: string | null }[],
+    conflicts: [] as { file: string; slug: string | null; reason: string }[],
+    errors: [] as { file: string; error: string }[],
+  }
+
+  // One file at a time, in archive order — a bad file doesn't stop the rest
+  for (const { name, content } of files) {
+    const doc = parseMarkdownFile(content)
+    if (!doc) {
+      report.errors.push({ file: name, error: 'Missing or invalid YAML front matter' })
+      continue
+    }
+    const parsed = parseBody(ImportEntrySchema, { ...doc.data, content: doc.content })
+    if (!parsed.success) {
+      report.errors.push({ file: name, error: parsed.error })
+      continue
+    }
+
+    const plan = await planImport(userId, parsed.data)
+    if (plan.action === 'conflict') {
+      report.conflicts.push({ file: name, slug: parsed.data.slug ?? null, reason: plan.reason })
+      continue
+    }
+    try {
+      const result = await applyImport(userId, parsed.data, plan)
+      const bucket = plan.action === 'create' ? report.created : plan.action === 'update' ? report.updated : report.unchanged
+      bucket.push({ file: name, ...result })
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      report.errors.push({ file: name, error: msg })
+    }
+  }
+
+  return c.json(report)
+})
+
+// Posts from another platform never overwrite existing entries: a matching
+// slug is skipped if nothing changed and reported as a conflict otherwise.
+// With ?dry_run=1 nothing is written.
+app.post('/api/journal/import/:source', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+  const source = c.req.param('source')
+  const adapter = IMPORT_ADAPTERS[source]
+  if (!adapter) {
+    return c.json(apiError('NOT_FOUND', `Unknown import source "${source}" (${Object.keys(IMPORT_ADAPTERS).join(', ')})`), 404)
+  }
+  const dryRun = ['1', 'true'].includes(c.req.query('dry_run') || '')
+
+  let form: Record<string, string | File | (string | File)[]>
+  try { form = await c.req.parseBody() } catch { return c.json(apiError('VALIDATION', 'Expected multipart/form-data body'), 400) }
+
+  const file = form.file
+  if (!(file instanceof File)) {
+    return c.json(fieldError('file', 'an export file is required'), 400)
+  }
+  if (file.size > ARCHIVE_MAX_BYTES) {
+    return c.json(fieldError('file', `must be at most ${ARCHIVE_MAX_BYTES / (1024 * 1024)} MB`), 413)
+  }
+
+  let exported: SourceExport
+  try {
+    exported = adapter.parse(new Uint8Array(await file.arrayBuffer()))
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    return c.json(fieldError('file', `not a readable ${adapter.label} (${msg})`), 400)
+  }
+
+  const report = {
+    source,
+    dry_run: dryRun,
+    created: [] as { item: string; title: string; slug: string | null; id: number | null }[],
+    skipped: exported.skipped as { item: string; title: string; reason: string }[],
+    conflicts: [] as { item: string; title: string; slug: string | null; reason: string }[],
+    errors: [] as { item: string; error: string }[],
+  }
+  const seenSlugs = new Set<string>()
+
+  for (const post of exported.posts) {
+    const { item, ...fields } = post
+    const parsed = parseBody(ImportEntrySchema, fields)
+    if (!parsed.success) {
+      report.errors.push({ item, error: parsed.error })
+      continue
+    }
+    const entry = parsed.data
+    const slug = entry.slug ?? null
+
+    // A dry run writes nothing, so catch repeats within the export itself
+    if (slug && seenSlugs.has(slug)) {
+      report.conflicts.push({ item, title: entry.title, slug, reason: 'Slug appears earlier in this export' })
+      continue
+    }
+    if (slug) seenSlugs.add(slug)
+
+    const plan = await planImport(userId, entry)
+    if (plan.action === 'unchanged') {
+      report.skipped.push({ item, title: entry.title, reason: `Already imported as entry ${plan.current.id}` })
+      continue
+    }
+    if (plan.action !== 'create') {
+      const reason = plan.action === 'conflict' ? plan.reason : `Entry ${plan.current.id} already uses this slug`
+      report.conflicts.push({ item, title: entry.title, slug, reason })
+      continue
+    }
+
+    if (dryRun) {
+      report.created.push({ item, title: entry.title, slug, id: null })
+      continue
+    }
+    try {
+      const result = await applyImport(userId, entry, plan)
+      report.created.push({ item, title: entry.title, ...result })
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      report.errors.push({ item, error: msg })
+    }
+  }
+
+  return c.json(report)
+})
+
+// ─── Journal trash (must be before /api/journal/:id) ────────────────────────
+
+const TRASH_RETENTION_DAYS = parseRetentionDays(process.env.TRASH_RETENTION_DAYS)
+
+app.get('/api/journal/trash', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+
+  const entries = await sql`
+    SELECT id, title, content, is_public, slug, created_at, updated_at, deleted_at,
+      deleted_at + make_interval(days => ${TRASH_RETENTION_DAYS}) AS purge_at
+    FROM journal.entries
+    WHERE deleted_at IS NOT NULL AND (user_id = ${userId} OR user_id IS NULL)
+    ORDER BY deleted_at DESC
+  `
+
+  return c.json({ entries, retention_days: TRASH_RETENTION_DAYS })
+})
+
+app.post('/api/journal/:id/restore', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  const result = await sql`
+    UPDATE journal.entries SET deleted_at = NULL
+    WHERE id = ${id} AND deleted_at IS NOT NULL
+      AND (user_id = ${userId} OR user_id IS NULL)
+    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+  `
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found in trash'), 404)
+  }
+
+  return c.json({ entry: result[0] })
+})
+
+app.get('/api/journal/:id', async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const user = c.get('user')
+
+  const entries = await sql`
+    SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE id = ${id} AND deleted_at IS NULL
+  `
+
+  if (entries.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const entry = entries[0]
+
+  if (user) {
+    // Authenticated: allow if entry belongs to user or has no owner (legacy)
+    if (entry.user_id && entry.user_id !== user.id) {
+      return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+    }
+  } else {
+    // Anonymous: only public entries whose scheduled publish time has passed
+    const scheduled = entry.published_at && new Date(entry.published_at) > new Date()
+    if (!entry.is_public || scheduled) {
+      return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+    }
+  }
+
+  c.header('ETag', etagFor(entry.updated_at))
+  return c.json({ entry })
+})
+
+app.post('/api/journal', requireAuth, async (c) => {
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
+
+  const parsed = parseBody(CreateJournalSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { title, content, is_public, excerpt, tags } = parsed.data
+  const userId = c.get('user')!.id
+
+  // A create sent again with the same Idempotency-Key gets the entry made the
+  // first time (200, not 201), even if it has since been moved to the trash
+  const idempotencyKey = c.req.header('Idempotency-Key')?.trim() || null
+  if (idempotencyKey && idempotencyKey.length > 255) {
+    return c.json(apiError('VALIDATION', 'Idempotency-Key must be at most 255 characters'), 400)
+  }
+  const findCreated = () => sql`
+    SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE user_id = ${userId} AND idempotency_key = ${idempotencyKey}
+  `
+  if (idempotencyKey) {
+    const created = await findCreated()
+    if (created.length > 0) return c.json({ entry: created[0] }, 200)
+  }
+
+  // An explicit slug must be free; one generated from the title gets a -2/-3 suffix instead
+  if (parsed.data.slug && await isSlugTaken(parsed.data.slug)) {
+    return c.json(await slugConflict(parsed.data.slug), 409)
+  }
+  const entrySlug = parsed.data.slug || (is_public ? await findAvailableSlug(slugify(title)) : null)
+  // Use the requested publish time (may be in the future), else publish now if public
+  const publishedAt = parsed.data.published_at
+    ? new Date(parsed.data.published_at)
+    : is_public ? new Date() : null
+
+  // Two requests with the same key racing past the check above: one inserts,
+  // the other finds nothing inserted and returns the winner's entry
+  const result = await sql`
+    INSERT INTO journal.entries (title, content, is_public, user_id, slug, excerpt, published_at, idempotency_key)
+    VALUES (${title}, ${content}, ${is_public}, ${userId}, ${entrySlug}, ${excerpt ?? null}, ${publishedAt}, ${idempotencyKey})
+    ON CONFLICT (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at
+  `
+  if (result.length === 0) return c.json({ entry: (await findCreated())[0] }, 200)
+
+  const entryTags = tags ? await setEntryTags(result[0].id, tags) : []
+
+  return c.json({ entry: { ...result[0], tags: entryTags } }, 201)
+})
+
+// The stored entry a PUT is checked against and snapshotted from
+type StoredEntry = RevisionSource & {
+  id: number
+  is_public: boolean
+  user_id: string | null
+  slug: string | null
+  published_at: Date | null
+  created_at: Date
+  updated_at: Date
+  tags: string[]
+}
+
+app.put('/api/journal/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
+
+  const parsed = parseBody(UpdateJournalSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { title, content, is_public, excerpt, tags } = parsed.data
+
+  // Determine slug: use provided value, or auto-generate if going public with no slug
+  const hasSlug = 'slug' in (body as any)
+  const slugValue = hasSlug ? (parsed.data.slug ?? null) : undefined
+
+  // First fetch the current entry to determine published_at logic
+  const current = await sql<StoredEntry[]>`
+    SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+  `
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  // Optimistic concurrency: a write based on an older version (another tab,
+  // or an offline draft replayed late) gets the current entry back to merge
+  // with. The version comes as an If-Match ETag, or as updated_at in the body.
+  if (parsed.data.updated_at && new Date(parsed.data.updated_at).getTime() !== new Date(current[0].updated_at).getTime()) {
+    return c.json({ ...apiError('CONFLICT', 'Entry has changed since it was loaded'), entry: current[0] }, 409)
+  }
+  if (!ifMatchSatisfied(c.req.header('If-Match'), current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Entry has changed since it was loaded'), entry: current[0] }, 412)
+  }
+  const checkedVersion = parsed.data.updated_at || c.req.header('If-Match') ? current[0].updated_at : null
+
+  if (slugValue && slugValue !== current[0].slug && await isSlugTaken(slugValue, id)) {
+    return c.json(await slugConflict(slugValue, id), 409)
+  }
+
+  // published_at logic:
+  // - Explicit published_at in the body → use it (a future time schedules the post)
+  // - Going public (was false, now true) and published_at is NULL → set to NOW()
+  // - Going private (was true, now false) → preserve published_at (do NOT clear)
+  // - null unschedules a private entry; a public one without a time would
+  //   never show on the blog, so that is refused
+  const wasPublic = current[0].is_public
+  const nowPublic = is_public ?? wasPublic
+  if (nowPublic && 'published_at' in (body as any) && !parsed.data.published_at) {
+    return c.json(fieldError('published_at', 'is required while the entry is public'), 400)
+  }
+  let publishedAt: Date | null = current[0].published_at
+  if ('published_at' in (body as any)) {
+    publishedAt = parsed.data.published_at ? new Date(parsed.data.published_at) : null
+  } else if (nowPublic && !wasPublic && !current[0].published_at) {
+    publishedAt = new Date()
+  }
+
+  // Auto-generate slug if going public and has no slug
+  let finalSlug = slugValue
+  if (finalSlug === undefined) {
+    if (nowPublic && !current[0].slug) {
+      finalSlug = await findAvailableSlug(slugify(title), id)
+    }
+  }
+
+  // Snapshot the pre-update state (coalesced so autosave bursts make one revision)
+  const latestRevision = await sql`
+    SELECT created_at FROM journal.revisions
+    WHERE entry_id = ${id}
+    ORDER BY created_at DESC LIMIT 1
+  `
+  const nextExcerpt = excerpt !== undefined ? excerpt : current[0].excerpt
+  if (shouldSnapshot(current[0], { title, content, excerpt: nextExcerpt }, latestRevision[0]?.created_at ?? null)) {
+    await insertRevision(id, current[0])
+  }
+
+  const result = await sql`
+    UPDATE journal.entries
+    SET title = ${title},
+        content = ${content},
+        is_public = COALESCE(${is_public ?? null}, is_public),
+        slug = COALESCE(${finalSlug !== undefined ? finalSlug : null}, slug),
+        excerpt = ${nextExcerpt},
+        published_at = ${publishedAt}
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+      ${unchangedSince(checkedVersion)}
+    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+  `
+
+  if (result.length === 0) {
+    // Trashed, or saved by someone else after the check above
+    const latest = await sql`
+      SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+      FROM journal.entries
+      WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+    `
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Entry has changed since it was loaded'), entry: latest[0] }, parsed.data.updated_at ? 409 : 412)
+  }
+
+  if (tags !== undefined) {
+    result[0].tags = await setEntryTags(id, tags)
+  }
+
+  // Live posts notify the pages they link to when they go public or their links
+  // change, not on every autosave; scheduled ones do so when they go live
+  if (result[0].is_public && (!wasPublic || linksChanged(current[0].content, content, feedOptions.siteUrl))) {
+    queueWebmentions(id, wasPublic ? extractLinks(current[0].content, feedOptions.siteUrl) : [])
+  }
+
+  c.header('ETag', etagFor(result[0].updated_at))
+  return c.json({ entry: result[0] })
+})
+
+// Soft-delete: the entry moves to the trash and is purged after the retention window
+app.delete('/api/journal/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  const result = await sql`
+    UPDATE journal.entries SET deleted_at = NOW()
+    WHERE id = ${id} AND deleted_at IS NULL
+      AND (user_id = ${userId} OR user_id IS NULL)
+    RETURNING id
+  `
+
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// ─── Journal revision history ───────────────────────────────────────────────
+
+async function insertRevision(entryId: number, source: RevisionSource) {
+  await sql`
+    INSERT INTO journal.revisions (entry_id, title, content, excerpt)
+    VALUES (${entryId}, ${source.title}, ${source.content}, ${source.excerpt})
+  `
+}
+
+// Helper: verify journal entry ownership before revision operations
+async function verifyEntryOwnership(entryId: number, userId: string): Promise<boolean> {
+  const result = await sql`
+    SELECT id FROM journal.entries
+    WHERE id = ${entryId} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+  `
+  return result.length > 0
+}
+
+app.get('/api/journal/:id/revisions', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  if (!await verifyEntryOwnership(id, userId)) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const revisions = await sql`
+    SELECT id, entry_id, title, length(content)::int AS content_length, created_at
+    FROM journal.revisions
+    WHERE entry_id = ${id}
+    ORDER BY created_at DESC, id DESC
+  `
+
+  return c.json({ revisions })
+})
+
+app.get('/api/journal/:id/revisions/:rev', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const rev = parseInt(c.req.param('rev'))
+  const userId = c.get('user')!.id
+
+  if (!await verifyEntryOwnership(id, userId)) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const revisions = await sql`
+    SELECT id, entry_id, title, content, excerpt, created_at
+    FROM journal.revisions
+    WHERE id = ${rev} AND entry_id = ${id}
+  `
+  if (revisions.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Revision not found'), 404)
+  }
+
+  return c.json({ revision: revisions[0] })
+})
+
+app.post('/api/journal/:id/revisions/:rev/restore', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const rev = parseInt(c.req.param('rev'))
+  const userId = c.get('user')!.id
+
+  const current = await sql<RevisionSource[]>`
+    SELECT title, content, excerpt FROM journal.entries
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+  `
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const revisions = await sql`
+    SELECT title, content, excerpt FROM journal.revisions
+    WHERE id = ${rev} AND entry_id = ${id}
+  `
+  if (revisions.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Revision not found'), 404)
+  }
+
+  // Always snapshot before restoring so the restore itself can be undone
+  await insertRevision(id, current[0])
+
+  const restored = revisions[0]
+  const result = await sql`
+    UPDATE journal.entries
+    SET title = ${restored.title},
+        content = ${restored.content},
+        excerpt = ${restored.excerpt}
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at, ${entryTagsColumn()}
+  `
+
+  return c.json({ entry: result[0] })
+})
+
+// ─── Journal share links — read-only access to drafts by token ──────────────
+
+app.get('/api/journal/:id/share-links', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  if (!await verifyEntryOwnership(id, userId)) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  // Expired links stay listed so they can be told apart from revoked ones
+  const links = await sql`
+    SELECT id, token, expires_at, created_at
+    FROM journal.share_links
+    WHERE entry_id = ${id} AND revoked_at IS NULL
+    ORDER BY created_at DESC
+  `
+
+  return c.json({ links: links.map((link) => ({ ...link, url: shareUrl(link.token) })) })
+})
+
+app.post('/api/journal/:id/share-links', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  let body: unknown
+  // An empty body gets the default expiry
+  try { body = await c.req.json() } catch { body = {} }
+
+  const parsed = parseBody(CreateShareLinkSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+
+  if (!await verifyEntryOwnership(id, userId)) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const result = await sql`
+    INSERT INTO journal.share_links (entry_id, token, expires_at)
+    VALUES (${id}, ${generateShareToken()}, ${shareLinkExpiry(parsed.data.expires_in_days)})
+    RETURNING id, token, expires_at, created_at
+  `
+
+  return c.json({ link: { ...result[0], url: shareUrl(result[0].token) } }, 201)
+})
+
+app.delete('/api/journal/:id/share-links/:linkId', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const linkId = parseInt(c.req.param('linkId'))
+  const userId = c.get('user')!.id
+
+  if (!await verifyEntryOwnership(id, userId)) {
+    return c.json(apiError('NOT_FOUND', 'Entry not found'), 404)
+  }
+
+  const result = await sql`
+    UPDATE journal.share_links SET revoked_at = NOW()
+    WHERE id = ${linkId} AND entry_id = ${id} AND revoked_at IS NULL
+    RETURNING id
+  `
+
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Share link not found'), 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// Public: the token is the credential. Works for drafts, never for trashed entries.
+app.get('/api/journal/shared/:token', async (c) => {
+  const token = c.req.param('token')
+  if (!isShareToken(token)) {
+    return c.json(apiError('NOT_FOUND', 'Share link not found or expired'), 404)
+  }
+
+  const links = await sql`
+    SELECT entry_id, expires_at FROM journal.share_links
+    WHERE token = ${token} AND revoked_at IS NULL AND expires_at > NOW()
+  `
+  const entries = links.length === 0 ? [] : await sql`
+    SELECT title, content, excerpt, updated_at, ${entryTagsColumn()}
+    FROM journal.entries
+    WHERE id = ${links[0].entry_id} AND deleted_at IS NULL
+  `
+
+  if (entries.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Share link not found or expired'), 404)
+  }
+
+  const e = entries[0]
+  c.header('Cache-Control', 'private, no-store')
+  c.header('X-Robots-Tag', 'noindex')
+  return c.json({
+    entry: {
+      title: e.title,
+      content: e.content,
+      excerpt: e.excerpt || generateExcerpt(e.content),
+      updated_at: e.updated_at,
+      reading_time: calculateReadingTime(e.content),
+      tags: e.tags,
+      assets: await loadImageAssets(e.content),
+    },
+    expires_at: links[0].expires_at,
+  })
+})
+
+// ─── Journal series — ordered groups of entries ─────────────────────────────
+
+// Member entries in reading order for the journal.series row in the enclosing query
+function seriesEntriesColumn() {
+  return sql`COALESCE((
+    SELECT json_agg(json_build_object(
+      'id', e.id, 'slug', e.slug, 'title', e.title,
+      'is_public', e.is_public, 'published_at', e.published_at
+    ) ORDER BY se.position, e.id)
+    FROM journal.series_entries se JOIN journal.entries e ON e.id = se.entry_id
+    WHERE se.series_id = journal.series.id AND e.deleted_at IS NULL
+  ), '[]') AS entries`
+}
+
+async function getSeries(seriesId: number) {
+  const series = await sql`
+    SELECT id, title, created_at, updated_at, ${seriesEntriesColumn()}
+    FROM journal.series
+    WHERE id = ${seriesId}
+  `
+  return series[0]
+}
+
+// Helper: every listed entry must exist and belong to the user
+async function verifyEntriesOwnership(entryIds: number[], userId: string): Promise<boolean> {
+  if (entryIds.length === 0) return true
+  const owned = await sql`
+    SELECT id FROM journal.entries
+    WHERE id IN ${sql(entryIds)} AND (user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL
+  `
+  return owned.length === entryIds.length
+}
+
+// Replace a series' membership. An entry belongs to one series, so listing it
+// here moves it out of any other series.
+async function setSeriesEntries(seriesId: number, entryIds: number[]) {
+  await sql.begin(async (tx) => {
+    await tx`DELETE FROM journal.series_entries WHERE series_id = ${seriesId}`
+    if (entryIds.length === 0) return
+    await tx`DELETE FROM journal.series_entries WHERE entry_id IN ${sql(entryIds)}`
+    await tx`
+      INSERT INTO journal.series_entries ${sql(
+        entryIds.map((entry_id, position) => ({ series_id: seriesId, entry_id, position })),
+        'series_id', 'entry_id', 'position'
+      )}
+    `
+  })
+}
+
+app.get('/api/series', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+
+  const series = await sql`
+    SELECT id, title, created_at, updated_at, ${seriesEntriesColumn()}
+    FROM journal.series
+    WHERE (user_id = ${userId} OR user_id IS NULL)
+    ORDER BY updated_at DESC
+  `
+
+  return c.json({ series })
+})
+
+// A series with its entries, owner-scoped
+async function findOwnSeries(seriesId: number, userId: string) {
+  return sql`
+    SELECT id, title, created_at, updated_at, ${seriesEntriesColumn()}
+    FROM journal.series
+    WHERE id = ${seriesId} AND (user_id = ${userId} OR user_id IS NULL)
+  `
+}
+
+app.get('/api/series/:id', requireAuth, async (c) => {
+  const series = await findOwnSeries(parseInt(c.req.param('id')), c.get('user')!.id)
+  if (series.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Series not found'), 404)
+  }
+
+  c.header('ETag', etagFor(series[0].updated_at))
+  return c.json({ series: series[0] })
+})
+
+app.post('/api/series', requireAuth, async (c) => {
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
+
+  const parsed = parseBody(CreateSeriesSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { title, entry_ids } = parsed.data
+  const userId = c.get('user')!.id
+
+  if (!await verifyEntriesOwnership(entry_ids, userId)) {
+    return c.json(fieldError('entry_ids', 'one or more entries not found'), 400)
+  }
+
+  const result = await sql`
+    INSERT INTO journal.series (title, user_id)
+    VALUES (${title}, ${userId})
+    RETURNING id
+  `
+  await setSeriesEntries(result[0].id, entry_ids)
+
+  return c.json({ series: await getSeries(result[0].id) }, 201)
+})
+
+app.put('/api/series/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
+
+  const parsed = parseBody(UpdateSeriesSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { title, entry_ids } = parsed.data
+
+  const current = await findOwnSeries(id, userId)
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Series not found'), 404)
+  }
+  const ifMatch = c.req.header('If-Match')
+  if (!ifMatchSatisfied(ifMatch, current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Series has changed since it was loaded'), series: current[0] }, 412)
+  }
+
+  if (entry_ids && !await verifyEntriesOwnership(entry_ids, userId)) {
+    return c.json(fieldError('entry_ids', 'one or more entries not found'), 400)
+  }
+
+  // Always an UPDATE, even for a membership-only change, so updated_at moves on
+  const result = await sql`
+    UPDATE journal.series SET title = COALESCE(${title ?? null}, title)
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
+      ${unchangedSince(ifMatch ? current[0].updated_at : null)}
+    RETURNING id, updated_at
+  `
+
+  if (result.length === 0) {
+    const latest = await findOwnSeries(id, userId)
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Series not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Series has changed since it was loaded'), series: latest[0] }, 412)
+  }
+
+  if (entry_ids) await setSeriesEntries(id, entry_ids)
+
+  c.header('ETag', etagFor(result[0].updated_at))
+  return c.json({ series: await getSeries(id) })
+})
+
+// Deleting a series leaves its entries in place
+app.delete('/api/series/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
+
+  const result = await sql`
+    DELETE FROM journal.series
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
+    RETURNING id
+  `
+
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Series not found'), 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// ─── Webmentions — notify linked pages, moderate incoming mentions ─────────
+
+const MENTION_STATUSES = ['pending', 'approved', 'rejected']
+
+const webmentionSender = createHttpSender()
+
+// Each linked URL is claimed before it's notified, so a post that is saved
+// again (or goes live while a save is still sending) never mentions it twice.
+// A send that failed (no answer, or a 5xx) can be claimed again and retried.
+// Links an edit removed are notified once more, so the target can drop the
+// mention; removedLinks are the links the post had before the edit.
+async function sendEntryWebmentions(entryId: number, removedLinks: string[] = []) {
+  const entries = await sql`
+    SELECT slug, content FROM journal.entries
+    WHERE id = ${entryId} AND is_public = true AND slug IS NOT NULL
+      AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+  `
+  if (entries.length === 0) return
+
+  const links = extractLinks(entries[0].content, feedOptions.siteUrl)
+  const removed = removedLinks.filter((link) => !links.includes(link))
+
+  const claimed: string[] = links.length === 0 ? [] : (await sql`
+    INSERT INTO journal.webmention_sends ${sql(
+      links.map((target) => ({ entry_id: entryId, target })),
+      'entry_id', 'target'
+    )}
+    ON CONFLICT (entry_id, target) DO UPDATE
+      SET endpoint = NULL, status_code = NULL, error = NULL, sent_at = NOW()
+      WHERE journal.webmention_sends.error IS NOT NULL OR journal.webmention_sends.status_code >= 500
+    RETURNING target
+  `).map((row) => row.target)
+
+  // Only targets that were notified of the link hear about its removal
+  if (removed.length > 0) {
+    claimed.push(...(await sql`
+      UPDATE journal.webmention_sends
+      SET endpoint = NULL, status_code = NULL, error = NULL, sent_at = NOW()
+      WHERE entry_id = ${entryId} AND target IN ${sql(removed)}
+      RETURNING target
+    `).map((row) => row.target))
+  }
+
+  const source = postUrl(feedOptions.siteUrl, entries[0].slug)
+  for (const target of claimed) {
+    const result = await sendWebmention(webmentionSender, source, target)
+    // A removed link is forgotten once notified, so adding it back mentions it again
+    if (removed.includes(target) && !result.error) {
+      await sql`DELETE FROM journal.webmention_sends WHERE entry_id = ${entryId} AND target = ${target}`
+      continue
+    }
+    await sql`
+      UPDATE journal.webmention_sends
+      SET endpoint = ${result.endpoint}, status_code = ${result.status}, error = ${result.error}, sent_at = NOW()
+      WHERE entry_id = ${entryId} AND target = ${target}
+    `
+  }
+}
+
+// Fire-and-forget from request handlers; sending can take a while
+function queueWebmentions(entryId: number, removedLinks: string[] = []) {
+  sendEntryWebmentions(entryId, removedLinks).catch((err) => {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`Sending webmentions for entry ${entryId} failed: ${msg}`)
+  })
+}
+
+// A mention whose source no longer links here is dropped. One whose content
+// changed goes back to the queue, so approval covers what is actually shown.
+async function verifyIncomingMention(id: number, source: string, target: string) {
+  try {
+    const mention = await verifyMention(webmentionSender, source, target)
+    if (!mention) {
+      await sql`DELETE FROM journal.webmentions WHERE id = ${id}`
+      return
+    }
+    await sql`
+      UPDATE journal.webmentions
+      SET status = CASE
+            WHEN type IS DISTINCT FROM ${mention.type} OR content IS DISTINCT FROM ${mention.content}
+              THEN 'pending' ELSE status END,
+          type = ${mention.type},
+          author_name = ${mention.author_name},
+          author_url = ${mention.author_url},
+          content = ${mention.content},
+          published_at = ${mention.published_at},
+          verified_at = NOW()
+      WHERE id = ${id}
+    `
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`Verifying webmention from ${source} failed: ${msg}`)
+  }
+}
 
-app.get('/api/system', requireAuth, async (c) => {
-  const procPath = process.env.PROC_PATH || '/proc'
-  const [uptimeResult, memResult, loadResult, diskResult] = await Promise.all([
-    exec(`cat ${procPath}/uptime`),
-    exec(`cat ${procPath}/meminfo`),
-    exec(`cat ${procPath}/loadavg`),
-    exec("df -h / | tail -1 | awk '{print $2,$3,$4,$5}'"),
-  ])
+async function loadPostMentions(entryId: number): Promise<PostMention[]> {
+  const mentions = await sql`
+    SELECT type, source, author_name, author_url, content,
+      COALESCE(published_at, created_at) AS published_at
+    FROM journal.webmentions
+    WHERE entry_id = ${entryId} AND status = 'approved' AND verified_at IS NOT NULL
+    ORDER BY COALESCE(published_at, created_at)
+  `
+  return mentions as unknown as PostMention[]
+}
 
-  const uptimeSeconds = parseFloat(uptimeResult.stdout.split(' ')[0])
-  const days = Math.floor(uptimeSeconds / 86400)
-  const hours = Math.floor((uptimeSeconds % 86400) / 3600)
-  const minutes = Math.floor((uptimeSeconds % 3600) / 60)
-  const uptime = `${days}d ${hours}h ${minutes}m`
+// Public receiving endpoint (advertised in index.html). Verification fetches
+// the source, so it happens after the 202.
+app.post('/api/webmention', async (c) => {
+  let form: Record<string, string | File | (string | File)[]>
+  try { form = await c.req.parseBody() } catch { return c.json(apiError('VALIDATION', 'Expected form-encoded body'), 400) }
 
-  const memLines = memResult.stdout.split('\n')
-  const memTotal = parseInt(memLines.find(l => l.startsWith('MemTotal'))?.split(/\s+/)[1] || '0') / 1024
-  const memAvailable = parseInt(memLines.find(l => l.startsWith('MemAvailable'))?.split(/\s+/)[1] || '0') / 1024
-  const memUsed = memTotal - memAvailable
-  const memPercent = Math.round((memUsed / memTotal) * 100)
+  const parsed = parseBody(ReceiveWebmentionSchema, { source: form.source, target: form.target })
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { source, target } = parsed.data
 
-  const loadAvg = loadResult.stdout.split(' ').slice(0, 3).join(' ')
+  const slug = mentionTargetSlug(target, feedOptions.siteUrl)
+  if (!slug) return c.json(apiError('VALIDATION', 'Target is not a post on this site'), 400)
 
-  const [diskTotal, diskUsed, diskAvail, diskPercent] = diskResult.stdout.split(' ')
+  const entries = await sql`
+    SELECT id FROM journal.entries
+    WHERE (slug = ${slug} OR id = (SELECT entry_id FROM journal.slug_history WHERE slug = ${slug}))
+      AND is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+    ORDER BY (slug = ${slug}) DESC
+    LIMIT 1
+  `
+  if (entries.length === 0) return c.json(apiError('VALIDATION', 'Target post not found'), 400)
 
-  return c.json({
-    uptime,
-    memory: {
-      total: `${Math.round(memTotal)} MB`,
-      used: `${Math.round(memUsed)} MB`,
-      percent: memPercent,
-    },
-    load: loadAvg,
-    disk: {
-      total: diskTotal,
-      used: diskUsed,
-      available: diskAvail,
-      percent: diskPercent,
-    },
-  })
+  // A repeat notification means the source changed; it is verified again
+  const result = await sql`
+    INSERT INTO journal.webmentions (entry_id, source, target)
+    VALUES (${entries[0].id}, ${source}, ${target})
+    ON CONFLICT (source, target) DO UPDATE SET verified_at = NULL
+    RETURNING id
+  `
+  void verifyIncomingMention(result[0].id, source, target)
+
+  return c.json({ status: 'accepted' }, 202)
 })
 
-app.get('/api/health', (c) => c.json({ status: 'ok' }))
+app.get('/api/webmentions', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+  const status = c.req.query('status') || 'pending'
+  if (!MENTION_STATUSES.includes(status)) {
+    return c.json(fieldError('status', `must be one of ${MENTION_STATUSES.join(', ')}`), 400)
+  }
 
-// ─── Journal CRUD — reads are visibility-aware, writes require auth ─────────
+  const mentions = await sql`
+    SELECT w.id, w.entry_id, e.title AS entry_title, e.slug AS entry_slug,
+      w.source, w.target, w.status, w.type, w.author_name, w.author_url, w.content,
+      w.published_at, w.verified_at, w.created_at
+    FROM journal.webmentions w
+    JOIN journal.entries e ON e.id = w.entry_id
+    WHERE w.status = ${status} AND (e.user_id = ${userId} OR e.user_id IS NULL)
+    ORDER BY w.created_at DESC
+  `
 
-app.get('/api/journal', async (c) => {
-  const page = parseInt(c.req.query('page') || '1')
-  const limit = parseInt(c.req.query('limit') || '20')
-  const offset = (page - 1) * limit
-  const user = c.get('user')
+  return c.json({ mentions })
+})
 
-  // Authenticated: user's entries + legacy (NULL user_id). Anonymous: only public ones.
-  const [entries, countResult] = user
-    ? await Promise.all([
-        sql`SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at
-            FROM journal.entries
-            WHERE user_id = ${user.id} OR user_id IS NULL
-            ORDER BY created_at DESC
-            LIMIT ${limit} OFFSET ${offset}`,
-        sql`SELECT COUNT(*)::int as total FROM journal.entries
-            WHERE user_id = ${user.id} OR user_id IS NULL`
-      ])
-    : await Promise.all([
-        sql`SELECT id, title, content, is_public, slug, excerpt, published_at, created_at, updated_at
-            FROM journal.entries
-            WHERE is_public = true
-            ORDER BY created_at DESC
-            LIMIT ${limit} OFFSET ${offset}`,
-        sql`SELECT COUNT(*)::int as total FROM journal.entries WHERE is_public = true`
-      ])
+app.put('/api/webmentions/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
 
-  return c.json({ entries, total: countResult[0].total, page, limit })
-})
+  let body: unknown
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
-// ─── Public blog endpoints (must be before /api/journal/:id) ────────────────
+  const parsed = parseBody(ModerateWebmentionSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
 
-app.get('/api/journal/public', async (c) => {
-  const page = Math.max(1, parseInt(c.req.query('page') || '1'))
-  const limit = Math.min(50, Math.max(1, parseInt(c.req.query('limit') || '10')))
-  const offset = (page - 1) * limit
-
-  const [posts, countResult] = await Promise.all([
-    sql`SELECT slug, title, content, excerpt, published_at
-        FROM journal.entries
-        WHERE is_public = true AND published_at IS NOT NULL
-        ORDER BY published_at DESC
-        LIMIT ${limit} OFFSET ${offset}`,
-    sql`SELECT COUNT(*)::int as total FROM journal.entries
-        WHERE is_public = true AND published_at IS NOT NULL`,
-  ])
+  const result = await sql`
+    UPDATE journal.webmentions w
+    SET status = ${parsed.data.status}
+    FROM journal.entries e
+    WHERE w.id = ${id} AND e.id = w.entry_id AND (e.user_id = ${userId} OR e.user_id IS NULL)
+    RETURNING w.id, w.entry_id, w.source, w.target, w.status, w.type, w.author_name, w.author_url,
+      w.content, w.published_at, w.verified_at, w.created_at
+  `
 
-  const postsWithMeta = posts.map((p) => ({
-    slug: p.slug,
-    title: p.title,
-    excerpt: p.excerpt || generateExcerpt(p.content),
-    published_at: p.published_at,
-    reading_time: calculateReadingTime(p.content),
-  }))
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Mention not found'), 404)
+  }
 
-  return c.json({ posts: postsWithMeta, total: countResult[0].total, page, limit })
+  return c.json({ mention: result[0] })
 })
 
-app.get('/api/journal/slug/:slug', async (c) => {
-  const slug = c.req.param('slug')
+app.delete('/api/webmentions/:id', requireAuth, async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const userId = c.get('user')!.id
 
-  const entries = await sql`
-    SELECT slug, title, content, excerpt, published_at
-    FROM journal.entries
-    WHERE slug = ${slug} AND is_public = true AND published_at IS NOT NULL
+  const result = await sql`
+    DELETE FROM journal.webmentions w
+    USING journal.entries e
+    WHERE w.id = ${id} AND e.id = w.entry_id AND (e.user_id = ${userId} OR e.user_id IS NULL)
+    RETURNING w.id
   `
 
-  if (entries.length === 0) {
-    return c.json({ error: 'Post not found' }, 404)
+  if (result.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Mention not found'), 404)
   }
 
-  const p = entries[0]
-  return c.json({
-    post: {
-      slug: p.slug,
-      title: p.title,
-      content: p.content,
-      excerpt: p.excerpt || generateExcerpt(p.content),
-      published_at: p.published_at,
-      reading_time: calculateReadingTime(p.content),
-    },
-  })
+  return c.json({ success: true })
 })
 
-app.get('/api/journal/:id', async (c) => {
-  const id = parseInt(c.req.param('id'))
-  const user = c.get('user')
+// ─── Static pages — About, Now, Uses, ... served at /:slug ─────────────────
 
-  const entries = await sql`
-    SELECT id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at
-    FROM journal.entries
-    WHERE id = ${id}
+const PAGE_COLUMNS = sql`id, title, slug, content, is_public, show_in_nav, nav_label, nav_order, created_at, updated_at`
+
+// First free page slug; reserved top-level paths count as taken
+async function findAvailablePageSlug(base: string, excludeId: number | null = null): Promise<string> {
+  const rows = await sql`
+    SELECT slug FROM journal.pages
+    WHERE (slug = ${base} OR slug LIKE ${base + '-%'})
+      ${excludeId ? sql`AND id <> ${excludeId}` : sql``}
   `
+  return uniqueSlug(base, new Set([...RESERVED_PAGE_SLUGS, ...rows.map((r) => r.slug as string)]))
+}
 
-  if (entries.length === 0) {
-    return c.json({ error: 'Entry not found' }, 404)
+async function pageSlugConflict(slug: string, excludeId: number | null = null) {
+  const rows = await sql`
+    SELECT 1 FROM journal.pages
+    WHERE slug = ${slug} ${excludeId ? sql`AND id <> ${excludeId}` : sql``}
+  `
+  if (rows.length === 0) return null
+  return {
+    ...apiError('CONFLICT', `Slug "${slug}" is already in use by another page`, [{ field: 'slug', message: 'is already in use by another page' }]),
+    slug,
+    suggestion: await findAvailablePageSlug(slug, excludeId),
   }
+}
 
-  const entry = entries[0]
+// Signed in: your pages, drafts included. Anonymous: published pages for the
+// header navigation, without their content.
+app.get('/api/pages', async (c) => {
+  const user = c.get('user')
 
-  if (user) {
-    // Authenticated: allow if entry belongs to user or has no owner (legacy)
-    if (entry.user_id && entry.user_id !== user.id) {
-      return c.json({ error: 'Entry not found' }, 404)
-    }
-  } else {
-    // Anonymous: only public entries
-    if (!entry.is_public) {
-      return c.json({ error: 'Entry not found' }, 404)
-    }
+  const pages = user
+    ? await sql`
+        SELECT ${PAGE_COLUMNS} FROM journal.pages
+        WHERE (user_id = ${user.id} OR user_id IS NULL)
+        ORDER BY nav_order, title
+      `
+    : await sql`
+        SELECT id, title, slug, is_public, show_in_nav, nav_label, nav_order FROM journal.pages
+        WHERE is_public = true
+        ORDER BY nav_order, title
+      `
+
+  c.header('ETag', listEtag({ pages }))
+  return c.json({ pages })
+})
+
+// Drafts are visible to their owner, so a page can be checked before publishing
+app.get('/api/pages/:slug', async (c) => {
+  const slug = c.req.param('slug')
+  const user = c.get('user')
+
+  const pages = await sql`
+    SELECT ${PAGE_COLUMNS}, user_id FROM journal.pages WHERE slug = ${slug}
+  `
+  const page = pages[0]
+  const isOwner = !!user && (!page?.user_id || page.user_id === user.id)
+  if (!page || (!page.is_public && !isOwner)) {
+    return c.json(apiError('NOT_FOUND', 'Page not found'), 404)
   }
 
-  return c.json({ entry })
+  const { user_id: _, ...fields } = page
+  c.header('ETag', etagFor(page.updated_at))
+  return c.json({ page: { ...fields, assets: await loadImageAssets(page.content) } })
 })
 
-app.post('/api/journal', requireAuth, async (c) => {
+app.post('/api/pages', requireAuth, async (c) => {
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
-  const parsed = parseBody(CreateJournalSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
-  const { title, content, is_public, excerpt } = parsed.data
+  const parsed = parseBody(CreatePageSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
+  const { title, content, is_public, show_in_nav, nav_label, nav_order } = parsed.data
   const userId = c.get('user')!.id
 
-  // Auto-generate slug from title if public and no slug provided
-  const entrySlug = parsed.data.slug || (is_public ? slugify(title) : null)
-  // Set published_at when creating a public entry
-  const publishedAt = is_public ? new Date() : null
+  // An explicit slug must be free; one generated from the title gets a suffix instead
+  const conflict = parsed.data.slug ? await pageSlugConflict(parsed.data.slug) : null
+  if (conflict) return c.json(conflict, 409)
+  const slug = parsed.data.slug || await findAvailablePageSlug(slugify(title) || 'page')
 
   const result = await sql`
-    INSERT INTO journal.entries (title, content, is_public, user_id, slug, excerpt, published_at)
-    VALUES (${title}, ${content}, ${is_public}, ${userId}, ${entrySlug}, ${excerpt ?? null}, ${publishedAt})
-    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at
+    INSERT INTO journal.pages (user_id, title, slug, content, is_public, show_in_nav, nav_label, nav_order)
+    VALUES (${userId}, ${title}, ${slug}, ${content}, ${is_public}, ${show_in_nav}, ${nav_label || null}, ${nav_order})
+    RETURNING ${PAGE_COLUMNS}
   `
 
-  return c.json({ entry: result[0] }, 201)
+  return c.json({ page: result[0] }, 201)
 })
 
-app.put('/api/journal/:id', requireAuth, async (c) => {
+app.put('/api/pages/:id', requireAuth, async (c) => {
   const id = parseInt(c.req.param('id'))
   const userId = c.get('user')!.id
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
-
-  const parsed = parseBody(UpdateJournalSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
-  const { title, content, is_public, excerpt } = parsed.data
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
-  // Determine slug: use provided value, or auto-generate if going public with no slug
-  const hasSlug = 'slug' in (body as any)
-  const slugValue = hasSlug ? (parsed.data.slug ?? null) : undefined
+  const parsed = parseBody(UpdatePageSchema, body)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
 
-  // First fetch the current entry to determine published_at logic
   const current = await sql`
-    SELECT is_public, published_at, slug FROM journal.entries
+    SELECT ${PAGE_COLUMNS} FROM journal.pages
     WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
   `
   if (current.length === 0) {
-    return c.json({ error: 'Entry not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Page not found'), 404)
   }
-
-  // published_at logic:
-  // - Going public (was false, now true) and published_at is NULL → set to NOW()
-  // - Going private (was true, now false) → preserve published_at (do NOT clear)
-  let publishedAt: Date | null | undefined = undefined // undefined = don't change
-  const wasPublic = current[0].is_public
-  const nowPublic = is_public ?? wasPublic
-  if (nowPublic && !wasPublic && !current[0].published_at) {
-    publishedAt = new Date()
+  if (!ifMatchSatisfied(c.req.header('If-Match'), current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Page has changed since it was loaded'), page: current[0] }, 412)
   }
-
-  // Auto-generate slug if going public and has no slug
-  let finalSlug = slugValue
-  if (finalSlug === undefined) {
-    if (nowPublic && !current[0].slug) {
-      finalSlug = slugify(title)
-    }
+  const checkedVersion = c.req.header('If-Match') ? current[0].updated_at : null
+
+  const changes = parsed.data
+  const page = {
+    title: changes.title ?? current[0].title,
+    slug: changes.slug ?? current[0].slug,
+    content: changes.content ?? current[0].content,
+    is_public: changes.is_public ?? current[0].is_public,
+    show_in_nav: changes.show_in_nav ?? current[0].show_in_nav,
+    nav_label: changes.nav_label !== undefined ? changes.nav_label : current[0].nav_label,
+    nav_order: changes.nav_order ?? current[0].nav_order,
+  }
+  if (page.slug !== current[0].slug) {
+    const conflict = await pageSlugConflict(page.slug, id)
+    if (conflict) return c.json(conflict, 409)
   }
 
   const result = await sql`
-    UPDATE journal.entries
-    SET title = ${title},
-        content = ${content},
-        is_public = COALESCE(${is_public ?? null}, is_public),
-        slug = COALESCE(${finalSlug !== undefined ? finalSlug : null}, slug),
-        excerpt = ${excerpt !== undefined ? excerpt : current[0]?.excerpt ?? null},
-        published_at = COALESCE(${publishedAt !== undefined ? publishedAt : null}, published_at)
-    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
-    RETURNING id, title, content, is_public, user_id, slug, excerpt, published_at, created_at, updated_at
+    UPDATE journal.pages
+    SET title = ${page.title},
+        slug = ${page.slug},
+        content = ${page.content},
+        is_public = ${page.is_public},
+        show_in_nav = ${page.show_in_nav},
+        nav_label = ${page.nav_label || null},
+        nav_order = ${page.nav_order}
+    WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL) ${unchangedSince(checkedVersion)}
+    RETURNING ${PAGE_COLUMNS}
   `
 
   if (result.length === 0) {
-    return c.json({ error: 'Entry not found' }, 404)
+    const latest = await sql`
+      SELECT ${PAGE_COLUMNS} FROM journal.pages
+      WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
+    `
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Page not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Page has changed since it was loaded'), page: latest[0] }, 412)
   }
 
-  return c.json({ entry: result[0] })
+  c.header('ETag', etagFor(result[0].updated_at))
+  return c.json({ page: result[0] })
 })
 
-app.delete('/api/journal/:id', requireAuth, async (c) => {
+app.delete('/api/pages/:id', requireAuth, async (c) => {
   const id = parseInt(c.req.param('id'))
   const userId = c.get('user')!.id
 
   const result = await sql`
-    DELETE FROM journal.entries
+    DELETE FROM journal.pages
     WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)
     RETURNING id
   `
 
   if (result.length === 0) {
-    return c.json({ error: 'Entry not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Page not found'), 404)
   }
 
   return c.json({ success: true })
 })
 
+// ─── Media uploads — stored once per content hash on the media volume ──────
+
+const MEDIA_DIR = process.env.MEDIA_DIR || './media'
+
+type StoredAsset = MediaImageRow & { size_bytes: number; sha256: string; created_at: Date }
+
+app.post('/api/media', requireAuth, async (c) => {
+  const userId = c.get('user')!.id
+
+  let form: Record<string, string | File | (string | File)[]>
+  try { form = await c.req.parseBody() } catch { return c.json(apiError('VALIDATION', 'Expected multipart/form-data body'), 400) }
+
+  const file = form.file
+  if (!(file instanceof File)) {
+    return c.json(fieldError('file', 'a file upload is required'), 400)
+  }
+  if (file.size === 0) {
+    return c.json(fieldError('file', 'upload is empty'), 400)
+  }
+  if (file.size > MEDIA_MAX_BYTES) {
+    return c.json(fieldError('file', `must be at most ${MEDIA_MAX_BYTES / (1024 * 1024)} MB`), 413)
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const mimeType = sniffMimeType(bytes)
+  if (!mimeType) {
+    return c.json(apiError('VALIDATION', 'Unsupported file type (PNG, JPEG, GIF, WebP, or PDF)'), 415)
+  }
+  const sha256 = createHash('sha256').update(bytes).digest('hex')
+
+  // Same owner, same bytes: hand back the existing asset
+  const existing = await sql<StoredAsset[]>`
+    SELECT id, filename, mime_type, size_bytes, sha256, width, height, variants, created_at
+    FROM media.assets
+    WHERE user_id = ${userId} AND sha256 = ${sha256}
+  `
+  if (existing.length > 0) {
+    return c.json({ asset: { ...existing[0], url: mediaUrl(existing[0]) } })
+  }
+
+  const path = storagePath(MEDIA_DIR, sha256)
+  if (!await Bun.file(path).exists()) {
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, bytes)
+  }
+
+  // A failed resize still keeps the upload; it's just served without a srcset
+  let image: ImageInfo = { width: null, height: null, variants: [] }
+  if (mimeType.startsWith('image/')) {
+    try {
+      image = await processImage(bytes, mimeType, MEDIA_DIR, sha256)
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`Image variants failed for ${sha256}: ${msg}`)
+    }
+  }
+
+  const result = await sql<StoredAsset[]>`
+    INSERT INTO media.assets (user_id, filename, mime_type, size_bytes, sha256, width, height, variants)
+    VALUES (
+      ${userId}, ${sanitizeFilename(file.name, mimeType)}, ${mimeType}, ${file.size}, ${sha256},
+      ${image.width}, ${image.height}, ${JSON.stringify(image.variants)}
+    )
+    ON CONFLICT (user_id, sha256) DO UPDATE SET sha256 = EXCLUDED.sha256
+    RETURNING id, filename, mime_type, size_bytes, sha256, width, height, variants, created_at
+  `
+
+  return c.json({ asset: { ...result[0], url: mediaUrl(result[0]) } }, 201)
+})
+
+// Public: resized copies for srcset, rebuilt from the original if the cache was cleared
+app.get('/media/:id/w/:variant', async (c) => {
+  const id = parseInt(c.req.param('id'))
+  const variant = parseVariantName(c.req.param('variant'))
+  if (!variant) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+
+  const assets = await sql`
+    SELECT sha256, variants, user_id FROM media.assets WHERE id = ${id}
+  `
+  const known = assets.length > 0 && (assets[0].variants as MediaImageRow['variants'])
+    .some((v) => v.width === variant.width && v.format === variant.format)
+  if (!known) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+  const cacheControl = await mediaCacheControl(id, assets[0].user_id, c.get('user')?.id ?? null)
+  if (!cacheControl) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+
+  const path = variantPath(MEDIA_DIR, assets[0].sha256, variant)
+  if (!await Bun.file(path).exists()) {
+    try {
+      await writeVariant(storagePath(MEDIA_DIR, assets[0].sha256), path, variant)
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`Failed to rebuild image variant ${path}: ${msg}`)
+      return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+    }
+  }
+
+  return new Response(Bun.file(path), {
+    headers: {
+      'Content-Type': VARIANT_TYPES[variant.format],
+      'Cache-Control': cacheControl,
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+})
+
+// Public: media is embedded in published posts
+// Ids are sequential, so the URL can't be what keeps a draft's images
+// private. An upload is served to its owner, and to anyone once a live post
+// or a published page embeds it; a draft with an open share link shows its
+// images to whoever has the link. Returns the Cache-Control to serve it
+// with, or null when it isn't visible: only embedded-and-live uploads may
+// sit in shared caches.
+async function mediaCacheControl(assetId: number, ownerId: string | null, userId: string | null): Promise<string | null> {
+  const embeds = `%/media/${assetId}/%`
+  const [visibility] = await sql`
+    SELECT
+      EXISTS (
+        SELECT 1 FROM journal.entries
+        WHERE content LIKE ${embeds} AND is_public = true AND deleted_at IS NULL
+          AND published_at IS NOT NULL AND published_at <= NOW()
+      ) OR EXISTS (
+        SELECT 1 FROM journal.pages WHERE content LIKE ${embeds} AND is_public = true
+      ) AS live,
+      EXISTS (
+        SELECT 1 FROM journal.entries e JOIN journal.share_links s ON s.entry_id = e.id
+        WHERE e.content LIKE ${embeds} AND e.deleted_at IS NULL
+          AND s.revoked_at IS NULL AND s.expires_at > NOW()
+      ) AS shared
+  `
+  if (visibility.live) return 'public, max-age=31536000, immutable'
+  if ((userId && userId === ownerId) || visibility.shared) return 'private, max-age=3600'
+  return null
+}
+
+app.get('/media/:id/:filename', async (c) => {
+  const id = parseInt(c.req.param('id'))
+
+  const assets = await sql`
+    SELECT filename, mime_type, sha256, user_id FROM media.assets WHERE id = ${id}
+  `
+  if (assets.length === 0 || assets[0].filename !== c.req.param('filename')) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+  const cacheControl = await mediaCacheControl(id, assets[0].user_id, c.get('user')?.id ?? null)
+  if (!cacheControl) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+
+  const file = Bun.file(storagePath(MEDIA_DIR, assets[0].sha256))
+  if (!await file.exists()) {
+    return c.json(apiError('NOT_FOUND', 'Media not found'), 404)
+  }
+
+  return new Response(file, {
+    headers: {
+      'Content-Type': assets[0].mime_type,
+      // Content-addressed, so the bytes behind an id never change
+      'Cache-Control': cacheControl,
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+})
+
 // ─── Protected: Project Planning endpoints ──────────────────────────────────
 
 // Generate steps for a project using Claude
 app.post('/api/projects/generate-steps', requireAuth, async (c) => {
   const client = getAnthropicClient()
   if (!client) {
-    return c.json({ error: 'ANTHROPIC_API_KEY not configured' }, 503)
+    return c.json(apiError('UPSTREAM_LLM', 'ANTHROPIC_API_KEY not configured'), 503)
   }
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(GenerateStepsSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
   const { title, description } = parsed.data
 
   const prompt = `You are a decisive, opinionated project planner. Someone wants to accomplish a goal and you need to build them a SPECIFIC, CONCRETE plan — not a vague roadmap.
@@ -473,7 +2270,7 @@ No markdown wrapping, no explanation outside the JSON. Just the array.`
     const jsonMatch = text.match(/\[[\s\S]*\]/)
     if (!jsonMatch) {
       console.error('LLM response did not contain a JSON array')
-      return c.json({ error: 'Failed to parse LLM response' }, 502)
+      return c.json(apiError('UPSTREAM_LLM', 'Failed to parse LLM response'), 502)
     }
 
     let steps: unknown
@@ -481,13 +2278,13 @@ No markdown wrapping, no explanation outside the JSON. Just the array.`
       steps = JSON.parse(jsonMatch[0])
     } catch {
       console.error('LLM response contained invalid JSON')
-      return c.json({ error: 'LLM returned invalid JSON' }, 502)
+      return c.json(apiError('UPSTREAM_LLM', 'LLM returned invalid JSON'), 502)
     }
 
     // Validate response shape
     if (!Array.isArray(steps) || !steps.every((s: any) => typeof s.title === 'string' && typeof s.description === 'string')) {
       console.error('LLM response has invalid shape — missing title or description')
-      return c.json({ error: 'LLM returned invalid step format' }, 502)
+      return c.json(apiError('UPSTREAM_LLM', 'LLM returned invalid step format'), 502)
     }
 
     return c.json({ steps })
@@ -495,19 +2292,19 @@ No markdown wrapping, no explanation outside the JSON. Just the array.`
     // Abort → 504 Gateway Timeout
     if (err instanceof DOMException && err.name === 'AbortError') {
       console.error('LLM request timed out after 30s')
-      return c.json({ error: 'LLM request timed out' }, 504)
+      return c.json(apiError('UPSTREAM_LLM', 'LLM request timed out'), 504)
     }
 
     // Anthropic API errors — forward their status code
     if (err instanceof Anthropic.APIError) {
       console.error(`Anthropic API error: ${err.status} ${err.message}`)
       const status = err.status >= 400 && err.status < 600 ? err.status : 502
-      return c.json({ error: `LLM request failed: ${err.message}` }, status as any)
+      return c.json(apiError('UPSTREAM_LLM', `LLM request failed: ${err.message}`), status as any)
     }
 
     const msg = err instanceof Error ? err.message : 'Unknown error'
     console.error(`LLM request failed: ${msg}`)
-    return c.json({ error: `LLM request failed: ${msg}` }, 500)
+    return c.json(apiError('UPSTREAM_LLM', `LLM request failed: ${msg}`), 500)
   }
 })
 
@@ -536,6 +2333,7 @@ app.get('/api/projects', requireAuth, async (c) => {
           CASE p.status WHEN 'active' THEN 0 WHEN 'paused' THEN 1 WHEN 'completed' THEN 2 ELSE 3 END,
           p.updated_at DESC`
 
+  c.header('ETag', listEtag({ projects }))
   return c.json({ projects })
 })
 
@@ -550,7 +2348,7 @@ app.get('/api/projects/:id', requireAuth, async (c) => {
       AND (user_id = ${userId} OR user_id IS NULL)
   `
   if (projects.length === 0) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
   }
 
   const steps = await sql`
@@ -559,6 +2357,9 @@ app.get('/api/projects/:id', requireAuth, async (c) => {
     ORDER BY sort_order ASC, id ASC
   `
 
+  // This is the project's ETag. Steps have no GET of their own: a step's
+  // version is the updated_at in its row here, sent back as If-Match on a step PUT.
+  c.header('ETag', etagFor(projects[0].updated_at))
   return c.json({ project: projects[0], steps })
 })
 
@@ -603,10 +2404,10 @@ async function insertStepsTree(
 // Create project
 app.post('/api/projects', requireAuth, async (c) => {
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(CreateProjectSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
   const { title, description, meta, steps } = parsed.data
   const userId = c.get('user')!.id
 
@@ -632,12 +2433,26 @@ app.put('/api/projects/:id', requireAuth, async (c) => {
   const userId = c.get('user')!.id
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(UpdateProjectSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
   const { title, description, status, meta } = parsed.data
 
+  const loadProject = () => sql`
+    SELECT * FROM projects.projects
+    WHERE id = ${id} AND deleted_at IS NULL
+      AND (user_id = ${userId} OR user_id IS NULL)
+  `
+  const current = await loadProject()
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
+  }
+  const ifMatch = c.req.header('If-Match')
+  if (!ifMatchSatisfied(ifMatch, current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Project has changed since it was loaded'), project: current[0] }, 412)
+  }
+
   // Since postgres lib doesn't have a clean dynamic SET, build per-field
   const result = await sql`
     UPDATE projects.projects SET
@@ -647,13 +2462,17 @@ app.put('/api/projects/:id', requireAuth, async (c) => {
       meta = COALESCE(${meta ? JSON.stringify(meta) : null}::jsonb, meta)
     WHERE id = ${id} AND deleted_at IS NULL
       AND (user_id = ${userId} OR user_id IS NULL)
+      ${unchangedSince(ifMatch ? current[0].updated_at : null)}
     RETURNING *
   `
 
   if (result.length === 0) {
-    return c.json({ error: 'Project not found' }, 404)
+    const latest = await loadProject()
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Project has changed since it was loaded'), project: latest[0] }, 412)
   }
 
+  c.header('ETag', etagFor(result[0].updated_at))
   return c.json({ project: result[0] })
 })
 
@@ -669,7 +2488,7 @@ app.delete('/api/projects/:id', requireAuth, async (c) => {
     RETURNING id
   `
   if (result.length === 0) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
   }
 
   // Soft-delete all steps belonging to this project
@@ -699,14 +2518,14 @@ app.post('/api/projects/:id/steps', requireAuth, async (c) => {
   const userId = c.get('user')!.id
 
   if (!await verifyProjectOwnership(projectId, userId)) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
   }
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(AddStepsSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
 
   // Accept single step or array
   const stepsInput = Array.isArray(parsed.data) ? parsed.data : [parsed.data]
@@ -747,18 +2566,33 @@ app.put('/api/projects/:id/steps/:stepId', requireAuth, async (c) => {
   const userId = c.get('user')!.id
 
   if (!await verifyProjectOwnership(projectId, userId)) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
   }
 
   const stepId = parseInt(c.req.param('stepId'))
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(UpdateStepSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
   const { title, description, status, sort_order, parent_id, meta } = parsed.data
 
+  const loadStep = () => sql`
+    SELECT * FROM projects.steps
+    WHERE id = ${stepId} AND project_id = ${projectId} AND deleted_at IS NULL
+  `
+  const current = await loadStep()
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Step not found'), 404)
+  }
+  // The step's own version (its updated_at), not the project's
+  const ifMatch = c.req.header('If-Match')
+  if (!ifMatchSatisfied(ifMatch, current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Step has changed since it was loaded'), step: current[0] }, 412)
+  }
+  const checkedVersion = ifMatch ? current[0].updated_at : null
+
   // parent_id needs special handling: explicit null means "make root-level"
   const hasParentId = 'parent_id' in parsed.data
   const result = hasParentId
@@ -770,7 +2604,8 @@ app.put('/api/projects/:id/steps/:stepId', requireAuth, async (c) => {
           sort_order = COALESCE(${sort_order ?? null}, sort_order),
           parent_id = ${parent_id ?? null},
           meta = COALESCE(${meta ? JSON.stringify(meta) : null}::jsonb, meta)
-        WHERE id = ${stepId} AND deleted_at IS NULL
+        WHERE id = ${stepId} AND project_id = ${projectId} AND deleted_at IS NULL
+          ${unchangedSince(checkedVersion)}
         RETURNING *
       `
     : await sql`
@@ -780,14 +2615,18 @@ app.put('/api/projects/:id/steps/:stepId', requireAuth, async (c) => {
           status = COALESCE(${status ?? null}, status),
           sort_order = COALESCE(${sort_order ?? null}, sort_order),
           meta = COALESCE(${meta ? JSON.stringify(meta) : null}::jsonb, meta)
-        WHERE id = ${stepId} AND deleted_at IS NULL
+        WHERE id = ${stepId} AND project_id = ${projectId} AND deleted_at IS NULL
+          ${unchangedSince(checkedVersion)}
         RETURNING *
       `
 
   if (result.length === 0) {
-    return c.json({ error: 'Step not found' }, 404)
+    const latest = await loadStep()
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Step not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Step has changed since it was loaded'), step: latest[0] }, 412)
   }
 
+  c.header('ETag', etagFor(result[0].updated_at))
   return c.json({ step: result[0] })
 })
 
@@ -797,7 +2636,7 @@ app.delete('/api/projects/:id/steps/:stepId', requireAuth, async (c) => {
   const userId = c.get('user')!.id
 
   if (!await verifyProjectOwnership(projectId, userId)) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
   }
 
   const stepId = parseInt(c.req.param('stepId'))
@@ -814,38 +2653,110 @@ app.delete('/api/projects/:id/steps/:stepId', requireAuth, async (c) => {
     RETURNING id
   `
   if (result.length === 0) {
-    return c.json({ error: 'Step not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Step not found'), 404)
   }
   return c.json({ success: true })
 })
 
 // Reorder steps — accepts array of { id, sort_order }
+// The order belongs to the project: If-Match is the project's ETag, and a
+// reorder moves the project's updated_at on so a concurrent one gets a 412
 app.put('/api/projects/:id/steps', requireAuth, async (c) => {
   const projectId = parseInt(c.req.param('id'))
   const userId = c.get('user')!.id
 
   if (!await verifyProjectOwnership(projectId, userId)) {
-    return c.json({ error: 'Project not found' }, 404)
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
+  }
+
+  const loadProject = () => sql`
+    SELECT * FROM projects.projects WHERE id = ${projectId} AND deleted_at IS NULL
+  `
+  const current = await loadProject()
+  if (current.length === 0) {
+    return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
+  }
+  const ifMatch = c.req.header('If-Match')
+  if (!ifMatchSatisfied(ifMatch, current[0].updated_at)) {
+    return c.json({ ...apiError('CONFLICT', 'Project has changed since it was loaded'), project: current[0] }, 412)
   }
 
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(ReorderStepsSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
   const updates = parsed.data
 
-  await sql.begin(async (tx) => {
+  const result = await sql.begin(async (tx) => {
+    const [project] = await tx`
+      UPDATE projects.projects SET updated_at = NOW()
+      WHERE id = ${projectId} AND deleted_at IS NULL
+        ${unchangedSince(ifMatch ? current[0].updated_at : null)}
+      RETURNING updated_at
+    `
+    if (!project) return []
     for (const u of updates) {
       await tx`
-        UPDATE projects.steps SET sort_order = ${u.sort_order} WHERE id = ${u.id}
+        UPDATE projects.steps SET sort_order = ${u.sort_order}
+        WHERE id = ${u.id} AND project_id = ${projectId}
       `
     }
+    return [project]
   })
 
+  if (result.length === 0) {
+    const latest = await loadProject()
+    if (latest.length === 0) return c.json(apiError('NOT_FOUND', 'Project not found'), 404)
+    return c.json({ ...apiError('CONFLICT', 'Project has changed since it was loaded'), project: latest[0] }, 412)
+  }
+
+  c.header('ETag', etagFor(result[0].updated_at))
   return c.json({ success: true })
 })
 
+// ─── Scheduled publishing — emits an event when a post goes live ───────────
+
+export const publishScheduler = createPublishScheduler(async () => {
+  const posts = await sql`
+    WITH due AS (
+      INSERT INTO journal.post_announcements (entry_id)
+        SELECT id FROM journal.entries
+        WHERE is_public = true AND slug IS NOT NULL
+          AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL
+      ON CONFLICT (entry_id) DO NOTHING
+      RETURNING entry_id
+    )
+    SELECT e.id, e.slug, e.title, e.published_at
+    FROM journal.entries e JOIN due ON due.entry_id = e.id
+  `
+  return posts as unknown as LivePost[]
+})
+
+publishScheduler.onPostLive((post) => sendEntryWebmentions(post.id))
+
+publishScheduler.start()
+
+// ─── Trash purge — hard-deletes entries trashed past the retention window ───
+
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+async function purgeTrash() {
+  try {
+    await sql`
+      DELETE FROM journal.entries
+      WHERE deleted_at IS NOT NULL
+        AND deleted_at < NOW() - make_interval(days => ${TRASH_RETENTION_DAYS})
+    `
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`Trash purge failed: ${msg}`)
+  }
+}
+
+setInterval(purgeTrash, TRASH_PURGE_INTERVAL_MS)
+void purgeTrash()
+
 const port = process.env.PORT || 3001
 console.log(`API running on port ${port}`)
 
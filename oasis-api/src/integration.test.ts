@@ -24,9 +24,10 @@ describe('Validation + ownership combined', () => {
   test('all POST/PUT handlers use try/catch for JSON parsing', () => {
     const jsonCatches = indexSrc.match(/try \{ body = await c\.req\.json\(\) \} catch/g)
     expect(jsonCatches).not.toBeNull()
-    // 8 POST/PUT endpoints: journal create/update, project create/update,
-    // steps add, step update, steps reorder, generate-steps
-    expect(jsonCatches!.length).toBe(8)
+    // 15 POST/PUT endpoints: journal create/update, project create/update,
+    // steps add, step update, steps reorder, generate-steps, series create/update,
+    // share link create, draft preview, page create/update, webmention moderation
+    expect(jsonCatches!.length).toBe(15)
   })
 })
 
@@ -42,6 +43,14 @@ describe('Schema completeness', () => {
       'UpdateStepSchema',
       'ReorderStepsSchema',
       'GenerateStepsSchema',
+      'CreateSeriesSchema',
+      'UpdateSeriesSchema',
+      'CreateShareLinkSchema',
+      'PreviewJournalSchema',
+      'CreatePageSchema',
+      'UpdatePageSchema',
+      'ModerateWebmentionSchema',
+      'ReceiveWebmentionSchema',
     ]
 
     for (const schema of expectedSchemas) {
@@ -54,8 +63,8 @@ describe('Migration ordering', () => {
   const migrationsDir = resolve(__dirname, '../../scripts/db/init')
   const files = readdirSync(migrationsDir).filter((f) => f.endsWith('.sql')).sort()
 
-  test('migrations are sequentially numbered 01-07', () => {
-    expect(files.length).toBe(7)
+  test('migrations are sequentially numbered', () => {
+    expect(files.length).toBe(21)
     expect(files[0]).toMatch(/^01-/)
     expect(files[1]).toMatch(/^02-/)
     expect(files[2]).toMatch(/^03-/)
@@ -63,6 +72,20 @@ describe('Migration ordering', () => {
     expect(files[4]).toMatch(/^05-/)
     expect(files[5]).toMatch(/^06-/)
     expect(files[6]).toMatch(/^07-/)
+    expect(files[7]).toMatch(/^08-/)
+    expect(files[8]).toMatch(/^09-/)
+    expect(files[9]).toMatch(/^10-/)
+    expect(files[10]).toMatch(/^11-/)
+    expect(files[11]).toMatch(/^12-/)
+    expect(files[12]).toMatch(/^13-/)
+    expect(files[13]).toMatch(/^14-/)
+    expect(files[14]).toMatch(/^15-/)
+    expect(files[15]).toMatch(/^16-/)
+    expect(files[16]).toMatch(/^17-/)
+    expect(files[17]).toMatch(/^18-/)
+    expect(files[18]).toMatch(/^19-/)
+    expect(files[19]).toMatch(/^20-/)
+    expect(files[20]).toMatch(/^21-/)
   })
 
   test('06-ownership.sql exists', () => {
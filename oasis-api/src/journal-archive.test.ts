@@ -0,0 +1,167 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { zipSync, strToU8 } from 'fflate'
+import {
+  serializeEntry,
+  parseMarkdownFile,
+  entryFilename,
+  createZipStream,
+  readArchive,
+  isUnchanged,
+  type ArchiveEntry,
+  type ArchiveFile,
+} from './journal-archive'
+import { ImportEntrySchema } from './schemas'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+const entry: ArchiveEntry = {
+  id: 7,
+  title: 'Notes: on gardens',
+  content: '# Heading\n\nSome *markdown*.\n\n---\n\nAfter a rule.',
+  slug: 'notes-on-gardens',
+  excerpt: null,
+  is_public: true,
+  published_at: new Date('2025-03-01T09:30:00Z'),
+  created_at: '2025-02-28T18:00:00.000Z',
+  tags: ['garden', 'notes'],
+}
+
+async function* filesOf(files: ArchiveFile[]) {
+  yield* files
+}
+
+describe('markdown files', () => {
+  test('front matter carries the entry metadata', () => {
+    const text = serializeEntry(entry)
+    expect(text.startsWith('---\n')).toBe(true)
+    expect(text).toContain('title: "Notes: on gardens"')
+    expect(text).toContain('slug: notes-on-gardens')
+    expect(text).toContain('published_at: 2025-03-01T09:30:00.000Z')
+    expect(text).toContain('created_at: 2025-02-28T18:00:00.000Z')
+  })
+
+  test('round-trip through parse and the import schema', () => {
+    const doc = parseMarkdownFile(serializeEntry(entry))
+    expect(doc).not.toBeNull()
+    expect(doc!.content).toBe(entry.content)
+
+    const parsed = ImportEntrySchema.parse({ ...doc!.data, content: doc!.content })
+    expect(parsed.id).toBe(7)
+    expect(parsed.title).toBe(entry.title)
+    expect(parsed.excerpt).toBeNull()
+    expect(parsed.published_at?.toISOString()).toBe('2025-03-01T09:30:00.000Z')
+    expect(parsed.tags).toEqual(['garden', 'notes'])
+    expect(isUnchanged(entry, parsed)).toBe(true)
+  })
+
+  test('accepts hand-written files', () => {
+    const doc = parseMarkdownFile('---\r\ntitle: Draft\r\npublished_at: 2024-01-05\r\n---\r\nBody')
+    expect(doc).toEqual({ data: { title: 'Draft', published_at: '2024-01-05' }, content: 'Body' })
+    expect(ImportEntrySchema.safeParse({ ...doc!.data, content: doc!.content }).success).toBe(true)
+  })
+
+  test('rejects files without a front matter mapping', () => {
+    expect(parseMarkdownFile('# Just markdown')).toBeNull()
+    expect(parseMarkdownFile('---\n- a\n- b\n---\nBody')).toBeNull()
+    expect(parseMarkdownFile('---\ntitle: [unclosed\n---\nBody')).toBeNull()
+  })
+
+  test('a "---" inside a front matter value does not end the block', () => {
+    const doc = parseMarkdownFile('---\ntitle: before---after\n---\nBody')
+    expect(doc?.data.title).toBe('before---after')
+  })
+})
+
+describe('entryFilename()', () => {
+  test('uses the slug, then the title, then the id', () => {
+    const taken = new Set<string>()
+    expect(entryFilename({ id: 1, slug: 'hello', title: 'Hi' }, taken)).toBe('hello.md')
+    expect(entryFilename({ id: 2, slug: null, title: 'Second Post' }, taken)).toBe('second-post.md')
+    expect(entryFilename({ id: 3, slug: null, title: '日記' }, taken)).toBe('entry-3.md')
+  })
+
+  test('never repeats a name within an archive', () => {
+    const taken = new Set<string>()
+    expect(entryFilename({ id: 1, slug: null, title: 'Untitled' }, taken)).toBe('untitled.md')
+    expect(entryFilename({ id: 2, slug: null, title: 'Untitled' }, taken)).toBe('untitled-2.md')
+  })
+})
+
+describe('zip archives', () => {
+  test('a streamed export reads back file for file', async () => {
+    const files = [
+      { name: 'one.md', content: serializeEntry(entry) },
+      { name: 'two.md', content: '---\ntitle: Two\n---\n\nSecond' },
+    ]
+    const bytes = new Uint8Array(await new Response(createZipStream(filesOf(files))).arrayBuffer())
+    expect(readArchive(bytes)).toEqual(files)
+  })
+
+  test('only markdown files are read', () => {
+    const bytes = zipSync({
+      'posts/a.md': strToU8('---\ntitle: A\n---\nA'),
+      'posts/image.png': strToU8('not markdown'),
+      '__MACOSX/posts/._a.md': strToU8('resource fork'),
+    })
+    expect(readArchive(bytes).map((f) => f.name)).toEqual(['posts/a.md'])
+  })
+
+  test('anything that is not a zip throws', () => {
+    expect(() => readArchive(strToU8('plain text'))).toThrow()
+  })
+})
+
+describe('isUnchanged()', () => {
+  const parsed = (overrides: Record<string, unknown>) =>
+    ImportEntrySchema.parse({ title: entry.title, content: entry.content, ...overrides })
+
+  test('fields missing from the file are not compared', () => {
+    expect(isUnchanged(entry, parsed({}))).toBe(true)
+  })
+
+  test('notices edits to content and metadata', () => {
+    expect(isUnchanged(entry, parsed({ content: 'Edited' }))).toBe(false)
+    expect(isUnchanged(entry, parsed({ is_public: false }))).toBe(false)
+    expect(isUnchanged(entry, parsed({ tags: ['garden'] }))).toBe(false)
+    expect(isUnchanged(entry, parsed({ published_at: null }))).toBe(false)
+  })
+})
+
+describe('archive endpoints', () => {
+  test('export streams a zip of the user\'s live entries', () => {
+    const route = section("app.get('/api/journal/export', requireAuth")
+    expect(route).toContain("'Content-Type': 'application/zip'")
+    expect(route).toContain('attachment; filename="journal-')
+
+    const files = indexSrc.slice(indexSrc.indexOf('async function* journalArchiveFiles'))
+    expect(files).toContain('(user_id = ${userId} OR user_id IS NULL) AND deleted_at IS NULL')
+    expect(files).toContain('.cursor(100)')
+  })
+
+  test('import validates each file and reports per-file outcomes', () => {
+    const route = section("app.post('/api/journal/import', requireAuth")
+    expect(route).toContain('ARCHIVE_MAX_BYTES')
+    expect(route).toContain('parseBody(ImportEntrySchema')
+    expect(route).toContain('report.conflicts.push')
+    expect(route).toContain('report.errors.push')
+  })
+
+  test('updates snapshot a revision first', () => {
+    const apply = indexSrc.slice(indexSrc.indexOf('async function applyImport'), indexSrc.indexOf("app.post('/api/journal/import'"))
+    expect(apply.indexOf('insertRevision(')).toBeGreaterThan(-1)
+    expect(apply.indexOf('insertRevision(')).toBeLessThan(apply.indexOf('UPDATE journal.entries'))
+  })
+
+  test('are defined before /api/journal/:id', () => {
+    const journalById = indexSrc.indexOf("app.get('/api/journal/:id'")
+    expect(indexSrc.indexOf("app.get('/api/journal/export'")).toBeLessThan(journalById)
+  })
+})
@@ -0,0 +1,141 @@
+import { Zip, ZipDeflate, strFromU8, strToU8, unzipSync } from 'fflate'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { slugify, uniqueSlug, type ImportEntry } from './schemas'
+
+/**
+ * Journal archives: a zip with one markdown file per entry, metadata in YAML
+ * front matter. Exports round-trip through import, so the archive can live
+ * in git and be edited by hand.
+ */
+
+export const ARCHIVE_MAX_BYTES = 50 * 1024 * 1024
+export const ARCHIVE_MAX_FILES = 5000
+// Per file, uncompressed — guards against zip bombs
+export const ARCHIVE_MAX_FILE_BYTES = 5 * 1024 * 1024
+
+export interface ArchiveEntry {
+  id: number
+  title: string
+  content: string
+  slug: string | null
+  excerpt: string | null
+  is_public: boolean
+  published_at: Date | string | null
+  created_at: Date | string
+  updated_at?: Date | string
+  tags: string[]
+}
+
+export interface ArchiveFile {
+  name: string
+  content: string
+  mtime?: Date
+}
+
+const toIso = (value: Date | string | null) => (value === null ? null : new Date(value).toISOString())
+
+export function serializeEntry(entry: ArchiveEntry): string {
+  const frontMatter = stringifyYaml({
+    id: entry.id,
+    title: entry.title,
+    slug: entry.slug,
+    excerpt: entry.excerpt,
+    is_public: entry.is_public,
+    published_at: toIso(entry.published_at),
+    created_at: toIso(entry.created_at),
+    tags: entry.tags,
+  })
+  return `---\n${frontMatter}---\n\n${entry.content}\n`
+}
+
+/**
+ * Split a markdown file into its front matter and body. Returns null when
+ * the file has no front matter block or it isn't a YAML mapping.
+ */
+export function parseMarkdownFile(text: string): { data: Record<string, unknown>; content: string } | null {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)([\s\S]*)$/)
+  if (!match) return null
+
+  let data: unknown
+  try { data = parseYaml(match[1] ?? '') } catch { return null }
+  // An empty block parses to null
+  if (data === null) data = {}
+  if (typeof data !== 'object' || Array.isArray(data)) return null
+
+  // Undo the blank line after the front matter and the trailing newline
+  const content = match[2].replace(/^\r?\n/, '').replace(/\r?\n$/, '')
+  return { data: data as Record<string, unknown>, content }
+}
+
+/** `<slug>.md`, falling back to the title, unique within the archive. */
+export function entryFilename(entry: Pick<ArchiveEntry, 'id' | 'slug' | 'title'>, taken: Set<string>): string {
+  const base = entry.slug || slugify(entry.title) || `entry-${entry.id}`
+  const name = uniqueSlug(base, taken)
+  taken.add(name)
+  return `${name}.md`
+}
+
+/** Zip the files as they arrive, so large journals never sit in memory whole. */
+export function createZipStream(files: AsyncIterable<ArchiveFile>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      const zip = new Zip((err, chunk, final) => {
+        if (err) return controller.error(err)
+        controller.enqueue(chunk)
+        if (final) controller.close()
+      })
+      try {
+        for await (const file of files) {
+          const entry = new ZipDeflate(file.name, { level: 6 })
+          if (file.mtime) entry.mtime = file.mtime
+          zip.add(entry)
+          entry.push(strToU8(file.content), true)
+        }
+        zip.end()
+      } catch (err) {
+        zip.terminate()
+        controller.error(err)
+      }
+    },
+  })
+}
+
+/**
+ * The markdown files in an uploaded zip, in archive order. Directories,
+ * other file types, and macOS resource forks are ignored. Throws if the
+ * bytes aren't a zip or the archive exceeds the limits.
+ */
+export function readArchive(bytes: Uint8Array, extensions = ['.md']): ArchiveFile[] {
+  let count = 0
+  const unzipped = unzipSync(bytes, {
+    filter: (file) => {
+      if (!extensions.some((ext) => file.name.toLowerCase().endsWith(ext))) return false
+      if (file.name.startsWith('__MACOSX/') || file.name.split('/').pop()!.startsWith('._')) return false
+      if (file.originalSize > ARCHIVE_MAX_FILE_BYTES) {
+        throw new Error(`${file.name} is larger than ${ARCHIVE_MAX_FILE_BYTES / (1024 * 1024)} MB`)
+      }
+      if (++count > ARCHIVE_MAX_FILES) {
+        throw new Error(`Archive has more than ${ARCHIVE_MAX_FILES} markdown files`)
+      }
+      return true
+    },
+  })
+  return Object.entries(unzipped).map(([name, data]) => ({ name, content: strFromU8(data) }))
+}
+
+/** Whether importing the entry would leave the stored one as it is. */
+export function isUnchanged(
+  current: Pick<ArchiveEntry, 'title' | 'content' | 'slug' | 'excerpt' | 'is_public' | 'published_at' | 'tags'>,
+  entry: ImportEntry,
+): boolean {
+  const sameTime = (a: Date | string | null, b: Date | string | null) =>
+    (a === null || b === null) ? a === b : new Date(a).getTime() === new Date(b).getTime()
+
+  return current.title === entry.title
+    && current.content === entry.content
+    && (entry.excerpt === undefined || current.excerpt === entry.excerpt)
+    && (entry.is_public === undefined || current.is_public === entry.is_public)
+    && (!entry.slug || current.slug === entry.slug)
+    && (entry.published_at === undefined || sameTime(current.published_at, entry.published_at))
+    && (entry.tags === undefined || [...new Set(entry.tags)].sort().join('\n') === [...current.tags].sort().join('\n'))
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { sniffMimeType, sanitizeFilename, storagePath, mediaUrl, MEDIA_TYPES } from './media'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+const bytes = (...values: number[]) => new Uint8Array([...values, 0, 0, 0, 0])
+
+describe('sniffMimeType()', () => {
+  test('recognises each accepted type from its signature', () => {
+    expect(sniffMimeType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))).toBe('image/png')
+    expect(sniffMimeType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg')
+    expect(sniffMimeType(new TextEncoder().encode('GIF89a'))).toBe('image/gif')
+    expect(sniffMimeType(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp')
+    expect(sniffMimeType(new TextEncoder().encode('%PDF-1.7'))).toBe('application/pdf')
+  })
+
+  test('rejects anything else, including SVG and RIFF audio', () => {
+    expect(sniffMimeType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull()
+    expect(sniffMimeType(new TextEncoder().encode('RIFF\0\0\0\0WAVEfmt '))).toBeNull()
+    expect(sniffMimeType(new Uint8Array())).toBeNull()
+  })
+
+  test('every sniffed type has an extension', () => {
+    for (const type of ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']) {
+      expect(MEDIA_TYPES[type]).toBeDefined()
+    }
+  })
+})
+
+describe('sanitizeFilename()', () => {
+  test('slugifies the name and uses the detected extension', () => {
+    expect(sanitizeFilename('My Photo (1).JPEG', 'image/jpeg')).toBe('my-photo-1.jpg')
+    expect(sanitizeFilename('diagram.txt', 'image/png')).toBe('diagram.png')
+  })
+
+  test('strips path-like characters', () => {
+    expect(sanitizeFilename('../../etc/passwd.pdf', 'application/pdf')).toBe('etc-passwd.pdf')
+  })
+
+  test('falls back to "file" when nothing usable is left', () => {
+    expect(sanitizeFilename('日本.png', 'image/png')).toBe('file.png')
+  })
+
+  test('caps the length', () => {
+    expect(sanitizeFilename(`${'a'.repeat(300)}.gif`, 'image/gif').length).toBe(104)
+  })
+})
+
+describe('storagePath() and mediaUrl()', () => {
+  const hash = 'ab'.padEnd(64, '0')
+
+  test('fans files out by the first two hash characters', () => {
+    expect(storagePath('/app/media', hash)).toBe(`/app/media/ab/${hash}`)
+    expect(storagePath('/app/media/', hash)).toBe(`/app/media/ab/${hash}`)
+  })
+
+  test('builds the public URL from id and filename', () => {
+    expect(mediaUrl({ id: 7, filename: 'cat.png' })).toBe('/media/7/cat.png')
+  })
+})
+
+describe('media migration', () => {
+  const migration = readFileSync(resolve(root, 'scripts/db/init/14-media.sql'), 'utf-8')
+
+  test('creates media.assets keyed by owner and content hash', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS media.assets')
+    expect(migration).toContain('sha256 CHAR(64) NOT NULL')
+    expect(migration).toContain('UNIQUE (user_id, sha256)')
+  })
+})
+
+describe('media routes', () => {
+  test('uploads require auth', () => {
+    expect(indexSrc).toContain("app.post('/api/media', requireAuth")
+  })
+
+  test('upload checks size and sniffed type', () => {
+    const route = section("app.post('/api/media'")
+    expect(route).toContain('MEDIA_MAX_BYTES')
+    expect(route).toContain('), 413)')
+    expect(route).toContain('sniffMimeType(bytes)')
+    expect(route).toContain('), 415)')
+  })
+
+  test('upload dedupes by owner and hash before writing', () => {
+    const route = section("app.post('/api/media'")
+    expect(route).toContain('WHERE user_id = ${userId} AND sha256 = ${sha256}')
+    expect(route.indexOf('existing.length > 0')).toBeLessThan(route.indexOf('writeFile('))
+  })
+
+  test('serving checks the filename and sets safe headers', () => {
+    const route = section("app.get('/media/:id/:filename'")
+    expect(route).toContain("assets[0].filename !== c.req.param('filename')")
+    expect(route).toContain("'X-Content-Type-Options': 'nosniff'")
+  })
+
+  test('an upload and its variants are only served where they may be seen', () => {
+    for (const route of ["app.get('/media/:id/:filename'", "app.get('/media/:id/w/:variant'"]) {
+      const body = section(route)
+      expect(body).toContain("mediaCacheControl(id, assets[0].user_id, c.get('user')?.id ?? null)")
+      expect(body).toContain("'Cache-Control': cacheControl")
+    }
+  })
+
+  test('visibility: the owner, a live post or published page, or an open share link', () => {
+    const check = section('async function mediaCacheControl(')
+    expect(check).toContain('const embeds = `%/media/${assetId}/%`')
+    expect(check).toContain('published_at IS NOT NULL AND published_at <= NOW()')
+    expect(check).toContain('FROM journal.pages WHERE content LIKE ${embeds} AND is_public = true')
+    expect(check).toContain('s.revoked_at IS NULL AND s.expires_at > NOW()')
+    // Only uploads anyone may see go to shared caches
+    expect(check).toContain("if (visibility.live) return 'public, max-age=31536000, immutable'")
+    expect(check).toContain("return 'private, max-age=3600'")
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Media uploads: type detection, filename cleanup, and content-addressed
+ * storage paths. Files are stored once per SHA-256 hash.
+ */
+
+export const MEDIA_MAX_BYTES = 10 * 1024 * 1024
+
+// Accepted upload types and the extension each is served with
+export const MEDIA_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((b, i) => bytes[offset + i] === b)
+}
+
+/**
+ * Identify a file from its leading bytes. The client's Content-Type is not
+ * trusted — anything unrecognised is rejected.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif'
+  // RIFF....WEBP
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp'
+  }
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'
+  return null
+}
+
+/**
+ * URL-safe filename with the extension matching the detected type,
+ * e.g. "My Photo (1).JPEG" → "my-photo-1.jpg".
+ */
+export function sanitizeFilename(name: string, mimeType: string): string {
+  const base = name
+    .replace(/\.[^.]*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100)
+    .replace(/-+$/, '')
+  return `${base || 'file'}.${MEDIA_TYPES[mimeType] ?? 'bin'}`
+}
+
+// Two-level fan-out keeps directories small: <root>/ab/abcdef…
+export function storagePath(root: string, sha256: string): string {
+  return `${root.replace(/\/$/, '')}/${sha256.slice(0, 2)}/${sha256}`
+}
+
+export function mediaUrl(asset: { id: number; filename: string }): string {
+  return `/media/${asset.id}/${asset.filename}`
+}
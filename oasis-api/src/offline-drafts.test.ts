@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { UpdateJournalSchema } from './schemas'
+import { hasConflictMarkers, mergeWithConflictMarkers } from '../../oasis-web/src/lib/diff'
+import { isDraftApplied } from '../../oasis-web/src/lib/draftQueue'
+
+const webRoot = resolve(__dirname, '../../oasis-web/src')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+const editPage = readFileSync(resolve(webRoot, 'pages/JournalEditPage.tsx'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('updated_at concurrency token', () => {
+  test('is optional on updates', () => {
+    expect(UpdateJournalSchema.safeParse({ title: 'T', content: 'C' }).success).toBe(true)
+    expect(UpdateJournalSchema.safeParse({ title: 'T', content: 'C', updated_at: '2025-03-01T12:00:00.123Z' }).success).toBe(true)
+    expect(UpdateJournalSchema.safeParse({ title: 'T', content: 'C', updated_at: 'yesterday' }).success).toBe(false)
+  })
+
+  test('a stale token is a 409 carrying the current entry', () => {
+    const route = section("app.put('/api/journal/:id', requireAuth")
+    const check = route.indexOf('parsed.data.updated_at')
+    expect(check).toBeGreaterThan(-1)
+    expect(route).toContain("return c.json({ ...apiError('CONFLICT', 'Entry has changed since it was loaded'), entry: current[0] }, 409)")
+    // Refused before anything is written
+    expect(check).toBeLessThan(route.indexOf('insertRevision('))
+    expect(check).toBeLessThan(route.indexOf('UPDATE journal.entries'))
+  })
+})
+
+describe('mergeWithConflictMarkers()', () => {
+  test('identical texts merge cleanly', () => {
+    const merged = mergeWithConflictMarkers('a\nb', 'a\nb')
+    expect(merged).toBe('a\nb')
+    expect(hasConflictMarkers(merged)).toBe(false)
+  })
+
+  test('differing lines become a conflict block, saved version first', () => {
+    expect(mergeWithConflictMarkers('a\nsaved\nc', 'a\nmine\nc')).toBe(
+      ['a', '<<<<<<< Saved version', 'saved', '=======', 'mine', '>>>>>>> Your version', 'c'].join('\n')
+    )
+  })
+
+  test('lines only one side has are still offered for review', () => {
+    const merged = mergeWithConflictMarkers('a\nc', 'a\nb\nc')
+    expect(merged).toBe(['a', '<<<<<<< Saved version', '=======', 'b', '>>>>>>> Your version', 'c'].join('\n'))
+    expect(hasConflictMarkers(merged)).toBe(true)
+    expect(hasConflictMarkers('a\nb\nc')).toBe(false)
+  })
+})
+
+describe('offline draft queue', () => {
+  test('a draft whose text already reached the server is not a conflict', () => {
+    const entry = { title: 'T', content: 'Body' }
+    expect(isDraftApplied(entry, { title: 'T', content: 'Body' })).toBe(true)
+    expect(isDraftApplied(entry, { title: 'T', content: 'Body, edited' })).toBe(false)
+  })
+
+  test('the editor queues each save locally before sending it', () => {
+    const performSave = editPage.slice(editPage.indexOf('const performSave'), editPage.indexOf('// Send edits recovered'))
+    expect(performSave.indexOf('persistDraft(data)')).toBeGreaterThan(-1)
+    expect(performSave.indexOf('persistDraft(data)')).toBeLessThan(performSave.indexOf('journal.saveEntry('))
+  })
+
+  test('the editor sends the version its edits are based on', () => {
+    expect(editPage).toContain('journal.saveEntry(entryIdRef.current, data, baseUpdatedAtRef.current, draft.key)')
+    expect(editPage).toContain('headers: entryId ? writeHeaders(base)')
+  })
+
+  test('creates carry the draft key, so a resent create makes one entry', () => {
+    expect(editPage).toContain("{ ...writeHeaders(null), 'Idempotency-Key': draft.key }")
+    const hook = readFileSync(resolve(webRoot, 'hooks/useJournal.ts'), 'utf-8')
+    expect(hook).toContain("api.post('/api/journal', { headers: { 'Idempotency-Key': draftKey }, body: data })")
+    expect(hook).toContain('saveEntry(draft.entryId, draft.data, draft.baseUpdatedAt, draft.key)')
+
+    const create = section("app.post('/api/journal', requireAuth")
+    expect(create).toContain("c.req.header('Idempotency-Key')")
+    expect(create).toContain('ON CONFLICT (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING')
+    expect(create).toContain('return c.json({ entry: created[0] }, 200)')
+
+    const migration = readFileSync(resolve(__dirname, '../../scripts/db/init/20-journal-idempotency.sql'), 'utf-8')
+    expect(migration).toContain('ON journal.entries(user_id, idempotency_key)')
+  })
+
+  test('every entry loaded from the server becomes the new base version', () => {
+    const refreshes = editPage.match(/setEntry\((fresh|restored)\)/g) ?? []
+    expect(refreshes.length).toBe(3)
+    expect(editPage.match(/baseUpdatedAtRef\.current = (fresh|restored)\.updated_at\n\s+setEntry\((fresh|restored)\)/g)?.length).toBe(3)
+  })
+
+  test('queued drafts are retried when the connection returns', () => {
+    expect(editPage).toContain("window.addEventListener('online', handleOnline)")
+    const layout = readFileSync(resolve(webRoot, 'Layout.tsx'), 'utf-8')
+    expect(layout).toContain('replayDrafts()')
+    expect(layout).toContain("window.addEventListener('online', handleOnline)")
+  })
+
+  test('conflicts open the merge dialog', () => {
+    expect(editPage).toContain('conflict={conflict}')
+    const editor = readFileSync(resolve(webRoot, 'ui/components/JournalEditor/JournalEditor.tsx'), 'utf-8')
+    expect(editor).toContain('<MergeDialog conflict={conflict} onResolve={onResolveConflict} />')
+  })
+})
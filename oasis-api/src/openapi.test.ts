@@ -0,0 +1,170 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { ROUTES, buildOpenApiDocument, openApiPath } from './openapi'
+import { CLIENT_TYPES_PATH, generateClientTypes } from './client-codegen'
+import { createClient, fieldMessages } from '../../oasis-client/src'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+const doc = buildOpenApiDocument()
+
+function operations() {
+  return Object.entries(doc.paths).flatMap(([path, item]) =>
+    Object.entries(item as Record<string, Record<string, any>>).map(([method, op]) => ({ path, method, op }))
+  )
+}
+
+describe('OpenAPI document', () => {
+  test('describes every route index.ts registers, and nothing else', () => {
+    const registered = [...indexSrc.matchAll(/^app\.(get|post|put|delete)\('([^']+)'/gm)]
+      .map(([, method, path]) => `${method} ${path}`)
+      .sort()
+    const documented = ROUTES.map((r) => `${r.method} ${r.path}`).sort()
+    expect(documented).toEqual(registered)
+  })
+
+  test('is served by the API', () => {
+    expect(indexSrc).toContain("app.get('/api/openapi.json', (c) => c.json(openApiDocument ??= buildOpenApiDocument()))")
+  })
+
+  test('is OpenAPI 3.1 with Hono params as path templates', () => {
+    expect(doc.openapi).toBe('3.1.0')
+    expect(openApiPath('/api/journal/:id/revisions/:rev')).toBe('/api/journal/{id}/revisions/{rev}')
+    expect(doc.paths['/api/journal/{id}']).toBeDefined()
+  })
+
+  test('every path template has a matching required parameter', () => {
+    for (const { path, op } of operations()) {
+      const templated = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name)
+      const declared = (op.parameters ?? []).filter((p: any) => p.in === 'path')
+      expect(declared.map((p: any) => p.name)).toEqual(templated)
+      expect(declared.every((p: any) => p.required)).toBe(true)
+    }
+  })
+
+  test('numeric ids are integers', () => {
+    const op = (doc.paths['/api/journal/{id}/revisions/{rev}'] as any).get
+    expect(op.parameters.map((p: any) => p.schema.type)).toEqual(['integer', 'integer'])
+    const bySlug = (doc.paths['/api/journal/slug/{slug}'] as any).get
+    expect(bySlug.parameters[0].schema.type).toBe('string')
+  })
+
+  test('signed-in routes list both ways to authenticate', () => {
+    const op = (doc.paths['/api/projects'] as any).get
+    expect(op.security).toEqual([{ session: [] }, { internalKey: [] }])
+    expect((doc.paths['/api/health'] as any).get.security).toBeUndefined()
+  })
+
+  test('every $ref points at a component', () => {
+    const refs = [...JSON.stringify(doc).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g)].map(([, name]) => name)
+    expect(refs.length).toBeGreaterThan(0)
+    for (const name of refs) expect(doc.components.schemas).toHaveProperty(name)
+  })
+
+  test('request bodies use the schemas routes validate with', () => {
+    const put = (doc.paths['/api/journal/{id}'] as any).put
+    expect(put.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UpdateJournal' })
+    const update = doc.components.schemas.UpdateJournal as any
+    expect(update.required).toEqual(['title', 'content'])
+  })
+
+  test('uploads are multipart and feeds are not JSON', () => {
+    const upload = (doc.paths['/api/media'] as any).post
+    expect(Object.keys(upload.requestBody.content)).toEqual(['multipart/form-data'])
+    const rss = (doc.paths['/api/journal/feed.rss'] as any).get
+    expect(Object.keys(rss.responses['200'].content)).toEqual(['application/rss+xml'])
+  })
+})
+
+describe('generated client types', () => {
+  test('are up to date (run `bun run generate:client`)', () => {
+    expect(readFileSync(CLIENT_TYPES_PATH, 'utf-8')).toBe(generateClientTypes(doc))
+  })
+
+  test('leave out operations that do not return JSON', () => {
+    const types = generateClientTypes(doc)
+    expect(types).toContain("'/api/journal/{id}': {")
+    expect(types).not.toContain("'/api/journal/feed.rss'")
+  })
+})
+
+describe('oasis-client', () => {
+  function recordingClient(status = 200, body: unknown = { ok: true }) {
+    const sent: { url: string; init: RequestInit }[] = []
+    const api = createClient({
+      baseUrl: 'http://api.test',
+      headers: { 'X-Internal-Key': 'k' },
+      fetch: async (url, init) => {
+        sent.push({ url, init })
+        return new Response(JSON.stringify(body), { status })
+      },
+    })
+    return { api, sent }
+  }
+
+  test('fills path params and serialises the query', async () => {
+    const { api, sent } = recordingClient()
+    await api.get('/api/journal/{id}/revisions/{rev}', { params: { id: 4, rev: 12 } })
+    await api.get('/api/journal/slug/{slug}', { params: { slug: 'a b/c' } })
+    await api.get('/api/journal/slug-available', { query: { slug: 'hello', exclude_id: undefined } })
+    expect(sent.map((s) => s.url)).toEqual([
+      'http://api.test/api/journal/4/revisions/12',
+      'http://api.test/api/journal/slug/a%20b%2Fc',
+      'http://api.test/api/journal/slug-available?slug=hello',
+    ])
+  })
+
+  test('sends JSON bodies with default and per-request headers', async () => {
+    const { api, sent } = recordingClient()
+    await api.put('/api/journal/{id}', {
+      params: { id: 1 },
+      headers: { 'If-Match': '"1"' },
+      body: { title: 'T', content: 'C' },
+    })
+    expect(sent[0].init.method).toBe('PUT')
+    expect(sent[0].init.body).toBe('{"title":"T","content":"C"}')
+    expect(sent[0].init.headers).toEqual({ 'X-Internal-Key': 'k', 'Content-Type': 'application/json', 'If-Match': '"1"' })
+  })
+
+  test('passes form data through untouched', async () => {
+    const { api, sent } = recordingClient()
+    const form = new FormData()
+    form.append('file', new Blob(['x']), 'x.png')
+    await api.post('/api/media', { body: form })
+    expect(sent[0].init.body).toBe(form)
+    expect(sent[0].init.headers).toEqual({ 'X-Internal-Key': 'k' })
+  })
+
+  test('returns API errors instead of throwing', async () => {
+    const { api } = recordingClient(412, {
+      error: { code: 'CONFLICT', message: 'Entry has changed since it was loaded', fields: [] },
+      entry: { id: 1 },
+    })
+    const res = await api.put('/api/journal/{id}', { params: { id: 1 }, body: { title: 'T', content: 'C' } })
+    expect(res.ok).toBe(false)
+    if (res.ok) return
+    expect(res.status).toBe(412)
+    expect(res.error.code).toBe('CONFLICT')
+    expect(res.error.message).toBe('Entry has changed since it was loaded')
+    expect(res.body.entry).toEqual({ id: 1 })
+  })
+
+  test('a response without an error message still gets one', async () => {
+    const api = createClient({ fetch: async () => new Response('<html>Bad Gateway</html>', { status: 502 }) })
+    const res = await api.get('/api/journal/trash')
+    expect(res.ok).toBe(false)
+    if (!res.ok) expect(res.error).toEqual({ code: 'INTERNAL', message: 'Request failed with status 502', fields: [] })
+  })
+
+  test('fieldMessages() keys the first message for each field', () => {
+    expect(fieldMessages({
+      code: 'VALIDATION',
+      message: 'title: Required',
+      fields: [
+        { field: 'title', message: 'Required' },
+        { field: 'title', message: 'Too short' },
+        { field: 'steps.0.title', message: 'Required' },
+      ],
+    })).toEqual({ title: 'Required', 'steps.0.title': 'Required' })
+  })
+})
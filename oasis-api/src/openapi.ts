@@ -0,0 +1,339 @@
+import { z } from 'zod'
+import {
+  AddStepsSchema,
+  CreateJournalSchema,
+  CreatePageSchema,
+  CreateProjectSchema,
+  CreateSeriesSchema,
+  CreateShareLinkSchema,
+  DraftPreviewResponseSchema,
+  ErrorResponseSchema,
+  GeneratedStepSchema,
+  GenerateStepsSchema,
+  ImageAssetSchema,
+  ImportReportSchema,
+  JournalEntryResponseSchema,
+  JournalEntrySchema,
+  JournalListResponseSchema,
+  MediaAssetSchema,
+  ModerateWebmentionSchema,
+  PageLinkSchema,
+  PageSchema,
+  PostSummarySchema,
+  PreviewJournalSchema,
+  ProjectSchema,
+  ProjectSummarySchema,
+  PublicPostsResponseSchema,
+  ReorderStepsSchema,
+  RevisionSchema,
+  RevisionSummarySchema,
+  ShareLinkSchema,
+  SlugAvailabilitySchema,
+  StepInputSchema,
+  StepSchema,
+  SuccessSchema,
+  TrashedEntrySchema,
+  TrashResponseSchema,
+  UpdateJournalSchema,
+  UpdatePageSchema,
+  UpdateProjectSchema,
+  UpdateSeriesSchema,
+  UpdateStepSchema,
+  WebmentionSchema,
+} from './schemas'
+
+/**
+ * The OpenAPI document served at /api/openapi.json. Every route registered
+ * in index.ts has an entry in ROUTES (a test keeps the two in step); request
+ * bodies are the zod schemas the handlers validate with, responses the
+ * response schemas in schemas.ts. oasis-client's types are generated from it.
+ */
+
+type Method = 'get' | 'post' | 'put' | 'delete'
+
+export interface RouteSpec {
+  method: Method
+  /** Hono-style path, e.g. /api/journal/:id */
+  path: string
+  summary: string
+  /** Needs a session (or the internal API key) */
+  auth?: boolean
+  query?: z.ZodObject
+  /** JSON request body, or a multipart form with a `file` field */
+  body?: z.ZodType | 'multipart'
+  /** JSON response body; routes without one are documented as returning any JSON */
+  response?: z.ZodType
+  status?: 200 | 201 | 202
+  /** Content type of a non-JSON response */
+  produces?: string
+}
+
+// Named schemas, emitted under components.schemas and referenced by name.
+// Requests are documented as sent (fields with defaults are optional),
+// responses as returned.
+const REQUEST_COMPONENTS: Record<string, z.ZodType> = {
+  CreateJournal: CreateJournalSchema,
+  UpdateJournal: UpdateJournalSchema,
+  PreviewJournal: PreviewJournalSchema,
+  CreateShareLink: CreateShareLinkSchema,
+  CreateSeries: CreateSeriesSchema,
+  UpdateSeries: UpdateSeriesSchema,
+  ModerateWebmention: ModerateWebmentionSchema,
+  CreatePage: CreatePageSchema,
+  UpdatePage: UpdatePageSchema,
+  StepInput: StepInputSchema,
+  CreateProject: CreateProjectSchema,
+  UpdateProject: UpdateProjectSchema,
+  AddSteps: AddStepsSchema,
+  UpdateStep: UpdateStepSchema,
+  ReorderSteps: ReorderStepsSchema,
+  GenerateSteps: GenerateStepsSchema,
+}
+
+const RESPONSE_COMPONENTS: Record<string, z.ZodType> = {
+  Success: SuccessSchema,
+  JournalEntry: JournalEntrySchema,
+  JournalEntryResponse: JournalEntryResponseSchema,
+  JournalListResponse: JournalListResponseSchema,
+  PostSummary: PostSummarySchema,
+  PublicPostsResponse: PublicPostsResponseSchema,
+  SlugAvailability: SlugAvailabilitySchema,
+  ImageAsset: ImageAssetSchema,
+  MediaAsset: MediaAssetSchema,
+  DraftPreviewResponse: DraftPreviewResponseSchema,
+  TrashedEntry: TrashedEntrySchema,
+  TrashResponse: TrashResponseSchema,
+  RevisionSummary: RevisionSummarySchema,
+  Revision: RevisionSchema,
+  ShareLink: ShareLinkSchema,
+  ImportReport: ImportReportSchema,
+  Webmention: WebmentionSchema,
+  PageLink: PageLinkSchema,
+  Page: PageSchema,
+  Project: ProjectSchema,
+  ProjectSummary: ProjectSummarySchema,
+  Step: StepSchema,
+  GeneratedStep: GeneratedStepSchema,
+  ErrorResponse: ErrorResponseSchema,
+}
+
+// Response wrappers used by a single route are inline; repeated ones are shared
+const ProjectResponse = z.object({ project: ProjectSchema })
+const StepResponse = z.object({ step: StepSchema })
+const StepsResponse = z.object({ steps: z.array(StepSchema) })
+const PageResponse = z.object({ page: PageSchema })
+
+// Keyset paging: `after` is the previous page's next_cursor
+const Paging = z.object({ after: z.string().optional(), limit: z.number().int().optional() })
+
+export const ROUTES: RouteSpec[] = [
+  // System
+  { method: 'get', path: '/api/health', summary: 'Liveness check', response: z.object({ status: z.literal('ok') }) },
+  { method: 'get', path: '/api/openapi.json', summary: 'This document' },
+  { method: 'get', path: '/api/containers', summary: 'Docker containers on the host', auth: true },
+  { method: 'get', path: '/api/system', summary: 'Host uptime, memory, load and disk', auth: true },
+
+  // Journal
+  {
+    method: 'get', path: '/api/journal/slug-available', summary: 'Whether a slug is free, with a suggestion if not', auth: true,
+    query: z.object({ slug: z.string(), exclude_id: z.number().int().optional() }),
+    response: SlugAvailabilitySchema,
+  },
+  { method: 'post', path: '/api/journal/preview', summary: 'Excerpt, reading time and image assets for unsaved content', auth: true, body: PreviewJournalSchema, response: DraftPreviewResponseSchema },
+  { method: 'get', path: '/api/journal', summary: 'Own entries when signed in, published ones otherwise', query: Paging, response: JournalListResponseSchema },
+  {
+    method: 'get', path: '/api/journal/public', summary: 'Published posts for the blog feed',
+    query: Paging.extend({ tag: z.string().optional() }),
+    response: PublicPostsResponseSchema,
+  },
+  { method: 'get', path: '/api/journal/slug/:slug', summary: 'A published post by slug' },
+  { method: 'get', path: '/api/journal/slug/:slug/redirect', summary: '301 to the current slug of a renamed post' },
+  {
+    method: 'get', path: '/api/journal/search', summary: 'Full-text search',
+    query: z.object({ q: z.string(), limit: z.number().int().optional(), scope: z.enum(['public']).optional() }),
+  },
+  { method: 'get', path: '/api/journal/feed.rss', summary: 'RSS 2.0 feed', produces: 'application/rss+xml' },
+  { method: 'get', path: '/api/journal/feed.atom', summary: 'Atom feed', produces: 'application/atom+xml' },
+  { method: 'get', path: '/sitemap.xml', summary: 'Sitemap of published posts', produces: 'application/xml' },
+  { method: 'get', path: '/robots.txt', summary: 'robots.txt pointing at the sitemap', produces: 'text/plain' },
+  { method: 'get', path: '/api/journal/slug/:slug/page', summary: 'Server-rendered post page', produces: 'text/html' },
+  { method: 'get', path: '/api/journal/export', summary: 'All entries as a zip of markdown files', auth: true, produces: 'application/zip' },
+  { method: 'post', path: '/api/journal/import', summary: 'Import a markdown zip archive', auth: true, body: 'multipart', response: ImportReportSchema },
+  { method: 'post', path: '/api/journal/import/:source', summary: 'Import a WordPress, Ghost or Jekyll/Hugo export', auth: true, body: 'multipart', query: z.object({ dry_run: z.string().optional() }) },
+  { method: 'get', path: '/api/journal/trash', summary: 'Trashed entries and when they are purged', auth: true, response: TrashResponseSchema },
+  { method: 'post', path: '/api/journal/:id/restore', summary: 'Restore a trashed entry', auth: true, response: JournalEntryResponseSchema },
+  { method: 'get', path: '/api/journal/:id', summary: 'Single entry, with an ETag', response: JournalEntryResponseSchema },
+  { method: 'post', path: '/api/journal', summary: 'Create an entry', auth: true, body: CreateJournalSchema, response: JournalEntryResponseSchema, status: 201 },
+  { method: 'put', path: '/api/journal/:id', summary: 'Update an entry; 412 with the current entry on a stale If-Match', auth: true, body: UpdateJournalSchema, response: JournalEntryResponseSchema },
+  { method: 'delete', path: '/api/journal/:id', summary: 'Move an entry to the trash', auth: true, response: SuccessSchema },
+  { method: 'get', path: '/api/journal/:id/revisions', summary: 'Saved versions of an entry', auth: true, response: z.object({ revisions: z.array(RevisionSummarySchema) }) },
+  { method: 'get', path: '/api/journal/:id/revisions/:rev', summary: 'Single revision with content', auth: true, response: z.object({ revision: RevisionSchema }) },
+  { method: 'post', path: '/api/journal/:id/revisions/:rev/restore', summary: 'Restore a revision', auth: true, response: JournalEntryResponseSchema },
+  { method: 'get', path: '/api/journal/:id/share-links', summary: 'Share links for an entry', auth: true, response: z.object({ links: z.array(ShareLinkSchema) }) },
+  { method: 'post', path: '/api/journal/:id/share-links', summary: 'Create a share link', auth: true, body: CreateShareLinkSchema, response: z.object({ link: ShareLinkSchema }), status: 201 },
+  { method: 'delete', path: '/api/journal/:id/share-links/:linkId', summary: 'Revoke a share link', auth: true, response: SuccessSchema },
+  { method: 'get', path: '/api/journal/shared/:token', summary: 'An entry by share token' },
+
+  // Series
+  { method: 'get', path: '/api/series', summary: 'Series with their entries', auth: true },
+  { method: 'post', path: '/api/series', summary: 'Create a series', auth: true, body: CreateSeriesSchema, status: 201 },
+  { method: 'get', path: '/api/series/:id', summary: 'A series with its entries, with an ETag', auth: true },
+  { method: 'put', path: '/api/series/:id', summary: 'Rename a series or replace its entries; 412 with the current series on a stale If-Match', auth: true, body: UpdateSeriesSchema },
+  { method: 'delete', path: '/api/series/:id', summary: 'Delete a series', auth: true, response: SuccessSchema },
+
+  // Webmentions
+  { method: 'post', path: '/api/webmention', summary: 'Webmention receiver (form-encoded source and target)', response: z.object({ status: z.literal('accepted') }), status: 202 },
+  {
+    method: 'get', path: '/api/webmentions', summary: 'Mentions of own posts by moderation status', auth: true,
+    query: z.object({ status: z.enum(['pending', 'approved', 'rejected']).optional() }),
+    response: z.object({ mentions: z.array(WebmentionSchema) }),
+  },
+  { method: 'put', path: '/api/webmentions/:id', summary: 'Approve or reject a mention', auth: true, body: ModerateWebmentionSchema },
+  { method: 'delete', path: '/api/webmentions/:id', summary: 'Delete a mention', auth: true, response: SuccessSchema },
+
+  // Static pages
+  { method: 'get', path: '/api/pages', summary: 'All own pages when signed in; published header links otherwise', response: z.object({ pages: z.array(z.union([PageSchema, PageLinkSchema])) }) },
+  { method: 'get', path: '/api/pages/:slug', summary: 'Single page with its image assets, with an ETag', response: z.object({ page: PageSchema.extend({ assets: z.record(z.string(), ImageAssetSchema) }) }) },
+  { method: 'post', path: '/api/pages', summary: 'Create a page', auth: true, body: CreatePageSchema, response: PageResponse, status: 201 },
+  { method: 'put', path: '/api/pages/:id', summary: 'Update a page; 412 with the current page on a stale If-Match', auth: true, body: UpdatePageSchema, response: PageResponse },
+  { method: 'delete', path: '/api/pages/:id', summary: 'Delete a page', auth: true, response: SuccessSchema },
+
+  // Media
+  {
+    method: 'post', path: '/api/media', summary: 'Upload an image or PDF', auth: true, body: 'multipart', status: 201,
+    response: z.object({ asset: MediaAssetSchema }),
+  },
+  { method: 'get', path: '/media/:id/w/:variant', summary: 'Resized image variant', produces: 'image/*' },
+  { method: 'get', path: '/media/:id/:filename', summary: 'Uploaded file', produces: 'application/octet-stream' },
+
+  // Projects
+  { method: 'post', path: '/api/projects/generate-steps', summary: 'Suggest steps for a project with the LLM', auth: true, body: GenerateStepsSchema, response: z.object({ steps: z.array(GeneratedStepSchema) }) },
+  {
+    method: 'get', path: '/api/projects', summary: 'Projects with step counts', auth: true,
+    query: z.object({ status: z.enum(['active', 'paused', 'completed', 'archived']).optional() }),
+    response: z.object({ projects: z.array(ProjectSummarySchema) }),
+  },
+  { method: 'get', path: '/api/projects/:id', summary: 'Project with its steps; the ETag is the project\'s', auth: true, response: z.object({ project: ProjectSchema, steps: z.array(StepSchema) }) },
+  { method: 'post', path: '/api/projects', summary: 'Create a project with nested steps', auth: true, body: CreateProjectSchema, response: z.object({ project: ProjectSchema, steps: z.array(StepSchema) }), status: 201 },
+  { method: 'put', path: '/api/projects/:id', summary: 'Update a project; 412 with the current project on a stale If-Match', auth: true, body: UpdateProjectSchema, response: ProjectResponse },
+  { method: 'delete', path: '/api/projects/:id', summary: 'Delete a project and its steps', auth: true, response: SuccessSchema },
+  { method: 'post', path: '/api/projects/:id/steps', summary: 'Add one or more steps', auth: true, body: AddStepsSchema, response: StepsResponse, status: 201 },
+  { method: 'put', path: '/api/projects/:id/steps/:stepId', summary: 'Update a step; 412 with the current step on a stale If-Match', auth: true, body: UpdateStepSchema, response: StepResponse },
+  { method: 'delete', path: '/api/projects/:id/steps/:stepId', summary: 'Delete a step and its children', auth: true, response: SuccessSchema },
+  { method: 'put', path: '/api/projects/:id/steps', summary: 'Reorder steps; If-Match is the project ETag, 412 with the current project if stale', auth: true, body: ReorderStepsSchema, response: SuccessSchema },
+]
+
+// Path parameters that are numeric ids; the rest are strings
+const INTEGER_PARAMS = new Set(['id', 'rev', 'linkId', 'stepId'])
+
+export function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}')
+}
+
+function operationId(route: RouteSpec): string {
+  const words = route.path.replace(/^\/api\//, '').split(/[/.-]/).filter(Boolean)
+    .map((w) => (w.startsWith(':') ? `by-${w.slice(1)}` : w))
+  return [route.method, ...words].join('-').replace(/-(\w)/g, (_, ch: string) => ch.toUpperCase())
+}
+
+const COMPONENT_URI = (id: string) => `#/components/schemas/${id}`
+
+/**
+ * JSON Schema for each component, plus any extra schemas under temporary
+ * names. Converting everything in one registry makes references to
+ * components come out as $refs rather than copies.
+ */
+function toJsonSchemas(io: 'input' | 'output', components: Record<string, z.ZodType>, extra: Record<string, z.ZodType> = {}) {
+  const registry = z.registry<{ id: string }>()
+  for (const [id, schema] of Object.entries({ ...components, ...extra })) {
+    if (!registry.has(schema)) registry.add(schema, { id })
+  }
+  const { schemas } = z.toJSONSchema(registry, { io, unrepresentable: 'any', uri: COMPONENT_URI })
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema: _, $id: __, ...json }]) => [id, json])
+  ) as Record<string, Record<string, unknown>>
+}
+
+// A route's request or response schema: a $ref when it is a component
+function routeSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> {
+  const components = io === 'input' ? REQUEST_COMPONENTS : RESPONSE_COMPONENTS
+  const name = Object.keys(components).find((id) => components[id] === schema)
+  if (name) return { $ref: COMPONENT_URI(name) }
+  return toJsonSchemas(io, components, { __route: schema }).__route
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of ROUTES) {
+    const parameters: unknown[] = []
+    for (const [, param] of route.path.matchAll(/:(\w+)/g)) {
+      parameters.push({
+        name: param,
+        in: 'path',
+        required: true,
+        schema: { type: INTEGER_PARAMS.has(param) ? 'integer' : 'string' },
+      })
+    }
+    if (route.query) {
+      const query = routeSchema(route.query, 'input') as { properties: Record<string, unknown>; required?: string[] }
+      for (const [name, schema] of Object.entries(query.properties)) {
+        parameters.push({ name, in: 'query', required: query.required?.includes(name) ?? false, schema })
+      }
+    }
+
+    const operation: Record<string, unknown> = {
+      operationId: operationId(route),
+      summary: route.summary,
+    }
+    if (parameters.length) operation.parameters = parameters
+    if (route.auth) operation.security = [{ session: [] }, { internalKey: [] }]
+    if (route.body === 'multipart') {
+      operation.requestBody = {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } }, required: ['file'] },
+          },
+        },
+      }
+    } else if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema: routeSchema(route.body, 'input') } },
+      }
+    }
+
+    const content = route.produces
+      ? { [route.produces]: {} }
+      : { 'application/json': { schema: route.response ? routeSchema(route.response, 'output') : {} } }
+    operation.responses = {
+      [route.status ?? 200]: { description: 'Success', content },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+      },
+    }
+
+    paths[openApiPath(route.path)] ??= {}
+    paths[openApiPath(route.path)][route.method] = operation
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'ash1 oasis API', version: '1.0.0' },
+    paths,
+    components: {
+      schemas: {
+        ...toJsonSchemas('input', REQUEST_COMPONENTS),
+        ...toJsonSchemas('output', RESPONSE_COMPONENTS),
+      },
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'better-auth.session_token' },
+        internalKey: { type: 'apiKey', in: 'header', name: 'X-Internal-Key' },
+      },
+    },
+  }
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>
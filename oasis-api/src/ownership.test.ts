@@ -25,11 +25,11 @@ describe('Journal ownership enforcement', () => {
   })
 
   test('DELETE /api/journal/:id checks ownership', () => {
-    expect(indexSrc).toMatch(/DELETE FROM journal\.entries[\s\S]*?WHERE id = \$\{id\} AND \(user_id = \$\{userId\} OR user_id IS NULL\)/)
+    expect(indexSrc).toMatch(/UPDATE journal\.entries SET deleted_at = NOW\(\)[\s\S]*?user_id = \$\{userId\} OR user_id IS NULL/)
   })
 
   test('GET /api/journal filters by ownership when authenticated', () => {
-    expect(indexSrc).toMatch(/FROM journal\.entries[\s\S]*?WHERE user_id = \$\{user\.id\} OR user_id IS NULL/)
+    expect(indexSrc).toMatch(/FROM journal\.entries[\s\S]*?WHERE \(user_id = \$\{user\.id\} OR user_id IS NULL\) AND deleted_at IS NULL/)
   })
 
   test('GET /api/journal/:id checks ownership for authenticated users', () => {
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { CreatePageSchema, UpdatePageSchema, RESERVED_PAGE_SLUGS } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const webRoot = resolve(root, 'oasis-web/src')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('page schemas', () => {
+  test('new pages default to unpublished drafts outside the nav', () => {
+    const result = CreatePageSchema.safeParse({ title: 'About' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.content).toBe('')
+      expect(result.data.is_public).toBe(false)
+      expect(result.data.show_in_nav).toBe(false)
+      expect(result.data.nav_order).toBe(0)
+    }
+  })
+
+  test('slugs that shadow built-in routes are rejected', () => {
+    for (const slug of ['blog', 'journal', 'projects', 'login', 'preview', 'pages', 'api', 'media']) {
+      expect(RESERVED_PAGE_SLUGS).toContain(slug)
+      expect(CreatePageSchema.safeParse({ title: 'X', slug }).success).toBe(false)
+    }
+    expect(CreatePageSchema.safeParse({ title: 'Now', slug: 'now' }).success).toBe(true)
+  })
+
+  test('updates need at least one field', () => {
+    expect(UpdatePageSchema.safeParse({}).success).toBe(false)
+    expect(UpdatePageSchema.safeParse({ nav_label: null }).success).toBe(true)
+  })
+})
+
+describe('18-pages.sql migration', () => {
+  const migration = readFileSync(resolve(root, 'scripts/db/init/18-pages.sql'), 'utf-8')
+
+  test('pages have their own slug namespace', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS journal.pages')
+    expect(migration).toContain('slug VARCHAR(255) NOT NULL UNIQUE')
+  })
+
+  test('stores header navigation settings', () => {
+    expect(migration).toContain('show_in_nav BOOLEAN NOT NULL DEFAULT false')
+    expect(migration).toContain('nav_label VARCHAR(64)')
+    expect(migration).toContain('nav_order INTEGER NOT NULL DEFAULT 0')
+  })
+})
+
+describe('page endpoints', () => {
+  test('anonymous visitors only see published pages', () => {
+    const list = section("app.get('/api/pages', async")
+    expect(list).toContain('WHERE is_public = true')
+
+    const single = section("app.get('/api/pages/:slug', async")
+    expect(single).toContain('!page.is_public && !isOwner')
+    expect(single).toContain("'Page not found'")
+  })
+
+  test('writes require auth and ownership', () => {
+    for (const route of [
+      "app.post('/api/pages', requireAuth",
+      "app.put('/api/pages/:id', requireAuth",
+      "app.delete('/api/pages/:id', requireAuth",
+    ]) {
+      expect(section(route)).toBeTruthy()
+    }
+    expect(section("app.put('/api/pages/:id'")).toContain('(user_id = ${userId} OR user_id IS NULL)')
+    expect(section("app.delete('/api/pages/:id'")).toContain('(user_id = ${userId} OR user_id IS NULL)')
+  })
+
+  test('taken slugs are a 409 on create and update', () => {
+    expect(section("app.post('/api/pages'")).toContain('return c.json(conflict, 409)')
+    expect(section("app.put('/api/pages/:id'")).toContain('return c.json(conflict, 409)')
+  })
+})
+
+describe('static page routing', () => {
+  const main = readFileSync(resolve(webRoot, 'main.tsx'), 'utf-8')
+
+  test('/:slug catch-all comes after the built-in routes', () => {
+    const catchAll = main.indexOf('path=":slug"')
+    expect(catchAll).toBeGreaterThan(-1)
+    expect(catchAll).toBeGreaterThan(main.indexOf('path="projects/:id/edit"'))
+    expect(main).toContain('<StaticPage />')
+  })
+
+  test('unknown paths render the 404 page', () => {
+    expect(main).toContain('path="*" element={<NotFoundPage />}')
+    const page = readFileSync(resolve(webRoot, 'pages/StaticPage.tsx'), 'utf-8')
+    expect(page).toContain('return <NotFoundPage />')
+  })
+
+  test('header links come from page data', () => {
+    const layout = readFileSync(resolve(webRoot, 'Layout.tsx'), 'utf-8')
+    expect(layout).toContain('usePages()')
+    expect(layout).toContain('page.is_public && page.show_in_nav')
+    expect(layout).toContain('page.nav_label || page.title')
+  })
+})
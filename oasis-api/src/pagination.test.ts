@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { MAX_PAGE_SIZE, encodeCursor, paginate, parseCursor, parseLimit, parsePageQuery } from './pagination'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('cursors', () => {
+  test('round-trip through encodeCursor() and parseCursor()', () => {
+    const cursor = { at: '2026-03-01T09:30:00.123456Z', id: 42 }
+    expect(encodeCursor(cursor)).toBe('2026-03-01T09:30:00.123456Z,42')
+    expect(parseCursor(encodeCursor(cursor))).toEqual(cursor)
+  })
+
+  test('accept offsets and whole seconds', () => {
+    expect(parseCursor('2026-03-01T09:30:00+01:00,7')).toEqual({ at: '2026-03-01T09:30:00+01:00', id: 7 })
+  })
+
+  test('reject anything else', () => {
+    for (const value of ['', '42', '2026-03-01T09:30:00Z', '2026-03-01T09:30:00Z,0', '2026-03-01T09:30:00Z,-1',
+      '2026-13-45T09:30:00Z,1', 'yesterday,1', "2026-03-01T09:30:00Z,1' OR 1=1"]) {
+      expect(parseCursor(value)).toBeNull()
+    }
+  })
+})
+
+describe('parseLimit()', () => {
+  test('defaults when missing and caps large values', () => {
+    expect(parseLimit(undefined, 20)).toBe(20)
+    expect(parseLimit('', 10)).toBe(10)
+    expect(parseLimit('5', 20)).toBe(5)
+    expect(parseLimit('500', 20)).toBe(MAX_PAGE_SIZE)
+  })
+
+  test('rejects values that are not positive integers', () => {
+    for (const value of ['0', '-3', '1.5', 'abc', 'NaN']) expect(parseLimit(value, 20)).toBeNull()
+  })
+})
+
+describe('parsePageQuery()', () => {
+  test('returns the limit and cursor', () => {
+    expect(parsePageQuery({ after: '2026-03-01T09:30:00Z,3' }, 10)).toEqual({
+      success: true,
+      limit: 10,
+      cursor: { at: '2026-03-01T09:30:00Z', id: 3 },
+    })
+  })
+
+  test('names each bad parameter', () => {
+    const result = parsePageQuery({ limit: 'abc', after: 'page-2' }, 10)
+    expect(result.success).toBe(false)
+    if (!result.success) expect(result.fields.map((f) => f.field)).toEqual(['limit', 'after'])
+  })
+})
+
+describe('paginate()', () => {
+  const rows = [3, 2, 1].map((id) => ({ id, cursor_at: `2026-03-0${id}T00:00:00.000000Z` }))
+
+  test('a short page is the last one', () => {
+    expect(paginate(rows, 3)).toEqual({ rows, next_cursor: null })
+  })
+
+  test('the extra row is dropped and the cursor names the last row kept', () => {
+    expect(paginate(rows, 2)).toEqual({ rows: rows.slice(0, 2), next_cursor: '2026-03-02T00:00:00.000000Z,2' })
+  })
+})
+
+describe('journal list routes', () => {
+  for (const route of ["app.get('/api/journal',", "app.get('/api/journal/public',"]) {
+    test(`${route} pages by cursor without OFFSET or COUNT`, () => {
+      const handler = section(route)
+      expect(handler).toContain("parsePageQuery({ limit: c.req.query('limit'), after: c.req.query('after') }")
+      expect(handler).toContain('LIMIT ${limit + 1}')
+      expect(handler).toContain('next_cursor')
+      expect(handler).not.toContain('OFFSET')
+      expect(handler).not.toContain('COUNT(*)')
+    })
+  }
+
+  test('the public feed orders by the published index with id as tie-break', () => {
+    const handler = section("app.get('/api/journal/public',")
+    expect(handler).toContain("afterCursor('published_at', cursor)")
+    expect(handler).toContain('ORDER BY published_at DESC, id DESC')
+  })
+
+  test('the public feed has an index matching its keyset query', () => {
+    const migration = readFileSync(resolve(__dirname, '../../scripts/db/init/21-journal-published-keyset.sql'), 'utf-8')
+    expect(migration).toContain('ON journal.entries(published_at DESC, id DESC)')
+    expect(migration).toContain('WHERE is_public = true AND published_at IS NOT NULL AND deleted_at IS NULL')
+    expect(section("app.get('/api/journal/public',")).toContain('idx_journal_entries_published_keyset')
+  })
+
+  test('cursors compare row values at full precision', () => {
+    expect(indexSrc).toContain('AND (${sql(column)}, id) < (${cursor.at}::timestamptz, ${cursor.id})')
+    expect(indexSrc).toContain('HH24:MI:SS.US')
+  })
+})
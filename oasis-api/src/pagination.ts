@@ -0,0 +1,78 @@
+import type { FieldError } from './errors'
+
+/**
+ * Keyset pagination for the journal lists. A page ends with a cursor naming
+ * its last row as `<timestamp>,<id>` (the list's sort column, then the id
+ * that breaks ties); the next page is the rows strictly after it. Unlike
+ * OFFSET, a deep page costs the same as the first, and rows published in
+ * the meantime don't shift the rest by one.
+ */
+export const MAX_PAGE_SIZE = 50
+
+export interface Cursor {
+  /** ISO 8601 timestamp with microseconds, as Postgres stores them */
+  at: string
+  id: number
+}
+
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?(?:Z|[+-]\d{2}:\d{2})),(\d+)$/
+
+export function encodeCursor({ at, id }: Cursor): string {
+  return `${at},${id}`
+}
+
+/** The cursor in an `after` query parameter, or null if it isn't one */
+export function parseCursor(value: string): Cursor | null {
+  const match = value.match(CURSOR_PATTERN)
+  if (!match || Number.isNaN(Date.parse(match[1]))) return null
+  const id = Number(match[2])
+  return Number.isSafeInteger(id) && id > 0 ? { at: match[1], id } : null
+}
+
+/**
+ * Parse a `limit` query parameter: missing means the default, larger than
+ * MAX_PAGE_SIZE means the maximum, and anything but a positive integer is
+ * rejected (null).
+ */
+export function parseLimit(value: string | undefined, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback
+  const limit = Number(value)
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : null
+}
+
+/** The `limit` and `after` query parameters, checked the way parseBody checks bodies */
+export function parsePageQuery(
+  query: { limit?: string; after?: string },
+  defaultLimit: number
+): { success: true; limit: number; cursor: Cursor | null } | { success: false; error: string; fields: FieldError[] } {
+  const fields: FieldError[] = []
+  const limit = parseLimit(query.limit, defaultLimit)
+  if (limit === null) fields.push({ field: 'limit', message: 'Must be a positive integer' })
+  const cursor = query.after ? parseCursor(query.after) : null
+  if (query.after && !cursor) fields.push({ field: 'after', message: 'Must be a next_cursor from an earlier page' })
+
+  if (limit === null || fields.length > 0) {
+    return { success: false, error: fields.map(({ field, message }) => `${field}: ${message}`).join('; '), fields }
+  }
+  return { success: true, limit, cursor }
+}
+
+/** A row selected with its cursor position */
+export interface CursorRow {
+  cursor_at: string
+  id: number
+}
+
+/**
+ * Queries fetch one row more than the limit; if it came back there is
+ * another page, which starts after the last row kept.
+ */
+export function paginate<T extends CursorRow>(
+  rows: T[],
+  limit: number
+): { rows: T[]; next_cursor: string | null } {
+  if (rows.length <= limit) return { rows, next_cursor: null }
+  const page = rows.slice(0, limit)
+  const last = page[page.length - 1]
+  return { rows: page, next_cursor: encodeCursor({ at: last.cursor_at, id: last.id }) }
+}
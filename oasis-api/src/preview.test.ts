@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { PreviewJournalSchema } from './schemas'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('PreviewJournalSchema', () => {
+  test('accepts empty drafts', () => {
+    expect(PreviewJournalSchema.safeParse({ content: '' }).success).toBe(true)
+  })
+
+  test('accepts a null excerpt', () => {
+    expect(PreviewJournalSchema.safeParse({ content: 'Hello', excerpt: null }).success).toBe(true)
+  })
+
+  test('requires content', () => {
+    expect(PreviewJournalSchema.safeParse({ excerpt: 'x' }).success).toBe(false)
+  })
+})
+
+describe('POST /api/journal/preview', () => {
+  const route = section("app.post('/api/journal/preview'")
+
+  test('requires auth and validates the body', () => {
+    expect(route).toContain('requireAuth')
+    expect(route).toContain('parseBody(PreviewJournalSchema, body)')
+  })
+
+  test('derives metadata the same way as the public post endpoint', () => {
+    expect(route).toContain('generateExcerpt(content)')
+    expect(route).toContain('calculateReadingTime(content)')
+    expect(route).toContain('loadImageAssets(content)')
+  })
+
+  test('does not write to the database', () => {
+    expect(route).not.toContain('INSERT')
+    expect(route).not.toContain('UPDATE')
+  })
+})
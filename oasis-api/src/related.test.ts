@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function fn(name: string): string {
+  const start = indexSrc.indexOf(`async function ${name}`)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n}', start))
+}
+
+describe('adjacent posts', () => {
+  const src = fn('loadAdjacentPosts')
+
+  test('only considers published posts', () => {
+    expect(src.match(/is_public = true AND published_at IS NOT NULL AND published_at <= NOW\(\) AND deleted_at IS NULL/g)!.length).toBe(2)
+  })
+
+  test('orders by publish date with id as the tie-breaker', () => {
+    expect(src).toContain('(published_at, id) < (${entry.published_at}, ${entry.id})')
+    expect(src).toContain('ORDER BY published_at DESC, id DESC')
+    expect(src).toContain('(published_at, id) > (${entry.published_at}, ${entry.id})')
+    expect(src).toContain('ORDER BY published_at ASC, id ASC')
+  })
+})
+
+describe('related posts', () => {
+  const src = fn('loadRelatedPosts')
+
+  test('queries with the post\'s most frequent search terms', () => {
+    expect(src).toContain('unnest(search_vector)')
+    expect(src).toContain('ORDER BY array_length(positions, 1) DESC')
+    expect(src).toContain("to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))")
+  })
+
+  test('ranks other published posts by similarity', () => {
+    expect(src).toContain('e.id <> ${entryId} AND e.search_vector @@ q.query')
+    expect(src).toContain('e.is_public = true AND e.published_at IS NOT NULL AND e.published_at <= NOW()')
+    expect(src).toContain('e.deleted_at IS NULL')
+    expect(src).toContain('ORDER BY ts_rank(e.search_vector, q.query) DESC')
+    expect(src).toContain('LIMIT ${RELATED_POST_LIMIT}')
+  })
+})
+
+describe('public post payload', () => {
+  test('includes adjacent and related posts', () => {
+    const src = fn('getPublishedPost')
+    expect(src).toContain('loadAdjacentPosts(')
+    expect(src).toContain('loadRelatedPosts(p.id)')
+    expect(src).toContain('adjacent,')
+    expect(src).toContain('related,')
+  })
+})
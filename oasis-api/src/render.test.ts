@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { renderPostPage, buildHeadTags, toScriptJson, FALLBACK_TEMPLATE, type PagePost } from './render'
+
+const root = resolve(__dirname, '../..')
+const template = readFileSync(resolve(root, 'oasis-web/index.html'), 'utf-8')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const opts = { siteUrl: 'https://example.com/', siteName: 'Test Blog' }
+
+const post: PagePost = {
+  slug: 'hello-world',
+  title: 'Hello "World" & <Friends>',
+  content: '# Intro\n\nSome **bold** text.\n\n</script><script>alert(1)</script>',
+  excerpt: 'A short & sweet excerpt',
+  published_at: new Date('2025-02-01T12:00:00Z'),
+  updated_at: '2025-02-03T08:00:00Z',
+  reading_time: 1,
+  tags: ['homelab', 'math'],
+}
+
+describe('toScriptJson()', () => {
+  test('cannot close the surrounding script tag', () => {
+    const json = toScriptJson({ content: '</script><script>' })
+    expect(json).not.toContain('</script>')
+    expect(JSON.parse(json)).toEqual({ content: '</script><script>' })
+  })
+})
+
+describe('buildHeadTags()', () => {
+  const head = buildHeadTags(post, opts)
+
+  test('includes escaped title and description', () => {
+    expect(head).toContain('<title>Hello &quot;World&quot; &amp; &lt;Friends&gt; · Test Blog</title>')
+    expect(head).toContain('<meta name="description" content="A short &amp; sweet excerpt" />')
+  })
+
+  test('includes Open Graph and Twitter tags', () => {
+    expect(head).toContain('<meta property="og:type" content="article" />')
+    expect(head).toContain('<meta property="og:url" content="https://example.com/blog/hello-world" />')
+    expect(head).toContain('<meta property="article:published_time" content="2025-02-01T12:00:00.000Z" />')
+    expect(head).toContain('<meta property="article:tag" content="math" />')
+    expect(head).toContain('<meta name="twitter:card" content="summary" />')
+    expect(head).toContain('<link rel="canonical" href="https://example.com/blog/hello-world" />')
+  })
+
+  test('includes BlogPosting JSON-LD', () => {
+    const match = head.match(/<script type="application\/ld\+json">(.*)<\/script>/)
+    expect(match).not.toBeNull()
+    const data = JSON.parse(match![1])
+    expect(data['@type']).toBe('BlogPosting')
+    expect(data.headline).toBe(post.title)
+    expect(data.dateModified).toBe('2025-02-03T08:00:00.000Z')
+    expect(data.keywords).toBe('homelab, math')
+  })
+})
+
+describe('renderPostPage()', () => {
+  const html = renderPostPage(template, post, opts)
+
+  test('replaces the generic title with the post title', () => {
+    expect(html.match(/<title>/g)!.length).toBe(1)
+    expect(html).not.toContain('<title>ash1 oasis</title>')
+  })
+
+  test('keeps the SPA bundle and head assets', () => {
+    expect(html).toContain('<script type="module" src="/src/main.tsx"></script>')
+    expect(html).toContain('ash1-theme')
+  })
+
+  test('prerenders the article inside #root', () => {
+    expect(html).toContain('<div id="root"><article>')
+    expect(html).toContain('<strong>bold</strong>')
+  })
+
+  test('does not pass raw HTML from the post through', () => {
+    const page = renderPostPage(template, { ...post, content: 'Hi\n\n<iframe src="https://evil.test"></iframe>' }, opts)
+    const article = page.slice(page.indexOf('<div id="root">'), page.indexOf('</article>'))
+    expect(article).not.toContain('<iframe')
+    expect(article).toContain('&lt;iframe')
+  })
+
+  test('embeds the post for the client', () => {
+    const match = html.match(/<script>window\.__INITIAL_POST__ = (.*)<\/script>/)
+    expect(match).not.toBeNull()
+    expect(JSON.parse(match![1]).slug).toBe('hello-world')
+  })
+
+  test('works with the fallback template', () => {
+    const fallback = renderPostPage(FALLBACK_TEMPLATE, post, opts)
+    expect(fallback).toContain('<meta property="og:title"')
+    expect(fallback).toContain('<div id="root"><article>')
+  })
+
+  test('is not confused by replacement patterns in post text', () => {
+    const tricky = renderPostPage(template, { ...post, title: "$& $' $`" }, opts)
+    expect(tricky).toContain("<title>$&amp; $&apos; $` · Test Blog</title>")
+  })
+})
+
+describe('post page route', () => {
+  test('renders from the SPA template and 301s retired slugs', () => {
+    const start = indexSrc.indexOf("app.get('/api/journal/slug/:slug/page'")
+    expect(start).toBeGreaterThan(-1)
+    const section = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+    expect(section).toContain('return c.redirect(`/blog/${post.slug}`, 301)')
+    expect(section).toContain('renderPostPage(template, post')
+  })
+
+  test('BlogPostPage picks up the embedded post', () => {
+    const page = readFileSync(resolve(root, 'oasis-web/src/pages/BlogPostPage.tsx'), 'utf-8')
+    expect(page).toContain('window.__INITIAL_POST__')
+    expect(page).toContain('useState<BlogPost | null>(() => getInitialPost(slug))')
+  })
+})
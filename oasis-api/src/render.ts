@@ -0,0 +1,152 @@
+import { escapeXml, renderMarkdown, postUrl } from './feed'
+import type { ImageAsset } from './images'
+import type { PostSeries } from './series'
+import type { PostMention } from './webmention'
+
+/**
+ * Server-rendered blog post pages.
+ *
+ * The SPA's built index.html is used as the template so the page boots the
+ * normal bundle. Crawlers and link unfurlers get the metadata in <head> and
+ * the article markup inside #root; the client replaces it on mount, picking
+ * the post up from window.__INITIAL_POST__ instead of refetching it.
+ */
+
+export interface PostLink {
+  slug: string
+  title: string
+}
+
+export interface AdjacentPosts {
+  previous: PostLink | null
+  next: PostLink | null
+}
+
+export interface RelatedPost extends PostLink {
+  excerpt: string
+  published_at: Date | string
+}
+
+export interface PagePost {
+  slug: string
+  title: string
+  content: string
+  excerpt: string
+  published_at: Date | string
+  updated_at: Date | string
+  reading_time: number
+  tags: string[]
+  /** Srcset data for uploaded images, keyed by the URL used in the content */
+  assets?: Record<string, ImageAsset>
+  series?: PostSeries | null
+  adjacent?: AdjacentPosts
+  related?: RelatedPost[]
+  /** Approved Webmentions, oldest first */
+  mentions?: PostMention[]
+}
+
+export interface PageOptions {
+  siteUrl: string
+  siteName: string
+}
+
+// Used when the SPA template can't be fetched — still a readable page
+export const FALLBACK_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title></title>
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>
+`
+
+function toIso(value: Date | string): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString()
+}
+
+/**
+ * Serialize for embedding inside a <script> element. Escaping "<" keeps a
+ * "</script>" in the post body from closing the tag early.
+ */
+export function toScriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+export function buildHeadTags(post: PagePost, opts: PageOptions): string {
+  const url = postUrl(opts.siteUrl, post.slug)
+  const title = escapeXml(post.title)
+  const description = escapeXml(post.excerpt)
+
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.excerpt,
+    datePublished: toIso(post.published_at),
+    dateModified: toIso(post.updated_at),
+    url,
+    mainEntityOfPage: url,
+    keywords: post.tags.join(', ') || undefined,
+    author: { '@type': 'Person', name: opts.siteName },
+    publisher: { '@type': 'Organization', name: opts.siteName },
+  }
+
+  return [
+    `<title>${title} · ${escapeXml(opts.siteName)}</title>`,
+    `<meta name="description" content="${description}" />`,
+    `<link rel="canonical" href="${escapeXml(url)}" />`,
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:site_name" content="${escapeXml(opts.siteName)}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${escapeXml(url)}" />`,
+    `<meta property="article:published_time" content="${toIso(post.published_at)}" />`,
+    `<meta property="article:modified_time" content="${toIso(post.updated_at)}" />`,
+    ...post.tags.map((tag) => `<meta property="article:tag" content="${escapeXml(tag)}" />`),
+    `<meta name="twitter:card" content="summary" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<script type="application/ld+json">${toScriptJson(jsonLd)}</script>`,
+  ].join('\n    ')
+}
+
+export function buildArticleHtml(post: PagePost): string {
+  const date = new Date(toIso(post.published_at)).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+
+  return `<article>
+      <header>
+        <h1>${escapeXml(post.title)}</h1>
+        <p><time datetime="${toIso(post.published_at)}">${date}</time> · ${post.reading_time} min read</p>
+      </header>
+      ${renderMarkdown(post.content)}
+    </article>`
+}
+
+/**
+ * Fill the SPA template with the post's metadata, markup, and initial data.
+ */
+export function renderPostPage(template: string, post: PagePost, opts: PageOptions): string {
+  const initialData = `<script>window.__INITIAL_POST__ = ${toScriptJson(post)}</script>`
+
+  return template
+    // The template's generic title/description are replaced by the post's
+    .replace(/<title>[\s\S]*?<\/title>\s*/i, '')
+    .replace(/<meta\s+name="description"[^>]*>\s*/i, '')
+    .replace('</head>', () => `  ${buildHeadTags(post, opts)}\n  </head>`)
+    .replace(
+      /<div id="root"><\/div>/,
+      () => `<div id="root">${buildArticleHtml(post)}</div>\n    ${initialData}`
+    )
+}
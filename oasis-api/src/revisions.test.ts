@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { shouldSnapshot, REVISION_COALESCE_MS } from './revisions'
+import { diffLines } from '../../oasis-web/src/lib/diff'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+describe('shouldSnapshot()', () => {
+  const now = new Date('2025-03-01T12:00:00Z')
+  const current = { title: 'Title', content: 'Old body', excerpt: null }
+
+  test('skips saves that change nothing', () => {
+    expect(shouldSnapshot(current, { ...current }, null, now)).toBe(false)
+  })
+
+  test('snapshots when there is no prior revision', () => {
+    expect(shouldSnapshot(current, { ...current, content: 'New body' }, null, now)).toBe(true)
+  })
+
+  test('snapshots on title-only changes', () => {
+    expect(shouldSnapshot(current, { ...current, title: 'Renamed' }, null, now)).toBe(true)
+  })
+
+  test('snapshots on excerpt-only changes', () => {
+    expect(shouldSnapshot(current, { ...current, excerpt: 'A summary' }, null, now)).toBe(true)
+  })
+
+  test('coalesces edits inside the window', () => {
+    const recent = new Date(now.getTime() - 30_000)
+    expect(shouldSnapshot(current, { ...current, content: 'New body' }, recent, now)).toBe(false)
+  })
+
+  test('snapshots again once the window has elapsed', () => {
+    const old = new Date(now.getTime() - REVISION_COALESCE_MS).toISOString()
+    expect(shouldSnapshot(current, { ...current, content: 'New body' }, old, now)).toBe(true)
+  })
+})
+
+describe('diffLines()', () => {
+  test('identical texts are all unchanged rows', () => {
+    const rows = diffLines('a\nb', 'a\nb')
+    expect(rows.every((r) => r.type === 'same')).toBe(true)
+    expect(rows.length).toBe(2)
+  })
+
+  test('pairs an edited line side by side', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { type: 'same', left: 'a', right: 'a' },
+      { type: 'changed', left: 'b', right: 'B' },
+      { type: 'same', left: 'c', right: 'c' },
+    ])
+  })
+
+  test('reports pure additions and removals', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toContainEqual({ type: 'added', left: null, right: 'b' })
+    expect(diffLines('a\nb\nc', 'a\nc')).toContainEqual({ type: 'removed', left: 'b', right: null })
+  })
+})
+
+describe('11-revisions.sql migration', () => {
+  const sql = readFileSync(resolve(root, 'scripts/db/init/11-revisions.sql'), 'utf-8')
+
+  test('creates journal.revisions cascading from entries', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS journal.revisions')
+    expect(sql).toMatch(/REFERENCES journal\.entries\(id\) ON DELETE CASCADE/)
+  })
+
+  test('indexes revisions by entry', () => {
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_journal_revisions_entry')
+  })
+})
+
+describe('revision routes', () => {
+  test('list, fetch, and restore routes require auth', () => {
+    expect(indexSrc).toContain("app.get('/api/journal/:id/revisions', requireAuth")
+    expect(indexSrc).toContain("app.get('/api/journal/:id/revisions/:rev', requireAuth")
+    expect(indexSrc).toContain("app.post('/api/journal/:id/revisions/:rev/restore', requireAuth")
+  })
+
+  test('PUT snapshots the entry before overwriting it', () => {
+    const putStart = indexSrc.indexOf("app.put('/api/journal/:id'")
+    const putSection = indexSrc.slice(putStart, indexSrc.indexOf('app.delete(', putStart))
+    expect(putSection).toContain('shouldSnapshot(')
+    expect(putSection.indexOf('insertRevision(')).toBeLessThan(putSection.indexOf('UPDATE journal.entries'))
+  })
+
+  test('restore snapshots the current version first', () => {
+    const start = indexSrc.indexOf("'/api/journal/:id/revisions/:rev/restore'")
+    const section = indexSrc.slice(start, indexSrc.indexOf('// ─── Protected: Project Planning', start))
+    expect(section.indexOf('insertRevision(')).toBeLessThan(section.indexOf('UPDATE journal.entries'))
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * Autosave fires every couple of seconds while typing. Rather than one
+ * revision per keystroke burst, a new snapshot is taken at most once per
+ * window — the snapshot holds the entry as it was before the burst began.
+ */
+export const REVISION_COALESCE_MS = 5 * 60 * 1000
+
+export interface RevisionSource {
+  title: string
+  content: string
+  excerpt: string | null
+}
+
+/**
+ * Decide whether a PUT should snapshot the current entry before overwriting it.
+ */
+export function shouldSnapshot(
+  current: RevisionSource,
+  incoming: RevisionSource,
+  lastRevisionAt: Date | string | null,
+  now: Date = new Date()
+): boolean {
+  // Nothing is about to be lost
+  if (current.title === incoming.title && current.content === incoming.content && current.excerpt === incoming.excerpt) {
+    return false
+  }
+  if (!lastRevisionAt) return true
+  return now.getTime() - new Date(lastRevisionAt).getTime() >= REVISION_COALESCE_MS
+}
@@ -0,0 +1,127 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { createPublishScheduler, type LivePost } from './scheduler'
+import { UpdateJournalSchema, CreateJournalSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function post(id: number): LivePost {
+  return { id, slug: `post-${id}`, title: `Post ${id}`, published_at: new Date() }
+}
+
+describe('createPublishScheduler()', () => {
+  test('emits each claimed post to every listener', async () => {
+    const scheduler = createPublishScheduler(async () => [post(1), post(2)])
+    const a: number[] = []
+    const b: number[] = []
+    scheduler.onPostLive((p) => { a.push(p.id) })
+    scheduler.onPostLive((p) => { b.push(p.id) })
+
+    await scheduler.tick()
+
+    expect(a).toEqual([1, 2])
+    expect(b).toEqual([1, 2])
+  })
+
+  test('unsubscribed listeners stop receiving events', async () => {
+    const scheduler = createPublishScheduler(async () => [post(1)])
+    const seen: number[] = []
+    const unsubscribe = scheduler.onPostLive((p) => { seen.push(p.id) })
+    unsubscribe()
+
+    await scheduler.tick()
+
+    expect(seen).toEqual([])
+  })
+
+  test('a failing listener does not block the others', async () => {
+    const scheduler = createPublishScheduler(async () => [post(1)])
+    const seen: number[] = []
+    scheduler.onPostLive(() => { throw new Error('boom') })
+    scheduler.onPostLive((p) => { seen.push(p.id) })
+
+    await scheduler.tick()
+
+    expect(seen).toEqual([1])
+  })
+
+  test('a failing claim is swallowed', async () => {
+    const scheduler = createPublishScheduler(async () => { throw new Error('db down') })
+    await expect(scheduler.tick()).resolves.toBeUndefined()
+  })
+
+  test('overlapping ticks are skipped', async () => {
+    let calls = 0
+    let release!: () => void
+    const gate = new Promise<void>((r) => { release = r })
+    const scheduler = createPublishScheduler(async () => {
+      calls++
+      await gate
+      return []
+    })
+
+    const first = scheduler.tick()
+    await scheduler.tick()
+    release()
+    await first
+
+    expect(calls).toBe(1)
+  })
+})
+
+describe('published_at in journal schemas', () => {
+  test('accepts an ISO timestamp with offset', () => {
+    const result = CreateJournalSchema.safeParse({
+      title: 'T', content: 'C', is_public: true, published_at: '2030-01-01T09:00:00.000Z',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  test('rejects a non-date string', () => {
+    const result = UpdateJournalSchema.safeParse({ title: 'T', content: 'C', published_at: 'tomorrow' })
+    expect(result.success).toBe(false)
+  })
+
+  test('update accepts null to unschedule', () => {
+    const result = UpdateJournalSchema.safeParse({ title: 'T', content: 'C', published_at: null })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe('scheduled publishing wiring', () => {
+  test('public list and slug lookup only show posts whose time has come', () => {
+    const publicSection = indexSrc.slice(
+      indexSrc.indexOf("app.get('/api/journal/public'"),
+      indexSrc.indexOf("app.get('/api/journal/:id'")
+    )
+    const livePredicates = publicSection.match(/published_at IS NOT NULL AND published_at <= NOW\(\)/g)
+    expect(livePredicates).not.toBeNull()
+    expect(livePredicates!.length).toBeGreaterThanOrEqual(3) // list, slug, adjacent posts
+  })
+
+  test('PUT honours an explicit published_at instead of always stamping now', () => {
+    expect(indexSrc).toContain("if ('published_at' in (body as any))")
+  })
+
+  test('PUT refuses to clear published_at on a public entry, before writing anything', () => {
+    const put = indexSrc.slice(indexSrc.indexOf("app.put('/api/journal/:id'"), indexSrc.indexOf("app.delete('/api/journal/:id'"))
+    const refusal = "if (nowPublic && 'published_at' in (body as any) && !parsed.data.published_at) {"
+    expect(put).toContain(refusal)
+    expect(put).toContain("fieldError('published_at', 'is required while the entry is public'), 400)")
+    expect(put.indexOf(refusal)).toBeLessThan(put.indexOf('insertRevision('))
+    expect(put.indexOf(refusal)).toBeLessThan(put.indexOf('UPDATE journal.entries'))
+  })
+
+  test('scheduler is created and started', () => {
+    expect(indexSrc).toContain('createPublishScheduler(')
+    expect(indexSrc).toContain('publishScheduler.start()')
+  })
+
+  test('10-publish-schedule.sql creates the announcements table with backfill', () => {
+    const sql = readFileSync(resolve(root, 'scripts/db/init/10-publish-schedule.sql'), 'utf-8')
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS journal.post_announcements')
+    expect(sql).toContain('ON CONFLICT (entry_id) DO NOTHING')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * In-process publish scheduler.
+ *
+ * Posts with a future published_at become visible on their own — the public
+ * queries compare against NOW(). The scheduler exists so the rest of the API
+ * can react to that moment: it polls for posts that have gone live since the
+ * last tick and emits a "post live" event for each one.
+ */
+
+export interface LivePost {
+  id: number
+  slug: string
+  title: string
+  published_at: Date
+}
+
+export type PostLiveListener = (post: LivePost) => void | Promise<void>
+
+export interface PublishScheduler {
+  /** Subscribe to "post went live" events. Returns an unsubscribe function. */
+  onPostLive: (listener: PostLiveListener) => () => void
+  /** Run one poll immediately. Overlapping calls are skipped. */
+  tick: () => Promise<void>
+  start: () => void
+  stop: () => void
+}
+
+/**
+ * @param claimNewlyLive returns posts that went live and haven't been announced
+ *   yet, marking them announced in the same step so each post is emitted once.
+ */
+export function createPublishScheduler(
+  claimNewlyLive: () => Promise<LivePost[]>,
+  intervalMs = 60_000
+): PublishScheduler {
+  const listeners = new Set<PostLiveListener>()
+  let timer: ReturnType<typeof setInterval> | null = null
+  let ticking = false
+
+  async function emit(post: LivePost) {
+    for (const listener of listeners) {
+      try {
+        await listener(post)
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error'
+        console.error(`Post-live listener failed for ${post.slug}: ${msg}`)
+      }
+    }
+  }
+
+  async function tick() {
+    if (ticking) return
+    ticking = true
+    try {
+      const posts = await claimNewlyLive()
+      for (const post of posts) {
+        await emit(post)
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`Publish scheduler tick failed: ${msg}`)
+    } finally {
+      ticking = false
+    }
+  }
+
+  return {
+    onPostLive(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    tick,
+    start() {
+      if (timer) return
+      timer = setInterval(tick, intervalMs)
+      void tick()
+    },
+    stop() {
+      if (timer) clearInterval(timer)
+      timer = null
+    },
+  }
+}
@@ -340,4 +340,13 @@ describe('parseBody', () => {
       expect(result.error.length).toBeGreaterThan(0)
     }
   })
+
+  test('lists each invalid field by its path', () => {
+    const result = parseBody(CreateProjectSchema, { title: '', steps: [{ title: 'ok' }, { title: '' }] })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.fields.map((f) => f.field)).toEqual(['title', 'steps.1.title'])
+      expect(result.error).toContain('steps.1.title: ')
+    }
+  })
 })
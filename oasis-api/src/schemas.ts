@@ -1,25 +1,152 @@
 import { z } from 'zod'
+import { ERROR_CODES, type FieldError } from './errors'
 
 // ─── Journal Schemas ─────────────────────────────────────────────────────────
 
 const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
 
+// Tags share the slug format so they can be used directly in /blog/tag/:tag
+export const TagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(64)
+  .regex(slugPattern, 'Tag must be lowercase alphanumeric with hyphens')
+
+const TagsSchema = z.array(TagSchema).max(20)
+
+export const SlugSchema = z
+  .string()
+  .max(255)
+  .regex(slugPattern, 'Slug must be lowercase alphanumeric with hyphens')
+
 export const CreateJournalSchema = z.object({
   title: z.string().min(1).max(255),
   content: z.string().min(1),
   is_public: z.boolean().optional().default(false),
-  slug: z.string().max(255).regex(slugPattern, 'Slug must be lowercase alphanumeric with hyphens').optional(),
+  slug: SlugSchema.optional(),
   excerpt: z.string().optional(),
+  tags: TagsSchema.optional(),
+  published_at: z.iso.datetime({ offset: true }).optional(),
 })
 
 export const UpdateJournalSchema = z.object({
   title: z.string().min(1).max(255),
   content: z.string().min(1),
   is_public: z.boolean().optional(),
-  slug: z.string().max(255).regex(slugPattern, 'Slug must be lowercase alphanumeric with hyphens').optional().nullable(),
+  slug: SlugSchema.optional().nullable(),
   excerpt: z.string().optional().nullable(),
+  tags: TagsSchema.optional(),
+  published_at: z.iso.datetime({ offset: true }).optional().nullable(),
+  // The updated_at the client last saw; a stale one is refused with 409
+  updated_at: z.iso.datetime({ offset: true }).optional(),
+})
+
+// Entry ids in reading order; an entry can appear only once
+const SeriesEntryIdsSchema = z
+  .array(z.number().int().positive())
+  .max(100)
+  .refine((ids) => new Set(ids).size === ids.length, { message: 'Entries must be unique' })
+
+export const CreateSeriesSchema = z.object({
+  title: z.string().min(1).max(255),
+  entry_ids: SeriesEntryIdsSchema.optional().default([]),
 })
 
+export const UpdateSeriesSchema = z
+  .object({
+    title: z.string().min(1).max(255).optional(),
+    entry_ids: SeriesEntryIdsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+// Unsaved editor content; may be empty while the user is still writing
+export const PreviewJournalSchema = z.object({
+  content: z.string(),
+  excerpt: z.string().optional().nullable(),
+})
+
+export const CreateShareLinkSchema = z.object({
+  expires_in_days: z.number().int().min(1).max(90).optional().default(7),
+})
+
+// One entry from a markdown archive: front matter fields plus the body.
+// Dates may be hand-written (2024-03-01) as well as full ISO timestamps.
+export const ImportEntrySchema = z.object({
+  id: z.number().int().positive().optional(),
+  title: z.string().min(1).max(255),
+  content: z.string().min(1),
+  slug: SlugSchema.optional().nullable(),
+  excerpt: z.string().optional().nullable(),
+  is_public: z.boolean().optional(),
+  tags: TagsSchema.optional(),
+  published_at: z.coerce.date().optional().nullable(),
+  created_at: z.coerce.date().optional(),
+})
+
+export type ImportEntry = z.infer<typeof ImportEntrySchema>
+
+// ─── Webmention Schemas ─────────────────────────────────────────────────────
+
+const MentionUrlSchema = z
+  .string()
+  .max(2048)
+  .refine((value) => /^https?:\/\//i.test(value) && URL.canParse(value), {
+    message: 'Must be an http(s) URL',
+  })
+
+// Form fields of an incoming Webmention
+export const ReceiveWebmentionSchema = z
+  .object({
+    source: MentionUrlSchema,
+    target: MentionUrlSchema,
+  })
+  .refine((data) => data.source !== data.target, {
+    message: 'Source and target must differ',
+  })
+
+export const ModerateWebmentionSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']),
+})
+
+// ─── Page Schemas ───────────────────────────────────────────────────────────
+
+// Top-level paths the site already uses; a page at /:slug can't shadow them
+export const RESERVED_PAGE_SLUGS = [
+  'api', 'assets', 'blog', 'dashboard', 'journal', 'login', 'media', 'pages', 'preview', 'projects',
+]
+
+const PageSlugSchema = SlugSchema.min(1).refine((slug) => !RESERVED_PAGE_SLUGS.includes(slug), {
+  message: 'Slug is reserved for a built-in route',
+})
+
+export const CreatePageSchema = z.object({
+  title: z.string().min(1).max(255),
+  content: z.string().optional().default(''),
+  slug: PageSlugSchema.optional(),
+  is_public: z.boolean().optional().default(false),
+  show_in_nav: z.boolean().optional().default(false),
+  nav_label: z.string().trim().max(64).optional().nullable(),
+  nav_order: z.number().int().optional().default(0),
+})
+
+export const UpdatePageSchema = z
+  .object({
+    title: z.string().min(1).max(255).optional(),
+    content: z.string().optional(),
+    slug: PageSlugSchema.optional(),
+    is_public: z.boolean().optional(),
+    show_in_nav: z.boolean().optional(),
+    nav_label: z.string().trim().max(64).optional().nullable(),
+    nav_order: z.number().int().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
 // ─── Slug helper ────────────────────────────────────────────────────────────
 
 export function slugify(title: string): string {
@@ -32,6 +159,18 @@ export function slugify(title: string): string {
     .replace(/^-|-$/g, '')
 }
 
+/**
+ * First free variant of `base`: the base itself, then base-2, base-3, ...
+ */
+export function uniqueSlug(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base
+  for (let n = 2; ; n++) {
+    const suffix = `-${n}`
+    const candidate = `${base.slice(0, 255 - suffix.length).replace(/-+$/, '')}${suffix}`
+    if (!taken.has(candidate)) return candidate
+  }
+}
+
 // ─── Step Schemas ────────────────────────────────────────────────────────────
 
 type StepInputType = {
@@ -98,19 +237,240 @@ export const GenerateStepsSchema = z.object({
   description: z.string().optional(),
 })
 
+// ─── Response Schemas ────────────────────────────────────────────────────────
+// What the API returns. Not used to validate anything: they document the
+// responses in /api/openapi.json, from which oasis-client's types are generated.
+
+const Timestamp = z.iso.datetime()
+const Meta = z.record(z.string(), z.unknown())
+
+export const SuccessSchema = z.object({ success: z.literal(true) })
+
+export const JournalEntrySchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  content: z.string(),
+  is_public: z.boolean(),
+  // Not sent to anonymous readers
+  user_id: z.string().nullable().optional(),
+  slug: z.string().nullable().optional(),
+  excerpt: z.string().nullable().optional(),
+  published_at: Timestamp.nullable().optional(),
+  // Single entries only, not lists
+  tags: z.array(z.string()).optional(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+})
+
+export const JournalEntryResponseSchema = z.object({ entry: JournalEntrySchema })
+
+// Pass next_cursor back as ?after= for the following page; null on the last one
+const NextCursor = z.string().nullable()
+
+export const JournalListResponseSchema = z.object({
+  entries: z.array(JournalEntrySchema),
+  next_cursor: NextCursor,
+  limit: z.number().int(),
+})
+
+export const PostSummarySchema = z.object({
+  slug: z.string(),
+  title: z.string(),
+  excerpt: z.string(),
+  published_at: Timestamp,
+  reading_time: z.number().int(),
+  tags: z.array(z.string()),
+})
+
+export const PublicPostsResponseSchema = z.object({
+  posts: z.array(PostSummarySchema),
+  next_cursor: NextCursor,
+  limit: z.number().int(),
+  tag: z.string().nullable(),
+})
+
+export const SlugAvailabilitySchema = z.object({
+  slug: z.string(),
+  available: z.boolean(),
+  suggestion: z.string().nullable(),
+})
+
+export const ImageAssetSchema = z.object({
+  width: z.number().int(),
+  height: z.number().int(),
+  srcset: z.string(),
+  webp_srcset: z.string().nullable(),
+})
+
+export const MediaAssetSchema = z.object({
+  id: z.number().int(),
+  filename: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  sha256: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  variants: z.array(z.object({ width: z.number().int(), format: z.enum(['png', 'jpg', 'webp']) })),
+  url: z.string(),
+  created_at: Timestamp,
+})
+
+export const DraftPreviewResponseSchema = z.object({
+  preview: z.object({
+    excerpt: z.string(),
+    reading_time: z.number().int(),
+    assets: z.record(z.string(), ImageAssetSchema),
+  }),
+})
+
+export const TrashedEntrySchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  content: z.string(),
+  is_public: z.boolean(),
+  slug: z.string().nullable(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+  deleted_at: Timestamp,
+  purge_at: Timestamp,
+})
+
+export const TrashResponseSchema = z.object({
+  entries: z.array(TrashedEntrySchema),
+  retention_days: z.number().int(),
+})
+
+export const RevisionSummarySchema = z.object({
+  id: z.number().int(),
+  entry_id: z.number().int(),
+  title: z.string(),
+  content_length: z.number().int(),
+  created_at: Timestamp,
+})
+
+export const RevisionSchema = z.object({
+  id: z.number().int(),
+  entry_id: z.number().int(),
+  title: z.string(),
+  content: z.string(),
+  excerpt: z.string().nullable(),
+  created_at: Timestamp,
+})
+
+export const ShareLinkSchema = z.object({
+  id: z.number().int(),
+  token: z.string(),
+  url: z.string(),
+  expires_at: Timestamp,
+  created_at: Timestamp,
+})
+
+const ImportedFileSchema = z.object({ file: z.string(), id: z.number().int(), slug: z.string().nullable() })
+
+export const ImportReportSchema = z.object({
+  created: z.array(ImportedFileSchema),
+  updated: z.array(ImportedFileSchema),
+  unchanged: z.array(ImportedFileSchema),
+  conflicts: z.array(z.object({ file: z.string(), slug: z.string().nullable(), reason: z.string() })),
+  errors: z.array(z.object({ file: z.string(), error: z.string() })),
+})
+
+export const WebmentionSchema = z.object({
+  id: z.number().int(),
+  entry_id: z.number().int(),
+  entry_title: z.string(),
+  entry_slug: z.string().nullable(),
+  source: z.string(),
+  target: z.string(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  type: z.enum(['like', 'repost', 'reply', 'mention']),
+  author_name: z.string().nullable(),
+  author_url: z.string().nullable(),
+  content: z.string().nullable(),
+  published_at: Timestamp.nullable(),
+  verified_at: Timestamp.nullable(),
+  created_at: Timestamp,
+})
+
+export const PageLinkSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  slug: z.string(),
+  is_public: z.boolean(),
+  show_in_nav: z.boolean(),
+  nav_label: z.string().nullable(),
+  nav_order: z.number().int(),
+})
+
+export const PageSchema = PageLinkSchema.extend({
+  content: z.string(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+})
+
+export const ProjectSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  status: z.enum(['active', 'paused', 'completed', 'archived']),
+  meta: Meta,
+  created_at: Timestamp,
+  updated_at: Timestamp,
+})
+
+export const ProjectSummarySchema = ProjectSchema.extend({
+  total_steps: z.number().int(),
+  completed_steps: z.number().int(),
+})
+
+export const StepSchema = z.object({
+  id: z.number().int(),
+  project_id: z.number().int(),
+  parent_id: z.number().int().nullable(),
+  title: z.string(),
+  description: z.string(),
+  status: z.enum(['pending', 'active', 'completed', 'skipped']),
+  sort_order: z.number().int(),
+  meta: Meta,
+  created_at: Timestamp,
+  updated_at: Timestamp,
+  completed_at: Timestamp.nullable(),
+})
+
+type GeneratedStepType = { title: string; description: string; children?: GeneratedStepType[] }
+
+export const GeneratedStepSchema: z.ZodType<GeneratedStepType> = z.lazy(() =>
+  z.object({
+    title: z.string(),
+    description: z.string(),
+    children: z.array(GeneratedStepSchema).optional(),
+  })
+)
+
+// The error envelope from errors.ts; some errors add keys beside `error`
+export const ErrorResponseSchema = z.looseObject({
+  error: z.object({
+    code: z.enum(ERROR_CODES),
+    message: z.string(),
+    fields: z.array(z.object({ field: z.string(), message: z.string() })),
+  }),
+})
+
 // ─── Parse helper ────────────────────────────────────────────────────────────
 
 export function parseBody<T>(
   schema: z.ZodType<T>,
   body: unknown
-): { success: true; data: T } | { success: false; error: string } {
+): { success: true; data: T } | { success: false; error: string; fields: FieldError[] } {
   const result = schema.safeParse(body)
   if (result.success) {
     return { success: true, data: result.data }
   }
 
-  const messages = result.error.issues.map(
-    (issue) => `${issue.path.join('.')}: ${issue.message}`
-  )
-  return { success: false, error: messages.join('; ') }
+  const fields = result.error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }))
+  const messages = fields.map(({ field, message }) => `${field}: ${message}`)
+  return { success: false, error: messages.join('; '), fields }
 }
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, HEADLINE_OPTIONS, parseHeadline } from './search'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const hl = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_STOP}`
+
+describe('parseHeadline()', () => {
+  test('returns a single plain segment when nothing is highlighted', () => {
+    expect(parseHeadline('just text')).toEqual([{ text: 'just text', match: false }])
+  })
+
+  test('splits highlighted terms into match segments', () => {
+    expect(parseHeadline(`set up ${hl('proxmox')} on the ${hl('homelab')}`)).toEqual([
+      { text: 'set up ', match: false },
+      { text: 'proxmox', match: true },
+      { text: ' on the ', match: false },
+      { text: 'homelab', match: true },
+    ])
+  })
+
+  test('handles a highlight at the very start and end', () => {
+    expect(parseHeadline(hl('calculus'))).toEqual([{ text: 'calculus', match: true }])
+  })
+
+  test('leaves HTML-like content as plain text', () => {
+    expect(parseHeadline('<script>alert(1)</script>')).toEqual([
+      { text: '<script>alert(1)</script>', match: false },
+    ])
+  })
+
+  test('handles empty input', () => {
+    expect(parseHeadline('')).toEqual([])
+  })
+})
+
+describe('HEADLINE_OPTIONS', () => {
+  test('uses the private-use highlight markers', () => {
+    expect(HEADLINE_OPTIONS).toContain(`StartSel="${HIGHLIGHT_START}"`)
+    expect(HEADLINE_OPTIONS).toContain(`StopSel="${HIGHLIGHT_STOP}"`)
+  })
+})
+
+describe('09-search.sql migration', () => {
+  const sql = readFileSync(resolve(root, 'scripts/db/init/09-search.sql'), 'utf-8')
+
+  test('adds a generated tsvector column over title and content', () => {
+    expect(sql).toMatch(/ADD COLUMN IF NOT EXISTS search_vector tsvector/)
+    expect(sql).toContain('GENERATED ALWAYS AS')
+    expect(sql).toContain("to_tsvector('english', coalesce(title, ''))")
+    expect(sql).toContain("to_tsvector('english', coalesce(content, ''))")
+  })
+
+  test('creates a GIN index', () => {
+    expect(sql).toMatch(/CREATE INDEX IF NOT EXISTS idx_journal_entries_search\s+ON journal\.entries USING GIN \(search_vector\)/)
+  })
+})
+
+describe('GET /api/journal/search', () => {
+  const searchSection = indexSrc.slice(
+    indexSrc.indexOf("app.get('/api/journal/search'"),
+    indexSrc.indexOf('// ─── Syndication feeds')
+  )
+
+  test('is defined before /api/journal/:id', () => {
+    const searchIdx = indexSrc.indexOf("'/api/journal/search'")
+    expect(searchIdx).toBeGreaterThan(-1)
+    expect(searchIdx).toBeLessThan(indexSrc.indexOf("'/api/journal/:id'"))
+  })
+
+  test('requires a query', () => {
+    expect(searchSection).toContain("'Query parameter q is required'")
+  })
+
+  test('scopes authenticated search to owned entries', () => {
+    expect(searchSection).toContain('(user_id = ${user.id} OR user_id IS NULL)')
+  })
+
+  test('scopes anonymous search to published posts', () => {
+    expect(searchSection).toContain('is_public = true AND published_at IS NOT NULL')
+  })
+
+  test('uses websearch_to_tsquery and ts_headline', () => {
+    expect(searchSection).toContain('websearch_to_tsquery')
+    expect(searchSection).toContain('ts_headline')
+  })
+})
@@ -0,0 +1,43 @@
+// Private-use code points mark highlighted terms in ts_headline output.
+// They can't collide with anything a user types, and the client renders
+// segments instead of injecting HTML.
+export const HIGHLIGHT_START = '\uE000'
+export const HIGHLIGHT_STOP = '\uE001'
+
+export const HEADLINE_OPTIONS = [
+  `StartSel="${HIGHLIGHT_START}"`,
+  `StopSel="${HIGHLIGHT_STOP}"`,
+  'MaxWords=35',
+  'MinWords=15',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ')
+
+export const MAX_QUERY_LENGTH = 200
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted segments.
+ */
+export function parseHeadline(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  let match = false
+  let buffer = ''
+
+  for (const ch of headline) {
+    if (ch === HIGHLIGHT_START || ch === HIGHLIGHT_STOP) {
+      if (buffer) segments.push({ text: buffer, match })
+      buffer = ''
+      match = ch === HIGHLIGHT_START
+      continue
+    }
+    buffer += ch
+  }
+  if (buffer) segments.push({ text: buffer, match })
+
+  return segments
+}
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { buildPostSeries, type SeriesPartRow } from './series'
+import { CreateSeriesSchema, UpdateSeriesSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+const rows: SeriesPartRow[] = [
+  { series_title: 'Homelab build', entry_id: 4, slug: 'rack', title: 'The rack' },
+  { series_title: 'Homelab build', entry_id: 9, slug: 'network', title: 'Networking' },
+  { series_title: 'Homelab build', entry_id: 2, slug: 'storage', title: 'Storage' },
+]
+
+describe('buildPostSeries()', () => {
+  test('lists parts in order with the current post index', () => {
+    expect(buildPostSeries(rows, 9)).toEqual({
+      title: 'Homelab build',
+      parts: [
+        { slug: 'rack', title: 'The rack' },
+        { slug: 'network', title: 'Networking' },
+        { slug: 'storage', title: 'Storage' },
+      ],
+      index: 1,
+    })
+  })
+
+  test('index is zero-based', () => {
+    expect(buildPostSeries(rows, 4)!.index).toBe(0)
+    expect(buildPostSeries(rows, 2)!.index).toBe(2)
+  })
+
+  test('returns null when the post is not in a series', () => {
+    expect(buildPostSeries([], 4)).toBeNull()
+    expect(buildPostSeries(rows, 99)).toBeNull()
+  })
+})
+
+describe('series schemas', () => {
+  test('create defaults to no entries', () => {
+    const result = CreateSeriesSchema.safeParse({ title: 'Homelab build' })
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.entry_ids).toEqual([])
+  })
+
+  test('rejects duplicate entries', () => {
+    expect(CreateSeriesSchema.safeParse({ title: 'x', entry_ids: [1, 2, 1] }).success).toBe(false)
+  })
+
+  test('update needs at least one field', () => {
+    expect(UpdateSeriesSchema.safeParse({}).success).toBe(false)
+    expect(UpdateSeriesSchema.safeParse({ entry_ids: [3, 1] }).success).toBe(true)
+  })
+})
+
+describe('series migration', () => {
+  const migration = readFileSync(resolve(root, 'scripts/db/init/16-series.sql'), 'utf-8')
+
+  test('orders entries and limits each entry to one series', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS journal.series (')
+    expect(migration).toContain('entry_id INTEGER NOT NULL UNIQUE REFERENCES journal.entries(id) ON DELETE CASCADE')
+    expect(migration).toContain('position INTEGER NOT NULL')
+  })
+})
+
+describe('series endpoints', () => {
+  test('management routes require auth and check ownership', () => {
+    for (const route of ["app.get('/api/series'", "app.post('/api/series'", "app.put('/api/series/:id'", "app.delete('/api/series/:id'"]) {
+      expect(section(route)).toContain('requireAuth')
+    }
+    expect(section("app.put('/api/series/:id'")).toContain('WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)')
+    expect(section("app.delete('/api/series/:id'")).toContain('WHERE id = ${id} AND (user_id = ${userId} OR user_id IS NULL)')
+  })
+
+  test('members must be the user\'s own live entries', () => {
+    expect(section("app.post('/api/series'")).toContain('verifyEntriesOwnership(entry_ids, userId)')
+    expect(section("app.put('/api/series/:id'")).toContain('verifyEntriesOwnership(entry_ids, userId)')
+  })
+
+  test('the public post includes its series, published parts only', () => {
+    expect(indexSrc).toContain('loadPostSeries(p.id),')
+    const start = indexSrc.indexOf('async function loadPostSeries')
+    const fn = indexSrc.slice(start, indexSrc.indexOf('\n}', start))
+    expect(fn).toContain('e.is_public = true AND e.published_at IS NOT NULL AND e.published_at <= NOW()')
+    expect(fn).toContain('e.deleted_at IS NULL')
+    expect(fn).toContain('ORDER BY se.position')
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * Series navigation for blog posts. A series orders its entries explicitly;
+ * readers only see the parts that are published.
+ */
+
+export interface SeriesPart {
+  slug: string
+  title: string
+}
+
+export interface PostSeries {
+  title: string
+  parts: SeriesPart[]
+  /** Zero-based position of the current post within parts */
+  index: number
+}
+
+export interface SeriesPartRow {
+  series_title: string
+  entry_id: number
+  slug: string
+  title: string
+}
+
+/**
+ * @param rows the series' published parts in reading order
+ * @param entryId the post being viewed; null if it isn't among the rows
+ */
+export function buildPostSeries(rows: SeriesPartRow[], entryId: number): PostSeries | null {
+  const index = rows.findIndex((row) => row.entry_id === entryId)
+  if (index === -1) return null
+
+  return {
+    title: rows[0].series_title,
+    parts: rows.map((row) => ({ slug: row.slug, title: row.title })),
+    index,
+  }
+}
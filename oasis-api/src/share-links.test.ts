@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { generateShareToken, isShareToken, shareLinkExpiry, shareUrl } from './share-links'
+import { CreateShareLinkSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+describe('share tokens', () => {
+  test('are 32 URL-safe characters and unique', () => {
+    const a = generateShareToken()
+    const b = generateShareToken()
+    expect(a).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(a).not.toBe(b)
+    expect(isShareToken(a)).toBe(true)
+  })
+
+  test('format check rejects anything else', () => {
+    expect(isShareToken('short')).toBe(false)
+    expect(isShareToken('a'.repeat(33))).toBe(false)
+    expect(isShareToken(`${'a'.repeat(31)}/`)).toBe(false)
+  })
+
+  test('expiry is counted in whole days from now', () => {
+    const now = new Date('2025-01-01T00:00:00Z')
+    expect(shareLinkExpiry(7, now).toISOString()).toBe('2025-01-08T00:00:00.000Z')
+  })
+
+  test('links point at the preview page', () => {
+    expect(shareUrl('abc')).toBe('/preview/abc')
+  })
+})
+
+describe('CreateShareLinkSchema', () => {
+  test('defaults to seven days', () => {
+    const result = CreateShareLinkSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.expires_in_days).toBe(7)
+  })
+
+  test('caps expiry at 90 days', () => {
+    expect(CreateShareLinkSchema.safeParse({ expires_in_days: 90 }).success).toBe(true)
+    expect(CreateShareLinkSchema.safeParse({ expires_in_days: 91 }).success).toBe(false)
+    expect(CreateShareLinkSchema.safeParse({ expires_in_days: 0 }).success).toBe(false)
+  })
+})
+
+describe('share links migration', () => {
+  const migration = readFileSync(resolve(root, 'scripts/db/init/17-share-links.sql'), 'utf-8')
+
+  test('stores unique tokens with expiry and revocation', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS journal.share_links')
+    expect(migration).toContain('token VARCHAR(64) NOT NULL UNIQUE')
+    expect(migration).toContain('expires_at TIMESTAMP WITH TIME ZONE NOT NULL')
+    expect(migration).toContain('revoked_at TIMESTAMP WITH TIME ZONE')
+  })
+})
+
+describe('share link endpoints', () => {
+  test('management routes require auth and entry ownership', () => {
+    for (const route of [
+      "app.get('/api/journal/:id/share-links'",
+      "app.post('/api/journal/:id/share-links'",
+      "app.delete('/api/journal/:id/share-links/:linkId'",
+    ]) {
+      const src = section(route)
+      expect(src).toContain('requireAuth')
+      expect(src).toContain('verifyEntryOwnership(id, userId)')
+    }
+  })
+
+  test('revoking marks the link instead of deleting it', () => {
+    expect(section("app.delete('/api/journal/:id/share-links/:linkId'")).toContain('SET revoked_at = NOW()')
+  })
+
+  test('shared entries are public but only for live, unrevoked links', () => {
+    const src = section("app.get('/api/journal/shared/:token'")
+    expect(src).not.toContain('requireAuth')
+    expect(src).toContain('revoked_at IS NULL AND expires_at > NOW()')
+    expect(src).toContain('deleted_at IS NULL')
+    expect(src).not.toContain('is_public')
+  })
+
+  test('shared entries are not cached or indexed', () => {
+    const src = section("app.get('/api/journal/shared/:token'")
+    expect(src).toContain("c.header('Cache-Control', 'private, no-store')")
+    expect(src).toContain("c.header('X-Robots-Tag', 'noindex')")
+  })
+})
@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto'
+
+/**
+ * Private share links: unguessable tokens granting read-only access to one
+ * entry, published or not, until they expire or are revoked.
+ */
+
+// 24 random bytes → 32 URL-safe characters
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+// Cheap format check so junk tokens never reach the database
+export function isShareToken(value: string): boolean {
+  return /^[A-Za-z0-9_-]{32}$/.test(value)
+}
+
+export function shareLinkExpiry(days: number, now = new Date()): Date {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+export function shareUrl(token: string): string {
+  return `/preview/${token}`
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { buildSitemap, buildRobotsTxt } from './sitemap'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const posts = [
+  { slug: 'second-post', updated_at: new Date('2025-02-03T08:00:00Z') },
+  { slug: 'first-post', updated_at: '2025-03-01T00:00:00Z' },
+]
+
+describe('buildSitemap()', () => {
+  const xml = buildSitemap(posts, 'https://example.com/')
+
+  test('is a sitemap urlset', () => {
+    expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>')
+    expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')
+  })
+
+  test('lists the index and every post', () => {
+    expect(xml.match(/<url>/g)!.length).toBe(3)
+    expect(xml).toContain('<loc>https://example.com/</loc>')
+    expect(xml).toContain('<loc>https://example.com/blog/second-post</loc>')
+    expect(xml).toContain('<loc>https://example.com/blog/first-post</loc>')
+  })
+
+  test('uses updated_at for lastmod, and the latest update for the index', () => {
+    expect(xml).toContain('<lastmod>2025-02-03T08:00:00.000Z</lastmod>')
+    expect(xml).toContain('<loc>https://example.com/</loc>\n    <lastmod>2025-03-01T00:00:00.000Z</lastmod>')
+  })
+
+  test('index has no lastmod when there are no posts', () => {
+    const empty = buildSitemap([], 'https://example.com')
+    expect(empty.match(/<url>/g)!.length).toBe(1)
+    expect(empty).not.toContain('<lastmod>')
+  })
+})
+
+describe('buildRobotsTxt()', () => {
+  const txt = buildRobotsTxt('https://example.com/')
+
+  test('disallows private sections', () => {
+    expect(txt).toContain('User-agent: *')
+    expect(txt).toContain('Disallow: /journal')
+    expect(txt).toContain('Disallow: /dashboard')
+    expect(txt).toContain('Disallow: /projects')
+    expect(txt).toContain('Disallow: /preview')
+  })
+
+  test('points crawlers at the sitemap', () => {
+    expect(txt).toContain('Sitemap: https://example.com/sitemap.xml')
+  })
+})
+
+describe('sitemap routes', () => {
+  test('sitemap uses the published-post predicate', () => {
+    const start = indexSrc.indexOf("app.get('/sitemap.xml'")
+    expect(start).toBeGreaterThan(-1)
+    const section = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+    expect(section).toContain('is_public = true AND published_at IS NOT NULL AND published_at <= NOW() AND deleted_at IS NULL')
+  })
+
+  test('nginx serves both at the site root', () => {
+    const conf = readFileSync(resolve(root, 'oasis-web/nginx.conf'), 'utf-8')
+    expect(conf).toContain('location = /sitemap.xml')
+    expect(conf).toContain('location = /robots.txt')
+  })
+})
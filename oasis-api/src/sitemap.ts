@@ -0,0 +1,52 @@
+import { escapeXml, postUrl } from './feed'
+
+export interface SitemapPost {
+  slug: string
+  updated_at: Date | string
+}
+
+// Private sections of the SPA — kept out of search indexes
+export const DISALLOWED_PATHS = ['/journal', '/dashboard', '/projects', '/preview']
+
+function toIso(value: Date | string): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString()
+}
+
+/**
+ * Build a sitemap listing the blog index and every published post.
+ * The index's lastmod is the most recent post update.
+ */
+export function buildSitemap(posts: SitemapPost[], siteUrl: string): string {
+  const base = siteUrl.replace(/\/$/, '')
+  const latest = posts.reduce<string | null>((max, p) => {
+    const iso = toIso(p.updated_at)
+    return !max || iso > max ? iso : max
+  }, null)
+
+  const urls = [
+    `  <url>
+    <loc>${escapeXml(base)}/</loc>${latest ? `\n    <lastmod>${latest}</lastmod>` : ''}
+  </url>`,
+    ...posts.map((p) => `  <url>
+    <loc>${escapeXml(postUrl(base, p.slug))}</loc>
+    <lastmod>${toIso(p.updated_at)}</lastmod>
+  </url>`),
+  ]
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`
+}
+
+export function buildRobotsTxt(siteUrl: string): string {
+  const base = siteUrl.replace(/\/$/, '')
+  return [
+    'User-agent: *',
+    ...DISALLOWED_PATHS.map((path) => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${base}/sitemap.xml`,
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+
+const root = resolve(__dirname, '../..')
+const webRoot = resolve(root, 'oasis-web')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+describe('13-slug-history.sql migration', () => {
+  const sql = readFileSync(resolve(root, 'scripts/db/init/13-slug-history.sql'), 'utf-8')
+
+  test('creates journal.slug_history keyed by slug', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS journal.slug_history')
+    expect(sql).toMatch(/slug VARCHAR\(255\) PRIMARY KEY/)
+    expect(sql).toMatch(/REFERENCES journal\.entries\(id\) ON DELETE CASCADE/)
+  })
+
+  test('records the old slug from a trigger on slug changes', () => {
+    expect(sql).toContain('DROP TRIGGER IF EXISTS record_slug_change ON journal.entries')
+    expect(sql).toContain('AFTER INSERT OR UPDATE OF slug ON journal.entries')
+    expect(sql).toContain('VALUES (OLD.slug, NEW.id)')
+  })
+
+  test('a slug that goes live again is no longer retired', () => {
+    expect(sql).toContain('DELETE FROM journal.slug_history WHERE slug = NEW.slug')
+  })
+})
+
+describe('slug endpoints', () => {
+  test('slug lookup falls back to slug history, preferring the live slug', () => {
+    const start = indexSrc.indexOf('async function getPublishedPost')
+    const section = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+    expect(section).toContain('journal.slug_history WHERE slug = ${slug}')
+    expect(section).toContain('ORDER BY (slug = ${slug}) DESC')
+  })
+
+  test('redirect endpoint issues a 301 to the canonical post URL', () => {
+    const start = indexSrc.indexOf("app.get('/api/journal/slug/:slug/redirect'")
+    expect(start).toBeGreaterThan(-1)
+    const section = indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+    expect(section).toContain('c.redirect(`/blog/${targets[0].slug}`, 301)')
+    expect(section).toContain('e.is_public = true AND e.published_at IS NOT NULL')
+  })
+})
+
+describe('slug redirect consumers', () => {
+  test('BlogPostPage replaces the URL with the canonical slug', () => {
+    const src = readFileSync(resolve(webRoot, 'src/pages/BlogPostPage.tsx'), 'utf-8')
+    expect(src).toContain('data.post.slug !== slug')
+    expect(src).toContain('{ replace: true }')
+  })
+
+  test('nginx sends blog posts to the API page route before serving the SPA', () => {
+    const conf = readFileSync(resolve(webRoot, 'nginx.conf'), 'utf-8')
+    expect(conf).toContain('/api/journal/slug/$1/page')
+    expect(conf).toContain('proxy_intercept_errors on;')
+    expect(conf).toMatch(/error_page 404 .*= @spa;/)
+  })
+})
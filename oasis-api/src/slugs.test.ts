@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { uniqueSlug, SlugSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+function section(start: string) {
+  const idx = indexSrc.indexOf(start)
+  return indexSrc.slice(idx, indexSrc.indexOf('\n})', idx))
+}
+
+describe('uniqueSlug()', () => {
+  test('returns the base when it is free', () => {
+    expect(uniqueSlug('hello', new Set())).toBe('hello')
+    expect(uniqueSlug('hello', new Set(['hello-2']))).toBe('hello')
+  })
+
+  test('appends the first free numeric suffix', () => {
+    expect(uniqueSlug('hello', new Set(['hello']))).toBe('hello-2')
+    expect(uniqueSlug('hello', new Set(['hello', 'hello-2', 'hello-3']))).toBe('hello-4')
+  })
+
+  test('stays within the slug length limit', () => {
+    const base = 'a'.repeat(255)
+    const slug = uniqueSlug(base, new Set([base]))
+    expect(slug.length).toBe(255)
+    expect(slug).toEndWith('-2')
+    expect(SlugSchema.safeParse(slug).success).toBe(true)
+  })
+})
+
+describe('slug collision handling', () => {
+  test('POST rejects a taken explicit slug with 409 and auto-suffixes generated ones', () => {
+    const post = section("app.post('/api/journal', requireAuth")
+    expect(post).toContain('return c.json(await slugConflict(parsed.data.slug), 409)')
+    expect(post).toContain('await findAvailableSlug(slugify(title))')
+  })
+
+  test('PUT checks a changed slug against other entries', () => {
+    const put = section("app.put('/api/journal/:id', requireAuth")
+    expect(put).toContain('await isSlugTaken(slugValue, id)')
+    expect(put).toContain('return c.json(await slugConflict(slugValue, id), 409)')
+    expect(put).toContain('await findAvailableSlug(slugify(title), id)')
+  })
+
+  test('409 body carries a suggested alternative', () => {
+    const helper = indexSrc.slice(indexSrc.indexOf('async function slugConflict'))
+    expect(helper).toContain('suggestion: await findAvailableSlug(slug, excludeId)')
+  })
+
+  test('slug-available is protected and defined before /api/journal/:id', () => {
+    const idx = indexSrc.indexOf("app.get('/api/journal/slug-available', requireAuth")
+    expect(idx).toBeGreaterThan(-1)
+    expect(idx).toBeLessThan(indexSrc.indexOf("app.get('/api/journal/:id'"))
+  })
+})
+
+describe('editor slug validation', () => {
+  const editor = readFileSync(resolve(root, 'oasis-web/src/ui/components/JournalEditor/JournalEditor.tsx'), 'utf-8')
+
+  test('checks slug availability as the author types', () => {
+    expect(editor).toContain('checkSlug?: (slug: string) => Promise<SlugAvailability | null>')
+    expect(editor).toContain('await checkSlug(candidate)')
+  })
+
+  test('leaves auto-generated slugs for the API to resolve', () => {
+    expect(editor).toContain('slug: slugManuallyEdited ? slug.trim() || undefined : undefined')
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { CreateJournalSchema, UpdateJournalSchema, TagSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const webRoot = resolve(root, 'oasis-web/src')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+describe('08-tags.sql migration', () => {
+  const sql = readFileSync(resolve(root, 'scripts/db/init/08-tags.sql'), 'utf-8')
+
+  test('creates journal.tags with unique name', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS journal.tags')
+    expect(sql).toMatch(/name VARCHAR\(64\) NOT NULL UNIQUE/)
+  })
+
+  test('creates entry_tags join table with cascading FKs', () => {
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS journal.entry_tags')
+    expect(sql).toMatch(/REFERENCES journal\.entries\(id\) ON DELETE CASCADE/)
+    expect(sql).toMatch(/REFERENCES journal\.tags\(id\) ON DELETE CASCADE/)
+    expect(sql).toContain('PRIMARY KEY (entry_id, tag_id)')
+  })
+
+  test('indexes are idempotent', () => {
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_journal_entry_tags_tag_id')
+  })
+})
+
+describe('TagSchema', () => {
+  test('normalizes case and whitespace', () => {
+    expect(TagSchema.parse('  Homelab ')).toBe('homelab')
+  })
+
+  test('accepts hyphenated tags', () => {
+    expect(TagSchema.safeParse('project-retros').success).toBe(true)
+  })
+
+  test('rejects spaces and special characters', () => {
+    expect(TagSchema.safeParse('home lab').success).toBe(false)
+    expect(TagSchema.safeParse('math!').success).toBe(false)
+  })
+
+  test('rejects empty and over-long tags', () => {
+    expect(TagSchema.safeParse('').success).toBe(false)
+    expect(TagSchema.safeParse('a'.repeat(65)).success).toBe(false)
+  })
+})
+
+describe('journal schemas accept tags', () => {
+  test('CreateJournalSchema accepts a tags array', () => {
+    const result = CreateJournalSchema.safeParse({ title: 'T', content: 'C', tags: ['homelab', 'Math'] })
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.tags).toEqual(['homelab', 'math'])
+  })
+
+  test('UpdateJournalSchema accepts an empty tags array (clears tags)', () => {
+    const result = UpdateJournalSchema.safeParse({ title: 'T', content: 'C', tags: [] })
+    expect(result.success).toBe(true)
+  })
+
+  test('rejects more than 20 tags', () => {
+    const tags = Array.from({ length: 21 }, (_, i) => `tag-${i}`)
+    expect(CreateJournalSchema.safeParse({ title: 'T', content: 'C', tags }).success).toBe(false)
+  })
+
+  test('tags remain optional', () => {
+    const result = UpdateJournalSchema.safeParse({ title: 'T', content: 'C' })
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.tags).toBeUndefined()
+  })
+})
+
+describe('tag-aware journal routes', () => {
+  test('public feed accepts a ?tag= filter', () => {
+    const publicSection = indexSrc.slice(
+      indexSrc.indexOf("app.get('/api/journal/public'"),
+      indexSrc.indexOf("app.get('/api/journal/slug/:slug'")
+    )
+    expect(publicSection).toContain("c.req.query('tag')")
+    expect(publicSection).toContain('journal.entry_tags')
+  })
+
+  test('create and update persist tags', () => {
+    expect(indexSrc).toContain('async function setEntryTags')
+    expect(indexSrc.match(/setEntryTags\((result\[0\]\.id|id), tags\)/g)!.length).toBe(2)
+  })
+})
+
+describe('tag pages in oasis-web', () => {
+  test('main.tsx routes /blog/tag/:tag to BlogFeedPage', () => {
+    const main = readFileSync(resolve(webRoot, 'main.tsx'), 'utf-8')
+    expect(main).toContain('<Route path="blog/tag/:tag" element={<BlogFeedPage />} />')
+  })
+
+  test('BlogFeedPage passes the tag to the public endpoint', () => {
+    const page = readFileSync(resolve(webRoot, 'pages/BlogFeedPage.tsx'), 'utf-8')
+    expect(page).toContain('useParams')
+    expect(page).toContain("api.get('/api/journal/public', { query: { limit, after, tag } })")
+  })
+
+  test('PostCard links tags to /blog/tag/', () => {
+    const card = readFileSync(resolve(webRoot, 'ui/components/PostCard/PostCard.tsx'), 'utf-8')
+    expect(card).toContain('/blog/tag/')
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { parseRetentionDays, DEFAULT_TRASH_RETENTION_DAYS } from './trash'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+describe('parseRetentionDays()', () => {
+  test('accepts positive whole days', () => {
+    expect(parseRetentionDays('7')).toBe(7)
+  })
+
+  test('falls back to the default for missing or invalid values', () => {
+    expect(parseRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('-3')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('1.5')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('abc')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+  })
+})
+
+describe('12-journal-soft-deletes.sql migration', () => {
+  const sql = readFileSync(resolve(root, 'scripts/db/init/12-journal-soft-deletes.sql'), 'utf-8')
+
+  test('adds deleted_at to journal.entries', () => {
+    expect(sql).toMatch(/ALTER TABLE journal\.entries\s+ADD COLUMN IF NOT EXISTS deleted_at/)
+  })
+
+  test('has a partial index for live entries', () => {
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_journal_entries_not_deleted')
+    expect(sql).toContain('WHERE deleted_at IS NULL')
+  })
+})
+
+describe('journal trash routes', () => {
+  test('DELETE soft-deletes instead of removing the row', () => {
+    const start = indexSrc.indexOf("app.delete('/api/journal/:id'")
+    const section = indexSrc.slice(start, indexSrc.indexOf('})', start))
+    expect(section).toContain('SET deleted_at = NOW()')
+    expect(section).not.toContain('DELETE FROM')
+  })
+
+  test('trash listing is defined before /api/journal/:id', () => {
+    const trashIdx = indexSrc.indexOf("app.get('/api/journal/trash', requireAuth")
+    expect(trashIdx).toBeGreaterThan(-1)
+    expect(trashIdx).toBeLessThan(indexSrc.indexOf("app.get('/api/journal/:id'"))
+  })
+
+  test('restore clears deleted_at with ownership enforced', () => {
+    const start = indexSrc.indexOf("app.post('/api/journal/:id/restore', requireAuth")
+    expect(start).toBeGreaterThan(-1)
+    const section = indexSrc.slice(start, indexSrc.indexOf('})', start))
+    expect(section).toContain('SET deleted_at = NULL')
+    expect(section).toContain('user_id = ${userId} OR user_id IS NULL')
+  })
+
+  test('public queries exclude trashed entries', () => {
+    const matches = indexSrc.match(/published_at <= NOW\(\) AND deleted_at IS NULL/g) || []
+    // public list, slug, adjacent posts (2), search, feeds, sitemap, publish scheduler,
+    // webmention send + receive
+    expect(matches.length).toBe(10)
+  })
+
+  test('purge job only hard-deletes trashed entries past retention', () => {
+    const start = indexSrc.indexOf('async function purgeTrash')
+    expect(start).toBeGreaterThan(-1)
+    const section = indexSrc.slice(start, indexSrc.indexOf('setInterval(purgeTrash', start))
+    expect(section).toContain('DELETE FROM journal.entries')
+    expect(section).toContain('deleted_at IS NOT NULL')
+    expect(section).toContain('make_interval(days => ${TRASH_RETENTION_DAYS})')
+    // Only failures are logged
+    expect(section).not.toContain('console.log')
+  })
+})
+
+describe('MCP journal_delete wording', () => {
+  test('no longer claims the delete is permanent', () => {
+    const src = readFileSync(resolve(root, 'oasis-mcp/src/tools/journal.ts'), 'utf-8')
+    expect(src).not.toContain('Permanently delete a journal entry')
+    expect(src).toContain('Move a journal entry to the trash')
+  })
+})
@@ -0,0 +1,14 @@
+/**
+ * Trashed journal entries are kept for a retention window so they can be
+ * restored, then hard-deleted by the purge job.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Parse TRASH_RETENTION_DAYS. Anything that isn't a positive integer falls
+ * back to the default rather than purging immediately.
+ */
+export function parseRetentionDays(value: string | undefined): number {
+  const days = Number(value)
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
@@ -5,6 +5,7 @@ import {
   ReorderStepsSchema,
   parseBody,
 } from './schemas'
+import { apiError } from './errors'
 
 /**
  * Integration-style tests: create a minimal Hono app that mimics the real
@@ -16,10 +17,10 @@ const app = new Hono()
 // Simulates POST /api/journal with Zod validation
 app.post('/api/journal', async (c) => {
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(CreateJournalSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
 
   return c.json({ entry: parsed.data }, 201)
 })
@@ -27,10 +28,10 @@ app.post('/api/journal', async (c) => {
 // Simulates PUT /api/projects/:id/steps (reorder) with Zod validation
 app.put('/api/projects/:id/steps', async (c) => {
   let body: unknown
-  try { body = await c.req.json() } catch { return c.json({ error: 'Invalid JSON body' }, 400) }
+  try { body = await c.req.json() } catch { return c.json(apiError('VALIDATION', 'Invalid JSON body'), 400) }
 
   const parsed = parseBody(ReorderStepsSchema, body)
-  if (!parsed.success) return c.json({ error: parsed.error }, 400)
+  if (!parsed.success) return c.json(apiError('VALIDATION', parsed.error, parsed.fields), 400)
 
   return c.json({ success: true })
 })
@@ -63,7 +64,8 @@ describe('POST /api/journal validation', () => {
     const res = await req('POST', '/api/journal', { content: 'World' })
     expect(res.status).toBe(400)
     const json = await res.json() as any
-    expect(json.error).toBeDefined()
+    expect(json.error.code).toBe('VALIDATION')
+    expect(json.error.fields.map((f: any) => f.field)).toEqual(['title'])
   })
 
   test('missing content returns 400', async () => {
@@ -97,7 +99,7 @@ describe('POST /api/journal validation', () => {
     const res = await rawReq('POST', '/api/journal', '{bad json}')
     expect(res.status).toBe(400)
     const json = await res.json() as any
-    expect(json.error).toBe('Invalid JSON body')
+    expect(json.error).toEqual({ code: 'VALIDATION', message: 'Invalid JSON body', fields: [] })
   })
 })
 
@@ -131,6 +133,6 @@ describe('PUT /api/projects/:id/steps (reorder) validation', () => {
     const res = await rawReq('PUT', '/api/projects/1/steps', 'not json')
     expect(res.status).toBe(400)
     const json = await res.json() as any
-    expect(json.error).toBe('Invalid JSON body')
+    expect(json.error).toEqual({ code: 'VALIDATION', message: 'Invalid JSON body', fields: [] })
   })
 })
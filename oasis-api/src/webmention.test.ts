@@ -0,0 +1,301 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import {
+  createHttpSender,
+  discoverEndpoint,
+  extractLinks,
+  isPrivateAddress,
+  linksChanged,
+  mentionTargetSlug,
+  parseMention,
+  sendWebmention,
+  verifyMention,
+  type HttpSender,
+} from './webmention'
+import { ModerateWebmentionSchema, ReceiveWebmentionSchema } from './schemas'
+
+const root = resolve(__dirname, '../..')
+const indexSrc = readFileSync(resolve(__dirname, 'index.ts'), 'utf-8')
+
+const SITE = 'https://blog.example'
+const POST = `${SITE}/blog/hello-world`
+
+function section(route: string): string {
+  const start = indexSrc.indexOf(route)
+  expect(start).toBeGreaterThan(-1)
+  return indexSrc.slice(start, indexSrc.indexOf('\n})', start))
+}
+
+// Local stand-in for the network: routes by URL, records every request
+function stubSender(pages: Record<string, () => Response>) {
+  const requests: { url: string; init?: RequestInit }[] = []
+  const sender: HttpSender = async (url, init) => {
+    requests.push({ url, init })
+    const page = pages[url]
+    return page ? page() : new Response('Not found', { status: 404 })
+  }
+  return { sender, requests }
+}
+
+function html(body: string, headers: Record<string, string> = {}) {
+  return () => new Response(`<!DOCTYPE html><html><head></head><body>${body}</body></html>`, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', ...headers },
+  })
+}
+
+describe('extractLinks', () => {
+  test('finds external links in markdown and bare text', () => {
+    const content = [
+      'See [this post](https://other.example/post?a=1#frag) and <https://third.example/>.',
+      'Also https://bare.example/path, which ends with a comma.',
+      'A [link](https://other.example/post?a=1) twice.',
+    ].join('\n')
+    expect(extractLinks(content, SITE)).toEqual([
+      'https://other.example/post?a=1',
+      'https://third.example/',
+      'https://bare.example/path',
+    ])
+  })
+
+  test('skips own-site links and code', () => {
+    const content = [
+      `[older post](${SITE}/blog/older)`,
+      '`https://inline.example/`',
+      '```',
+      'curl https://fenced.example/api',
+      '```',
+    ].join('\n')
+    expect(extractLinks(content, SITE)).toEqual([])
+  })
+
+  test('keeps balanced parentheses in URLs', () => {
+    expect(extractLinks('[w](https://en.wikipedia.org/wiki/Oasis_(band))', SITE))
+      .toEqual(['https://en.wikipedia.org/wiki/Oasis_(band)'])
+  })
+})
+
+describe('linksChanged', () => {
+  test('an edit that keeps the same links is no change', () => {
+    const before = 'See https://other.example/a and https://third.example/.'
+    expect(linksChanged(before, 'Reworded: https://third.example/ then https://other.example/a', SITE)).toBe(false)
+    expect(linksChanged(before, `${before} Also [mine](${SITE}/blog/older).`, SITE)).toBe(false)
+  })
+
+  test('adding or removing a link is', () => {
+    const before = 'See https://other.example/a.'
+    expect(linksChanged(before, `${before} And https://new.example/.`, SITE)).toBe(true)
+    expect(linksChanged(before, 'No links now.', SITE)).toBe(true)
+  })
+})
+
+describe('endpoint discovery', () => {
+  test('Link header wins and resolves relative URLs', () => {
+    const link = '<https://x.example/feed>; rel="alternate", </wm?x=1>; rel="webmention"'
+    expect(discoverEndpoint('https://x.example/post', link, '')).toBe('https://x.example/wm?x=1')
+  })
+
+  test('falls back to <link> or <a> rel=webmention in the HTML', () => {
+    const page = '<html><head><link rel="webmention" href="/endpoint"></head><body></body></html>'
+    expect(discoverEndpoint('https://x.example/post', null, page)).toBe('https://x.example/endpoint')
+    expect(discoverEndpoint('https://x.example/post', null, '<a rel="webmention" href="https://wm.example/x">wm</a>'))
+      .toBe('https://wm.example/x')
+    expect(discoverEndpoint('https://x.example/post', null, '<p>no endpoint</p>')).toBeNull()
+    expect(discoverEndpoint('https://x.example/post', null, '<html><body>text only</body></html>')).toBeNull()
+  })
+})
+
+describe('sendWebmention', () => {
+  test('posts source and target to the discovered endpoint', async () => {
+    const { sender, requests } = stubSender({
+      'https://other.example/post': html('', { Link: '<https://other.example/webmention>; rel="webmention"' }),
+      'https://other.example/webmention': () => new Response(null, { status: 202 }),
+    })
+
+    const result = await sendWebmention(sender, POST, 'https://other.example/post')
+    expect(result).toEqual({
+      target: 'https://other.example/post',
+      endpoint: 'https://other.example/webmention',
+      status: 202,
+      error: null,
+    })
+    const post = requests[1]
+    expect(post.init?.method).toBe('POST')
+    expect(new URLSearchParams(post.init?.body as string).get('source')).toBe(POST)
+    expect(new URLSearchParams(post.init?.body as string).get('target')).toBe('https://other.example/post')
+  })
+
+  test('targets without an endpoint are skipped', async () => {
+    const { sender, requests } = stubSender({ 'https://plain.example/': html('<p>hi</p>') })
+    const result = await sendWebmention(sender, POST, 'https://plain.example/')
+    expect(result.endpoint).toBeNull()
+    expect(requests).toHaveLength(1)
+  })
+
+  test('network failures are reported, not thrown', async () => {
+    const sender: HttpSender = async () => { throw new Error('connect ECONNREFUSED') }
+    const result = await sendWebmention(sender, POST, 'https://down.example/')
+    expect(result.error).toBe('connect ECONNREFUSED')
+  })
+})
+
+describe('verifying incoming mentions', () => {
+  test('classifies replies and pulls out the author and text', () => {
+    const page = `<article class="h-entry">
+      <a class="u-in-reply-to" href="${POST}">In reply to</a>
+      <a class="p-author h-card" href="https://alice.example/">Alice</a>
+      <div class="e-content">Great post!</div>
+      <time class="dt-published" datetime="2025-03-01T10:00:00Z">March 1</time>
+    </article>`
+    expect(parseMention(page, 'https://alice.example/reply', POST)).toEqual({
+      type: 'reply',
+      author_name: 'Alice',
+      author_url: 'https://alice.example/',
+      content: 'Great post!',
+      published_at: new Date('2025-03-01T10:00:00Z'),
+    })
+  })
+
+  test('likes and reposts', () => {
+    const like = `<div class="h-entry"><a class="u-like-of" href="${POST}">liked</a></div>`
+    const repost = `<div class="h-entry"><a class="u-repost-of" href="${POST}">reposted</a></div>`
+    expect(parseMention(like, 'https://a.example/1', POST).type).toBe('like')
+    expect(parseMention(repost, 'https://a.example/2', POST).type).toBe('repost')
+  })
+
+  test('plain links are mentions, and author links must be web URLs', () => {
+    const page = `<div class="h-entry"><a class="p-author h-card" href="javascript:alert(1)">Eve</a>
+      <p class="e-content">Read <a href="${POST}">this</a></p></div>`
+    const mention = parseMention(page, 'https://eve.example/', POST)
+    expect(mention.type).toBe('mention')
+    expect(mention.author_name).toBe('Eve')
+    expect(mention.author_url).toBeNull()
+  })
+
+  test('a source that does not link to the target is rejected', async () => {
+    const { sender } = stubSender({
+      'https://a.example/links': html(`<a href="${POST}">post</a>`),
+      'https://a.example/nolink': html('<p>nothing here</p>'),
+    })
+    expect(await verifyMention(sender, 'https://a.example/links', POST)).not.toBeNull()
+    expect(await verifyMention(sender, 'https://a.example/nolink', POST)).toBeNull()
+    expect(await verifyMention(sender, 'https://a.example/gone', POST)).toBeNull()
+  })
+
+  test('a source that is temporarily down is not treated as gone', async () => {
+    const { sender } = stubSender({ 'https://a.example/': () => new Response('', { status: 503 }) })
+    await expect(verifyMention(sender, 'https://a.example/', POST)).rejects.toThrow('503')
+  })
+
+  test('only posts on this site are valid targets', () => {
+    expect(mentionTargetSlug(POST, SITE)).toBe('hello-world')
+    expect(mentionTargetSlug(`${POST}/`, SITE)).toBe('hello-world')
+    expect(mentionTargetSlug('https://elsewhere.example/blog/hello-world', SITE)).toBeNull()
+    expect(mentionTargetSlug(`${SITE}/journal/1`, SITE)).toBeNull()
+    expect(mentionTargetSlug('not a url', SITE)).toBeNull()
+  })
+})
+
+describe('default sender', () => {
+  test('recognises private and loopback addresses', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(ip)).toBe(true)
+    }
+    for (const ip of ['93.184.216.34', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(ip)).toBe(false)
+    }
+  })
+
+  test('refuses to contact internal hosts', async () => {
+    const sender = createHttpSender()
+    await expect(sender('http://127.0.0.1:3001/api/health')).rejects.toThrow('Refusing')
+    await expect(sender('http://[::1]/')).rejects.toThrow('Refusing')
+    await expect(sender('file:///etc/passwd')).rejects.toThrow('Unsupported protocol')
+  })
+
+  test('checks the address it connects to, not a separate lookup', async () => {
+    // localhost resolves to a loopback address during the connection itself
+    let reached = false
+    const server = Bun.serve({ port: 0, fetch: () => { reached = true; return new Response('ok') } })
+    try {
+      await expect(createHttpSender()(`http://localhost:${server.port}/`)).rejects.toThrow('Refusing to contact localhost')
+      expect(reached).toBe(false)
+    } finally {
+      server.stop(true)
+    }
+  })
+})
+
+describe('webmention schemas', () => {
+  test('source and target must be distinct http(s) URLs', () => {
+    expect(ReceiveWebmentionSchema.safeParse({ source: 'https://a.example/', target: POST }).success).toBe(true)
+    expect(ReceiveWebmentionSchema.safeParse({ source: POST, target: POST }).success).toBe(false)
+    expect(ReceiveWebmentionSchema.safeParse({ source: 'ftp://a.example/', target: POST }).success).toBe(false)
+    expect(ReceiveWebmentionSchema.safeParse({ target: POST }).success).toBe(false)
+  })
+
+  test('moderation only accepts known statuses', () => {
+    expect(ModerateWebmentionSchema.safeParse({ status: 'approved' }).success).toBe(true)
+    expect(ModerateWebmentionSchema.safeParse({ status: 'spam' }).success).toBe(false)
+  })
+})
+
+describe('19-webmentions.sql migration', () => {
+  const migration = readFileSync(resolve(root, 'scripts/db/init/19-webmentions.sql'), 'utf-8')
+
+  test('incoming mentions are unique per source and target and start pending', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS journal.webmentions')
+    expect(migration).toContain('UNIQUE (source, target)')
+    expect(migration).toContain("DEFAULT 'pending'")
+  })
+
+  test('outgoing sends are recorded once per post and target', () => {
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS journal.webmention_sends')
+    expect(migration).toContain('PRIMARY KEY (entry_id, target)')
+  })
+})
+
+describe('webmention endpoints', () => {
+  test('receiving is public, accepts then verifies', () => {
+    const route = section("app.post('/api/webmention', async")
+    expect(route).toContain('return c.json({ status: \'accepted\' }, 202)')
+    expect(route).toContain('verifyIncomingMention(')
+    expect(route).toContain('ON CONFLICT (source, target) DO UPDATE SET verified_at = NULL')
+  })
+
+  test('moderation requires auth and ownership of the post', () => {
+    for (const route of [
+      "app.get('/api/webmentions', requireAuth",
+      "app.put('/api/webmentions/:id', requireAuth",
+      "app.delete('/api/webmentions/:id', requireAuth",
+    ]) {
+      expect(section(route)).toContain('(e.user_id = ${userId} OR e.user_id IS NULL)')
+    }
+  })
+
+  test('posts only show approved, verified mentions', () => {
+    const loader = section('async function loadPostMentions(')
+    expect(loader).toContain("status = 'approved' AND verified_at IS NOT NULL")
+    expect(section('async function getPublishedPost(')).toContain('loadPostMentions(p.id)')
+  })
+
+  test('publishing sends webmentions, including scheduled posts', () => {
+    const put = section("app.put('/api/journal/:id', requireAuth")
+    expect(put).toContain('queueWebmentions(id, wasPublic ? extractLinks(current[0].content, feedOptions.siteUrl) : [])')
+    // Autosaves that neither publish nor change links send nothing
+    expect(put).toContain('(!wasPublic || linksChanged(current[0].content, content, feedOptions.siteUrl))')
+    expect(indexSrc).toContain('publishScheduler.onPostLive((post) => sendEntryWebmentions(post.id))')
+  })
+
+  test('each linked URL is only notified once, unless the send failed', () => {
+    const sender = section('async function sendEntryWebmentions(')
+    expect(sender).toContain('ON CONFLICT (entry_id, target) DO UPDATE')
+    expect(sender).toContain('WHERE journal.webmention_sends.error IS NOT NULL OR journal.webmention_sends.status_code >= 500')
+  })
+
+  test('links an edit removed are notified again', () => {
+    const sender = section('async function sendEntryWebmentions(')
+    expect(sender).toContain('removedLinks.filter((link) => !links.includes(link))')
+    expect(sender).toContain('WHERE entry_id = ${entryId} AND target IN ${sql(removed)}')
+  })
+})
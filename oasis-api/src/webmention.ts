@@ -0,0 +1,309 @@
+import { lookup } from 'dns/promises'
+import { request as httpRequest, type IncomingMessage } from 'http'
+import { request as httpsRequest } from 'https'
+import { isIP, type LookupFunction } from 'net'
+import { mf2 } from 'microformats-parser'
+
+/**
+ * Webmention (https://www.w3.org/TR/webmention/): notify the sites a post
+ * links to, and verify mentions other sites send us.
+ *
+ * Every outbound request goes through an HttpSender, so tests can swap in a
+ * stub. The default sender refuses private and loopback addresses — source
+ * URLs come from strangers and this API runs next to other services.
+ */
+
+export type HttpSender = (url: string, init?: RequestInit) => Promise<Response>
+
+export const MENTION_TYPES = ['like', 'repost', 'reply', 'mention'] as const
+export type MentionType = (typeof MENTION_TYPES)[number]
+
+export interface VerifiedMention {
+  type: MentionType
+  author_name: string | null
+  author_url: string | null
+  content: string | null
+  published_at: Date | null
+}
+
+/** An approved mention as shown under a post */
+export interface PostMention {
+  type: MentionType
+  source: string
+  author_name: string | null
+  author_url: string | null
+  content: string | null
+  published_at: Date | string
+}
+
+export interface SendResult {
+  target: string
+  endpoint: string | null
+  status: number | null
+  error: string | null
+}
+
+// Enough for any real page; anything bigger isn't read
+const MAX_BODY_BYTES = 1024 * 1024
+const MAX_LINKS = 50
+const MAX_CONTENT_LENGTH = 1000
+
+// ─── Outbound HTTP ───────────────────────────────────────────────────────────
+
+export function isPrivateAddress(ip: string): boolean {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number)
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+  }
+  const lower = ip.toLowerCase()
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower)
+}
+
+// Hostnames are checked here rather than before the request: the socket
+// connects to the addresses this lookup approved, so a second resolution
+// can't hand it a private one (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true }).then((addresses) => {
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      callback(new Error(`Refusing to contact ${hostname}`), [])
+    } else if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  }, (err) => callback(err, []))
+}
+
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`)
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new Error(`Refusing to contact ${url.hostname}`)
+  }
+}
+
+function toResponse(url: URL, res: IncomingMessage): Response {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(res.headers)) {
+    for (const item of [value ?? []].flat()) headers.append(name, item)
+  }
+  const status = res.statusCode ?? 502
+  const chunks: AsyncIterator<Uint8Array> = res[Symbol.asyncIterator]()
+  // Pulled as it's read; cancelling (readText stops at MAX_BODY_BYTES) closes the socket
+  const body = status === 204 || status === 304 ? null : new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    cancel() {
+      res.destroy()
+    },
+  })
+  const response = new Response(body, { status, statusText: res.statusMessage, headers })
+  Object.defineProperty(response, 'url', { value: url.href })
+  return response
+}
+
+// One request, no redirects; fetch can't be given the lookup above
+function sendRequest(url: URL, init: RequestInit, signal: AbortSignal): Promise<Response> {
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    const req = send(url, {
+      method: init.method ?? 'GET',
+      headers: Object.fromEntries(new Headers(init.headers)),
+      lookup: publicLookup,
+      signal,
+    }, (res) => resolve(toResponse(url, res)))
+    req.on('error', reject)
+    req.end(typeof init.body === 'string' ? init.body : undefined)
+  })
+}
+
+/**
+ * HTTP with a timeout, a User-Agent, and redirects followed by hand so
+ * every hop gets the public-address check.
+ */
+export function createHttpSender(options: { timeoutMs?: number; maxRedirects?: number; userAgent?: string } = {}): HttpSender {
+  const { timeoutMs = 10_000, maxRedirects = 3, userAgent = 'ash1-oasis-webmention' } = options
+
+  return async (url, init = {}) => {
+    const signal = AbortSignal.timeout(timeoutMs)
+    let current = new URL(url)
+    let request = init
+    for (let hop = 0; ; hop++) {
+      assertPublicUrl(current)
+      const res = await sendRequest(current, {
+        ...request,
+        headers: { 'User-Agent': userAgent, ...request.headers },
+      }, signal)
+      const location = res.headers.get('location')
+      if (res.status < 300 || res.status >= 400 || !location) return res
+      if (hop >= maxRedirects) throw new Error('Too many redirects')
+      current = new URL(location, current)
+      // 303 (and 301/302 after a POST, as browsers do) continue as a GET
+      if (res.status === 303 || ((res.status === 301 || res.status === 302) && request.method === 'POST')) {
+        request = { headers: request.headers }
+      }
+    }
+  }
+}
+
+async function readText(res: Response): Promise<string> {
+  if (!res.body) return ''
+  const reader = res.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (size < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+  }
+  await reader.cancel().catch(() => {})
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES))
+}
+
+// mf2 refuses pages whose <body> holds no elements, though their <head> can
+// still carry rel links. A trailing element (parsed into the body) avoids that.
+function parseMicroformats(html: string, baseUrl: string): Pick<ReturnType<typeof mf2>, 'items' | 'rels'> {
+  try {
+    return mf2(`${html}<span></span>`, { baseUrl })
+  } catch {
+    return { items: [], rels: {} }
+  }
+}
+
+// ─── Sending ─────────────────────────────────────────────────────────────────
+
+/**
+ * External http(s) links in a post's markdown, in order of appearance.
+ * Code is skipped, as are links back to this site.
+ */
+export function extractLinks(markdown: string, siteUrl: string): string[] {
+  const prose = markdown.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '')
+  const siteOrigin = new URL(siteUrl).origin
+  const links = new Set<string>()
+
+  for (const match of prose.matchAll(/https?:\/\/[^\s<>()"'`\]]+(?:\([^\s<>()"'`]*\)[^\s<>()"'`\]]*)*/g)) {
+    const raw = match[0].replace(/[.,;:!?*_~]+$/, '')
+    let url: URL
+    try { url = new URL(raw) } catch { continue }
+    if (url.origin === siteOrigin) continue
+    url.hash = ''
+    links.add(url.href)
+    if (links.size >= MAX_LINKS) break
+  }
+  return [...links]
+}
+
+/** Whether an edit links to a different set of pages than the version before it */
+export function linksChanged(before: string, after: string, siteUrl: string): boolean {
+  const previous = new Set(extractLinks(before, siteUrl))
+  const next = extractLinks(after, siteUrl)
+  return next.length !== previous.size || next.some((link) => !previous.has(link))
+}
+
+/** The target's Webmention endpoint: Link header first, then <link>/<a rel="webmention">. */
+export function discoverEndpoint(pageUrl: string, linkHeader: string | null, html: string): string | null {
+  for (const part of (linkHeader ?? '').split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]*)>\s*;(.*)$/)
+    const rel = match?.[2].match(/rel\s*=\s*"?([^";]+)"?/i)?.[1]
+    if (match && rel?.split(/\s+/).includes('webmention')) return new URL(match[1], pageUrl).href
+  }
+  if (!html) return null
+  return parseMicroformats(html, pageUrl).rels.webmention?.[0] ?? null
+}
+
+export async function sendWebmention(sender: HttpSender, source: string, target: string): Promise<SendResult> {
+  try {
+    const page = await sender(target, { headers: { Accept: 'text/html' } })
+    const isHtml = (page.headers.get('content-type') || '').includes('html')
+    const html = isHtml ? await readText(page) : ''
+    const endpoint = discoverEndpoint(page.url || target, page.headers.get('link'), html)
+    if (!endpoint) return { target, endpoint: null, status: null, error: null }
+
+    const res = await sender(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ source, target }).toString(),
+    })
+    return { target, endpoint, status: res.status, error: null }
+  } catch (err) {
+    return { target, endpoint: null, status: null, error: err instanceof Error ? err.message : 'Unknown error' }
+  }
+}
+
+// ─── Receiving ───────────────────────────────────────────────────────────────
+
+/** The slug of the post a target URL points at, if it's a post on this site. */
+export function mentionTargetSlug(target: string, siteUrl: string): string | null {
+  let url: URL
+  try { url = new URL(target) } catch { return null }
+  if (url.origin !== new URL(siteUrl).origin) return null
+  return url.pathname.match(/^\/blog\/([a-z0-9]+(?:-[a-z0-9]+)*)\/?$/)?.[1] ?? null
+}
+
+// mf2 values are plain strings or nested objects carrying a url/value
+function mfUrl(value: any): string | null {
+  if (typeof value === 'string') return value
+  return value?.properties?.url?.[0] ?? (typeof value?.value === 'string' ? value.value : null)
+}
+
+// Author links are rendered on the blog, so only web URLs are kept
+function httpUrl(value: string | null): string | null {
+  return value && /^https?:\/\//i.test(value) && URL.canParse(value) ? value : null
+}
+
+/**
+ * Classify a verified source page from its microformats: the h-entry's
+ * like-of / repost-of / in-reply-to pointing at our post, else a mention.
+ */
+export function parseMention(html: string, source: string, target: string): VerifiedMention {
+  const parsed = parseMicroformats(html, source)
+  const entry = parsed.items.find((item) => item.type?.includes('h-entry'))
+  const props: Record<string, any[]> = entry?.properties ?? {}
+
+  const points = (name: string) => (props[name] ?? []).some((v) => mfUrl(v) === target)
+  const type: MentionType = points('like-of') ? 'like'
+    : points('repost-of') ? 'repost'
+    : points('in-reply-to') ? 'reply'
+    : 'mention'
+
+  const author = props.author?.[0]
+  const authorName = typeof author === 'string' ? author : author?.properties?.name?.[0] ?? null
+  const content = props.content?.[0]
+  const text = typeof content === 'string' ? content : content?.value
+  const published = props.published?.[0] ? new Date(props.published[0]) : null
+
+  return {
+    type,
+    author_name: typeof authorName === 'string' ? authorName.slice(0, 255) : null,
+    author_url: typeof author === 'string' ? null : httpUrl(mfUrl(author)),
+    content: typeof text === 'string' && text.trim() ? text.trim().slice(0, MAX_CONTENT_LENGTH) : null,
+    published_at: published && !isNaN(published.getTime()) ? published : null,
+  }
+}
+
+/**
+ * Fetch the source and confirm it links to the target. Returns null when
+ * it doesn't (or no longer does) — the mention should be dropped. Other
+ * failures throw, leaving the mention unverified.
+ */
+export async function verifyMention(sender: HttpSender, source: string, target: string): Promise<VerifiedMention | null> {
+  const res = await sender(source, { headers: { Accept: 'text/html' } })
+  if (res.status === 404 || res.status === 410) return null
+  if (!res.ok) throw new Error(`Source returned ${res.status}`)
+  const html = await readText(res)
+  if (!html.includes(target) && !html.includes(target.replace(/&/g, '&amp;'))) return null
+  return parseMention(html, source, target)
+}
@@ -0,0 +1,770 @@
+// Generated from the API's OpenAPI document (/api/openapi.json).
+// Do not edit: run `bun run generate:client` in oasis-api.
+
+export interface CreateJournal {
+  title: string
+  content: string
+  is_public?: boolean
+  slug?: string
+  excerpt?: string
+  tags?: string[]
+  published_at?: string
+}
+
+export interface UpdateJournal {
+  title: string
+  content: string
+  is_public?: boolean
+  slug?: string | null
+  excerpt?: string | null
+  tags?: string[]
+  published_at?: string | null
+  updated_at?: string
+}
+
+export interface PreviewJournal {
+  content: string
+  excerpt?: string | null
+}
+
+export interface CreateShareLink {
+  expires_in_days?: number
+}
+
+export interface CreateSeries {
+  title: string
+  entry_ids?: number[]
+}
+
+export interface UpdateSeries {
+  title?: string
+  entry_ids?: number[]
+}
+
+export interface ModerateWebmention {
+  status: 'pending' | 'approved' | 'rejected'
+}
+
+export interface CreatePage {
+  title: string
+  content?: string
+  slug?: string
+  is_public?: boolean
+  show_in_nav?: boolean
+  nav_label?: string | null
+  nav_order?: number
+}
+
+export interface UpdatePage {
+  title?: string
+  content?: string
+  slug?: string
+  is_public?: boolean
+  show_in_nav?: boolean
+  nav_label?: string | null
+  nav_order?: number
+}
+
+export interface StepInput {
+  title: string
+  description?: string
+  meta?: Record<string, unknown>
+  parent_id?: number
+  children?: StepInput[]
+}
+
+export interface CreateProject {
+  title: string
+  description?: string
+  meta?: Record<string, unknown>
+  steps?: StepInput[]
+}
+
+export interface UpdateProject {
+  title?: string
+  description?: string
+  status?: 'active' | 'paused' | 'completed' | 'archived'
+  meta?: Record<string, unknown>
+}
+
+export type AddSteps = StepInput | StepInput[]
+
+export interface UpdateStep {
+  title?: string
+  description?: string
+  status?: 'pending' | 'active' | 'completed' | 'skipped'
+  sort_order?: number
+  parent_id?: number | null
+  meta?: Record<string, unknown>
+}
+
+export type ReorderSteps = {
+  id: number
+  sort_order: number
+}[]
+
+export interface GenerateSteps {
+  title: string
+  description?: string
+}
+
+export interface Success {
+  success: true
+}
+
+export interface JournalEntry {
+  id: number
+  title: string
+  content: string
+  is_public: boolean
+  user_id?: string | null
+  slug?: string | null
+  excerpt?: string | null
+  published_at?: string | null
+  tags?: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface JournalEntryResponse {
+  entry: JournalEntry
+}
+
+export interface JournalListResponse {
+  entries: JournalEntry[]
+  next_cursor: string | null
+  limit: number
+}
+
+export interface PostSummary {
+  slug: string
+  title: string
+  excerpt: string
+  published_at: string
+  reading_time: number
+  tags: string[]
+}
+
+export interface PublicPostsResponse {
+  posts: PostSummary[]
+  next_cursor: string | null
+  limit: number
+  tag: string | null
+}
+
+export interface SlugAvailability {
+  slug: string
+  available: boolean
+  suggestion: string | null
+}
+
+export interface ImageAsset {
+  width: number
+  height: number
+  srcset: string
+  webp_srcset: string | null
+}
+
+export interface MediaAsset {
+  id: number
+  filename: string
+  mime_type: string
+  size_bytes: number
+  sha256: string
+  width: number | null
+  height: number | null
+  variants: {
+    width: number
+    format: 'png' | 'jpg' | 'webp'
+  }[]
+  url: string
+  created_at: string
+}
+
+export interface DraftPreviewResponse {
+  preview: {
+    excerpt: string
+    reading_time: number
+    assets: Record<string, ImageAsset>
+  }
+}
+
+export interface TrashedEntry {
+  id: number
+  title: string
+  content: string
+  is_public: boolean
+  slug: string | null
+  created_at: string
+  updated_at: string
+  deleted_at: string
+  purge_at: string
+}
+
+export interface TrashResponse {
+  entries: TrashedEntry[]
+  retention_days: number
+}
+
+export interface RevisionSummary {
+  id: number
+  entry_id: number
+  title: string
+  content_length: number
+  created_at: string
+}
+
+export interface Revision {
+  id: number
+  entry_id: number
+  title: string
+  content: string
+  excerpt: string | null
+  created_at: string
+}
+
+export interface ShareLink {
+  id: number
+  token: string
+  url: string
+  expires_at: string
+  created_at: string
+}
+
+export interface ImportReport {
+  created: {
+    file: string
+    id: number
+    slug: string | null
+  }[]
+  updated: {
+    file: string
+    id: number
+    slug: string | null
+  }[]
+  unchanged: {
+    file: string
+    id: number
+    slug: string | null
+  }[]
+  conflicts: {
+    file: string
+    slug: string | null
+    reason: string
+  }[]
+  errors: {
+    file: string
+    error: string
+  }[]
+}
+
+export interface Webmention {
+  id: number
+  entry_id: number
+  entry_title: string
+  entry_slug: string | null
+  source: string
+  target: string
+  status: 'pending' | 'approved' | 'rejected'
+  type: 'like' | 'repost' | 'reply' | 'mention'
+  author_name: string | null
+  author_url: string | null
+  content: string | null
+  published_at: string | null
+  verified_at: string | null
+  created_at: string
+}
+
+export interface PageLink {
+  id: number
+  title: string
+  slug: string
+  is_public: boolean
+  show_in_nav: boolean
+  nav_label: string | null
+  nav_order: number
+}
+
+export interface Page {
+  id: number
+  title: string
+  slug: string
+  is_public: boolean
+  show_in_nav: boolean
+  nav_label: string | null
+  nav_order: number
+  content: string
+  created_at: string
+  updated_at: string
+}
+
+export interface Project {
+  id: number
+  title: string
+  description: string
+  status: 'active' | 'paused' | 'completed' | 'archived'
+  meta: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+export interface ProjectSummary {
+  id: number
+  title: string
+  description: string
+  status: 'active' | 'paused' | 'completed' | 'archived'
+  meta: Record<string, unknown>
+  created_at: string
+  updated_at: string
+  total_steps: number
+  completed_steps: number
+}
+
+export interface Step {
+  id: number
+  project_id: number
+  parent_id: number | null
+  title: string
+  description: string
+  status: 'pending' | 'active' | 'completed' | 'skipped'
+  sort_order: number
+  meta: Record<string, unknown>
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface GeneratedStep {
+  title: string
+  description: string
+  children?: GeneratedStep[]
+}
+
+export interface ErrorResponse {
+  error: {
+    code: 'VALIDATION' | 'UNAUTHORIZED' | 'NOT_FOUND' | 'CONFLICT' | 'UPSTREAM_LLM' | 'INTERNAL'
+    message: string
+    fields: {
+      field: string
+      message: string
+    }[]
+  }
+  [key: string]: unknown
+}
+
+export interface Paths {
+  '/api/health': {
+    get: {
+      response: {
+        status: 'ok'
+      }
+    }
+  }
+  '/api/openapi.json': {
+    get: {
+      response: unknown
+    }
+  }
+  '/api/containers': {
+    get: {
+      response: unknown
+    }
+  }
+  '/api/system': {
+    get: {
+      response: unknown
+    }
+  }
+  '/api/journal/slug-available': {
+    get: {
+      query: {
+        slug: string
+        exclude_id?: number
+      }
+      response: SlugAvailability
+    }
+  }
+  '/api/journal/preview': {
+    post: {
+      body: PreviewJournal
+      response: DraftPreviewResponse
+    }
+  }
+  '/api/journal': {
+    get: {
+      query: {
+        after?: string
+        limit?: number
+      }
+      response: JournalListResponse
+    }
+    post: {
+      body: CreateJournal
+      response: JournalEntryResponse
+    }
+  }
+  '/api/journal/public': {
+    get: {
+      query: {
+        after?: string
+        limit?: number
+        tag?: string
+      }
+      response: PublicPostsResponse
+    }
+  }
+  '/api/journal/slug/{slug}': {
+    get: {
+      params: {
+        slug: string
+      }
+      response: unknown
+    }
+  }
+  '/api/journal/slug/{slug}/redirect': {
+    get: {
+      params: {
+        slug: string
+      }
+      response: unknown
+    }
+  }
+  '/api/journal/search': {
+    get: {
+      query: {
+        q: string
+        limit?: number
+        scope?: 'public'
+      }
+      response: unknown
+    }
+  }
+  '/api/journal/import': {
+    post: {
+      body: FormData
+      response: ImportReport
+    }
+  }
+  '/api/journal/import/{source}': {
+    post: {
+      params: {
+        source: string
+      }
+      query: {
+        dry_run?: string
+      }
+      body: FormData
+      response: unknown
+    }
+  }
+  '/api/journal/trash': {
+    get: {
+      response: TrashResponse
+    }
+  }
+  '/api/journal/{id}/restore': {
+    post: {
+      params: {
+        id: number
+      }
+      response: JournalEntryResponse
+    }
+  }
+  '/api/journal/{id}': {
+    get: {
+      params: {
+        id: number
+      }
+      response: JournalEntryResponse
+    }
+    put: {
+      params: {
+        id: number
+      }
+      body: UpdateJournal
+      response: JournalEntryResponse
+    }
+    delete: {
+      params: {
+        id: number
+      }
+      response: Success
+    }
+  }
+  '/api/journal/{id}/revisions': {
+    get: {
+      params: {
+        id: number
+      }
+      response: {
+        revisions: RevisionSummary[]
+      }
+    }
+  }
+  '/api/journal/{id}/revisions/{rev}': {
+    get: {
+      params: {
+        id: number
+        rev: number
+      }
+      response: {
+        revision: Revision
+      }
+    }
+  }
+  '/api/journal/{id}/revisions/{rev}/restore': {
+    post: {
+      params: {
+        id: number
+        rev: number
+      }
+      response: JournalEntryResponse
+    }
+  }
+  '/api/journal/{id}/share-links': {
+    get: {
+      params: {
+        id: number
+      }
+      response: {
+        links: ShareLink[]
+      }
+    }
+    post: {
+      params: {
+        id: number
+      }
+      body: CreateShareLink
+      response: {
+        link: ShareLink
+      }
+    }
+  }
+  '/api/journal/{id}/share-links/{linkId}': {
+    delete: {
+      params: {
+        id: number
+        linkId: number
+      }
+      response: Success
+    }
+  }
+  '/api/journal/shared/{token}': {
+    get: {
+      params: {
+        token: string
+      }
+      response: unknown
+    }
+  }
+  '/api/series': {
+    get: {
+      response: unknown
+    }
+    post: {
+      body: CreateSeries
+      response: unknown
+    }
+  }
+  '/api/series/{id}': {
+    get: {
+      params: {
+        id: number
+      }
+      response: unknown
+    }
+    put: {
+      params: {
+        id: number
+      }
+      body: UpdateSeries
+      response: unknown
+    }
+    delete: {
+      params: {
+        id: number
+      }
+      response: Success
+    }
+  }
+  '/api/webmention': {
+    post: {
+      response: {
+        status: 'accepted'
+      }
+    }
+  }
+  '/api/webmentions': {
+    get: {
+      query: {
+        status?: 'pending' | 'approved' | 'rejected'
+      }
+      response: {
+        mentions: Webmention[]
+      }
+    }
+  }
+  '/api/webmentions/{id}': {
+    put: {
+      params: {
+        id: number
+      }
+      body: ModerateWebmention
+      response: unknown
+    }
+    delete: {
+      params: {
+        id: number
+      }
+      response: Success
+    }
+  }
+  '/api/pages': {
+    get: {
+      response: {
+        pages: (Page | PageLink)[]
+      }
+    }
+    post: {
+      body: CreatePage
+      response: {
+        page: Page
+      }
+    }
+  }
+  '/api/pages/{slug}': {
+    get: {
+      params: {
+        slug: string
+      }
+      response: {
+        page: {
+          id: number
+          title: string
+          slug: string
+          is_public: boolean
+          show_in_nav: boolean
+          nav_label: string | null
+          nav_order: number
+          content: string
+          created_at: string
+          updated_at: string
+          assets: Record<string, ImageAsset>
+        }
+      }
+    }
+  }
+  '/api/pages/{id}': {
+    put: {
+      params: {
+        id: number
+      }
+      body: UpdatePage
+      response: {
+        page: Page
+      }
+    }
+    delete: {
+      params: {
+        id: number
+      }
+      response: Success
+    }
+  }
+  '/api/media': {
+    post: {
+      body: FormData
+      response: {
+        asset: MediaAsset
+      }
+    }
+  }
+  '/api/projects/generate-steps': {
+    post: {
+      body: GenerateSteps
+      response: {
+        steps: GeneratedStep[]
+      }
+    }
+  }
+  '/api/projects': {
+    get: {
+      query: {
+        status?: 'active' | 'paused' | 'completed' | 'archived'
+      }
+      response: {
+        projects: ProjectSummary[]
+      }
+    }
+    post: {
+      body: CreateProject
+      response: {
+        project: Project
+        steps: Step[]
+      }
+    }
+  }
+  '/api/projects/{id}': {
+    get: {
+      params: {
+        id: number
+      }
+      response: {
+        project: Project
+        steps: Step[]
+      }
+    }
+    put: {
+      params: {
+        id: number
+      }
+      body: UpdateProject
+      response: {
+        project: Project
+      }
+    }
+    delete: {
+      params: {
+        id: number
+      }
+      response: Success
+    }
+  }
+  '/api/projects/{id}/steps': {
+    post: {
+      params: {
+        id: number
+      }
+      body: AddSteps
+      response: {
+        steps: Step[]
+      }
+    }
+    put: {
+      params: {
+        id: number
+      }
+      body: ReorderSteps
+      response: Success
+    }
+  }
+  '/api/projects/{id}/steps/{stepId}': {
+    put: {
+      params: {
+        id: number
+        stepId: number
+      }
+      body: UpdateStep
+      response: {
+        step: Step
+      }
+    }
+    delete: {
+      params: {
+        id: number
+        stepId: number
+      }
+      response: Success
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import type { ErrorResponse, Paths } from './api.gen'
+
+/**
+ * A fetch wrapper typed by the API's OpenAPI document: paths, params,
+ * bodies and responses all come from api.gen.ts, so a change to the API's
+ * schemas shows up as a compile error wherever the client is used.
+ *
+ *   const api = createClient({ baseUrl: '' })
+ *   const res = await api.get('/api/journal/{id}', { params: { id: 1 } })
+ *   if (res.ok) res.data.entry.title
+ */
+
+export type Method = 'get' | 'post' | 'put' | 'delete'
+
+/** Paths that support a given method */
+export type PathsWith<M extends Method> = {
+  [P in keyof Paths]: Paths[P] extends Record<M, unknown> ? P : never
+}[keyof Paths]
+
+type Operation<P extends keyof Paths, M extends Method> = Paths[P] extends Record<M, infer O> ? O : never
+
+/** The response body of a successful request */
+export type ResponseData<P extends keyof Paths, M extends Method> =
+  Operation<P, M> extends { response: infer R } ? R : never
+
+export type RequestOptions<O> =
+  & (O extends { params: infer T } ? { params: T } : { params?: never })
+  & (O extends { query: infer T } ? { query?: T } : { query?: never })
+  & (O extends { body: infer T } ? { body: T } : { body?: never })
+  & {
+    headers?: Record<string, string>
+    /** Let the request outlive the page, e.g. a save on unload */
+    keepalive?: boolean
+  }
+
+// Options can be left out when nothing in them is required
+type Args<O> = {} extends RequestOptions<O> ? [options?: RequestOptions<O>] : [options: RequestOptions<O>]
+
+/** The arguments after the path, for wrappers around the client */
+export type RequestArgs<P extends keyof Paths, M extends Method> = Args<Operation<P, M>>
+
+/** The API's error: a stable code, a message, and any per-field problems */
+export type ApiError = ErrorResponse['error']
+
+/**
+ * Non-2xx responses are returned, not thrown; network failures still throw.
+ * `body` is the whole error response, for the keys some errors add beside
+ * `error` (e.g. the current entry on a 412).
+ */
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T; headers: Headers }
+  | { ok: false; status: number; error: ApiError; body: ErrorResponse; headers: Headers }
+
+export interface ClientOptions {
+  /** Prepended to every path; leave empty for same-origin requests */
+  baseUrl?: string
+  /** Sent with every request, e.g. an API key */
+  headers?: Record<string, string>
+  /** Defaults to the global fetch, looked up on each request */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>
+}
+
+type AnyOptions = {
+  params?: Record<string, string | number>
+  query?: Record<string, string | number | boolean | undefined>
+  body?: unknown
+  headers?: Record<string, string>
+  keepalive?: boolean
+}
+
+function buildUrl(path: string, params: AnyOptions['params'] = {}, query: AnyOptions['query'] = {}): string {
+  const filled = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (params[name] === undefined) throw new Error(`Missing path parameter "${name}" for ${path}`)
+    return encodeURIComponent(String(params[name]))
+  })
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) search.set(key, String(value))
+  }
+  const qs = search.toString()
+  return qs ? `${filled}?${qs}` : filled
+}
+
+export function createClient(options: ClientOptions = {}) {
+  const { baseUrl = '', headers: defaultHeaders = {} } = options
+
+  async function request(method: Method, path: string, { params, query, body, headers, keepalive }: AnyOptions = {}): Promise<ApiResult<unknown>> {
+    const isForm = typeof FormData !== 'undefined' && body instanceof FormData
+    const doFetch = options.fetch ?? globalThis.fetch
+    const res = await doFetch(`${baseUrl}${buildUrl(path, params, query)}`, {
+      method: method.toUpperCase(),
+      headers: {
+        ...defaultHeaders,
+        ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body === undefined ? undefined : isForm ? (body as FormData) : JSON.stringify(body),
+      keepalive,
+    })
+
+    const data = await res.json().catch(() => null)
+    if (res.ok) return { ok: true, status: res.status, data, headers: res.headers }
+    // Anything without the envelope came from a proxy, not the API
+    const envelope: ErrorResponse = typeof data?.error?.code === 'string'
+      ? data
+      : { error: { code: 'INTERNAL', message: res.statusText || `Request failed with status ${res.status}`, fields: [] } }
+    return { ok: false, status: res.status, error: envelope.error, body: envelope, headers: res.headers }
+  }
+
+  function method<M extends Method>(m: M) {
+    return <P extends PathsWith<M>>(path: P, ...[opts]: RequestArgs<P, M>) =>
+      request(m, path, opts as AnyOptions) as Promise<ApiResult<ResponseData<P, M>>>
+  }
+
+  return {
+    get: method('get'),
+    post: method('post'),
+    put: method('put'),
+    delete: method('delete'),
+  }
+}
+
+export type ApiClient = ReturnType<typeof createClient>
+
+/** An error's field messages keyed by field, for showing beside form inputs */
+export function fieldMessages(error: ApiError): Record<string, string> {
+  const messages: Record<string, string> = {}
+  for (const { field, message } of error.fields) messages[field] ??= message
+  return messages
+}
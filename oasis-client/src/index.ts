@@ -0,0 +1,14 @@
+export {
+  createClient,
+  fieldMessages,
+  type ApiClient,
+  type ApiError,
+  type ApiResult,
+  type ClientOptions,
+  type Method,
+  type PathsWith,
+  type RequestArgs,
+  type RequestOptions,
+  type ResponseData,
+} from './client'
+export type * from './api.gen'
@@ -9,11 +9,26 @@ describe('api-client', () => {
     // Mock fetch to return a 404
     const originalFetch = globalThis.fetch
     globalThis.fetch = (async () =>
-      new Response('{"error":"Not found"}', { status: 404 })) as any
+      new Response('{"error":{"code":"NOT_FOUND","message":"Entry not found","fields":[]}}', { status: 404 })) as any
 
     try {
       const { api } = await import('./api-client')
-      await expect(api.get('/api/journal/999')).rejects.toThrow('404')
+      await expect(api.get('/api/journal/{id}', { params: { id: 999 } })).rejects.toThrow('404 NOT_FOUND: Entry not found')
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
+
+  test('field errors are listed in the message', async () => {
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({
+        error: { code: 'VALIDATION', message: 'title: Required', fields: [{ field: 'title', message: 'Required' }] },
+      }), { status: 400 })) as any
+
+    try {
+      const { api } = await import('./api-client')
+      await expect(api.post('/api/journal', { body: { title: '', content: 'C' } })).rejects.toThrow('(title: Required)')
     } finally {
       globalThis.fetch = originalFetch
     }
@@ -62,4 +77,68 @@ describe('api-client', () => {
       globalThis.fetch = originalFetch
     }
   })
+
+  test('PUT sends If-Match with the ETag from the last read of that path', async () => {
+    const sent: Array<{ method: string; headers: Record<string, string> }> = []
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      sent.push({ method: init.method!, headers: { ...(init.headers as Record<string, string>) } })
+      const etag = init.method === 'GET' ? '"1700000000000"' : '"1700000000500"'
+      return new Response('{"entry":{}}', { status: 200, headers: { ETag: etag } })
+    }) as any
+
+    try {
+      const { api } = await import('./api-client')
+      await api.get('/api/journal/{id}', { params: { id: 41 } })
+      await api.put('/api/journal/{id}', { params: { id: 41 }, body: { title: 'T', content: 'C' } })
+      await api.put('/api/journal/{id}', { params: { id: 41 }, body: { title: 'T', content: 'C2' } })
+      await api.put('/api/journal/{id}', { params: { id: 42 }, body: { title: 'T', content: 'C' } })
+
+      expect(sent[1].headers['If-Match']).toBe('"1700000000000"')
+      // A successful write's ETag is used for the next one
+      expect(sent[2].headers['If-Match']).toBe('"1700000000500"')
+      // Never read, so the write is unconditional
+      expect(sent[3].headers['If-Match']).toBeUndefined()
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
+
+  test('a step PUT sends If-Match with the step version from the last project read', async () => {
+    const sent: Array<{ url: string; headers: Record<string, string> }> = []
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      sent.push({ url, headers: { ...(init.headers as Record<string, string>) } })
+      const body = init.method === 'GET'
+        ? { project: { id: 7 }, steps: [{ id: 3, updated_at: '2026-03-01T09:30:00.123Z' }] }
+        : { step: {} }
+      return new Response(JSON.stringify(body), { status: 200, headers: { ETag: '"1700000000000"' } })
+    }) as any
+
+    try {
+      const { api } = await import('./api-client')
+      await api.get('/api/projects/{id}', { params: { id: 7 } })
+      await api.put('/api/projects/{id}/steps/{stepId}', { params: { id: 7, stepId: 3 }, body: { status: 'completed' } })
+      await api.put('/api/projects/{id}/steps/{stepId}', { params: { id: 7, stepId: 4 }, body: { status: 'completed' } })
+
+      // The step's own version, not the project's ETag
+      expect(sent[1].headers['If-Match']).toBe(`"${Date.parse('2026-03-01T09:30:00.123Z')}"`)
+      expect(sent[2].headers['If-Match']).toBeUndefined()
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
+
+  test('412 tells the caller to read again', async () => {
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = (async () =>
+      new Response('{"error":{"code":"CONFLICT","message":"Entry has changed since it was loaded","fields":[]}}', { status: 412 })) as any
+
+    try {
+      const { api } = await import('./api-client')
+      await expect(api.put('/api/journal/{id}', { params: { id: 43 }, body: { title: 'T', content: 'C' } })).rejects.toThrow('fetch it again')
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
 })
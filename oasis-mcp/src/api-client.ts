@@ -1,3 +1,11 @@
+import {
+  createClient,
+  type ApiResult,
+  type Method,
+  type PathsWith,
+  type RequestArgs,
+  type ResponseData,
+} from '../../oasis-client/src'
 import { oasisApiUrl, internalApiKey } from './config'
 
 class ApiClientError extends Error {
@@ -7,32 +15,64 @@ class ApiClientError extends Error {
   }
 }
 
-async function request(method: string, path: string, body?: unknown): Promise<unknown> {
-  const url = `${oasisApiUrl}${path}`
-  const headers: Record<string, string> = {
-    'X-Internal-Key': internalApiKey,
-    'Content-Type': 'application/json',
+// ETags from the last response for each path. A PUT to a path read earlier
+// sends If-Match, so if the entry was edited elsewhere in between (e.g. in
+// the browser) the API answers 412 instead of overwriting that edit.
+const etags = new Map<string, string>()
+
+// Steps have no GET of their own; a project read carries each step's version
+// as its updated_at, which is what the API compares a step PUT's If-Match to.
+const PROJECT_PATH = /^\/api\/projects\/\d+$/
+
+async function rememberStepEtags(path: string, res: Response): Promise<void> {
+  const { steps } = await res.clone().json() as { steps?: Array<{ id: number; updated_at: string }> }
+  for (const step of steps ?? []) {
+    etags.set(`${path}/steps/${step.id}`, `"${Date.parse(step.updated_at)}"`)
   }
+}
 
-  const res = await fetch(url, {
-    method,
-    headers,
-    body: body !== undefined ? JSON.stringify(body) : undefined,
-  })
+async function fetchWithEtags(url: string, init: RequestInit): Promise<Response> {
+  const path = url.slice(oasisApiUrl.length)
+  const etag = etags.get(path)
+  const headers = { ...(init.headers as Record<string, string>) }
+  if (init.method === 'PUT' && etag) headers['If-Match'] = etag
 
+  const res = await fetch(url, { ...init, headers })
+  const responseEtag = res.headers.get('ETag')
+  if (res.ok && responseEtag) etags.set(path, responseEtag)
+  if (res.ok && init.method === 'GET' && PROJECT_PATH.test(path)) await rememberStepEtags(path, res)
+  return res
+}
+
+const client = createClient({
+  baseUrl: oasisApiUrl,
+  headers: { 'X-Internal-Key': internalApiKey },
+  fetch: fetchWithEtags,
+})
+
+// Tools report failures by throwing, so unwrap the client's result
+async function unwrap<T>(method: Method, path: string, pending: Promise<ApiResult<T>>): Promise<T> {
+  const res = await pending
   if (!res.ok) {
-    const text = await res.text().catch(() => 'No response body')
-    throw new ApiClientError(res.status, `${method} ${path} → ${res.status}: ${text}`)
+    const hint = res.status === 412 ? ' (changed since it was last read — fetch it again and reapply the update)' : ''
+    const fields = res.error.fields.map((f) => `${f.field}: ${f.message}`).join('; ')
+    throw new ApiClientError(
+      res.status,
+      `${method.toUpperCase()} ${path} → ${res.status} ${res.error.code}${hint}: ${res.error.message}${fields ? ` (${fields})` : ''}`
+    )
   }
-
-  return res.json()
+  return res.data
 }
 
 export const api = {
-  get: (path: string) => request('GET', path),
-  post: (path: string, body: unknown) => request('POST', path, body),
-  put: (path: string, body: unknown) => request('PUT', path, body),
-  delete: (path: string) => request('DELETE', path),
+  get: <P extends PathsWith<'get'>>(path: P, ...args: RequestArgs<P, 'get'>): Promise<ResponseData<P, 'get'>> =>
+    unwrap('get', path, client.get(path, ...args)),
+  post: <P extends PathsWith<'post'>>(path: P, ...args: RequestArgs<P, 'post'>): Promise<ResponseData<P, 'post'>> =>
+    unwrap('post', path, client.post(path, ...args)),
+  put: <P extends PathsWith<'put'>>(path: P, ...args: RequestArgs<P, 'put'>): Promise<ResponseData<P, 'put'>> =>
+    unwrap('put', path, client.put(path, ...args)),
+  delete: <P extends PathsWith<'delete'>>(path: P, ...args: RequestArgs<P, 'delete'>): Promise<ResponseData<P, 'delete'>> =>
+    unwrap('delete', path, client.delete(path, ...args)),
   healthCheck: async (): Promise<boolean> => {
     const res = await fetch(`${oasisApiUrl}/api/health`, {
       headers: { 'X-Internal-Key': internalApiKey },
@@ -6,14 +6,14 @@ import { log } from '../logger'
 export function registerJournalTools(server: McpServer) {
   server.tool(
     'journal_list',
-    'List journal entries with pagination',
+    'List journal entries, newest first. Pass the returned next_cursor as `after` for the next page; it is null on the last one.',
     {
-      page: z.number().int().positive().default(1).describe('Page number (default: 1)'),
+      after: z.string().optional().describe('next_cursor from the previous page (omit for the first page)'),
       limit: z.number().int().positive().max(50).default(20).describe('Entries per page (default: 20, max: 50)'),
     },
-    async ({ page, limit }) => {
-      log('tool_invocation', { tool: 'journal_list', page, limit })
-      const data = await api.get(`/api/journal?page=${page}&limit=${limit}`)
+    async ({ after, limit }) => {
+      log('tool_invocation', { tool: 'journal_list', after, limit })
+      const data = await api.get('/api/journal', { query: { after, limit } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -26,7 +26,7 @@ export function registerJournalTools(server: McpServer) {
     },
     async ({ id }) => {
       log('tool_invocation', { tool: 'journal_get', id })
-      const data = await api.get(`/api/journal/${id}`)
+      const data = await api.get('/api/journal/{id}', { params: { id } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -40,17 +40,19 @@ export function registerJournalTools(server: McpServer) {
       is_public: z.boolean().default(false).describe('Make publicly visible as a blog post'),
       slug: z.string().optional().describe('URL slug (auto-generated from title if public and not provided)'),
       excerpt: z.string().optional().describe('Short excerpt for blog listing'),
+      tags: z.array(z.string()).optional().describe('Blog tags, lowercase with hyphens (e.g. ["homelab", "math"])'),
+      published_at: z.string().datetime({ offset: true }).optional().describe('ISO 8601 publish time; a future time schedules the post'),
     },
     async (params) => {
       log('tool_invocation', { tool: 'journal_create', title: params.title })
-      const data = await api.post('/api/journal', params)
+      const data = await api.post('/api/journal', { body: params })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
 
   server.tool(
     'journal_update',
-    '[WRITE] Update an existing journal entry',
+    '[WRITE] Update an existing journal entry (refused if it was edited elsewhere since journal_get last read it)',
     {
       id: z.number().int().positive().describe('Journal entry ID'),
       title: z.string().describe('Updated title'),
@@ -58,23 +60,25 @@ export function registerJournalTools(server: McpServer) {
       is_public: z.boolean().optional().describe('Update public visibility'),
       slug: z.string().optional().describe('Update URL slug'),
       excerpt: z.string().optional().describe('Update excerpt'),
+      tags: z.array(z.string()).optional().describe('Replace the entry\'s tags'),
+      published_at: z.string().datetime({ offset: true }).optional().describe('Reschedule the post (ISO 8601)'),
     },
     async ({ id, ...body }) => {
       log('tool_invocation', { tool: 'journal_update', id })
-      const data = await api.put(`/api/journal/${id}`, body)
+      const data = await api.put('/api/journal/{id}', { params: { id }, body })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
 
   server.tool(
     'journal_delete',
-    '[WRITE] Permanently delete a journal entry',
+    '[WRITE] Move a journal entry to the trash (restorable until it is purged)',
     {
-      id: z.number().int().positive().describe('Journal entry ID to delete'),
+      id: z.number().int().positive().describe('Journal entry ID to move to the trash'),
     },
     async ({ id }) => {
       log('tool_invocation', { tool: 'journal_delete', id })
-      const data = await api.delete(`/api/journal/${id}`)
+      const data = await api.delete('/api/journal/{id}', { params: { id } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
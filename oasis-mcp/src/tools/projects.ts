@@ -18,8 +18,7 @@ export function registerProjectTools(server: McpServer) {
     },
     async ({ status }) => {
       log('tool_invocation', { tool: 'project_list', status })
-      const query = status ? `?status=${status}` : ''
-      const data = await api.get(`/api/projects${query}`)
+      const data = await api.get('/api/projects', { query: { status } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -32,7 +31,7 @@ export function registerProjectTools(server: McpServer) {
     },
     async ({ id }) => {
       log('tool_invocation', { tool: 'project_get', id })
-      const data = await api.get(`/api/projects/${id}`)
+      const data = await api.get('/api/projects/{id}', { params: { id } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -47,14 +46,14 @@ export function registerProjectTools(server: McpServer) {
     },
     async (params) => {
       log('tool_invocation', { tool: 'project_create', title: params.title })
-      const data = await api.post('/api/projects', params)
+      const data = await api.post('/api/projects', { body: params })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
 
   server.tool(
     'project_update',
-    '[WRITE] Update a project title, description, or status',
+    '[WRITE] Update a project title, description, or status (refused if it was edited elsewhere since project_get last read it)',
     {
       id: z.number().int().positive().describe('Project ID'),
       title: z.string().optional().describe('Updated title'),
@@ -63,7 +62,7 @@ export function registerProjectTools(server: McpServer) {
     },
     async ({ id, ...body }) => {
       log('tool_invocation', { tool: 'project_update', id })
-      const data = await api.put(`/api/projects/${id}`, body)
+      const data = await api.put('/api/projects/{id}', { params: { id }, body })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -76,24 +75,24 @@ export function registerProjectTools(server: McpServer) {
     },
     async ({ id }) => {
       log('tool_invocation', { tool: 'project_delete', id })
-      const data = await api.delete(`/api/projects/${id}`)
+      const data = await api.delete('/api/projects/{id}', { params: { id } })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
 
   server.tool(
     'step_update',
-    '[WRITE] Update a step within a project (status, title, description)',
+    '[WRITE] Update a step within a project (status, title, description; refused if it was edited elsewhere since project_get last read it)',
     {
       project_id: z.number().int().positive().describe('Project ID'),
       step_id: z.number().int().positive().describe('Step ID'),
       title: z.string().optional().describe('Updated title'),
       description: z.string().optional().describe('Updated description'),
-      status: z.enum(['pending', 'in_progress', 'completed', 'skipped']).optional().describe('Updated status'),
+      status: z.enum(['pending', 'active', 'completed', 'skipped']).optional().describe('Updated status'),
     },
     async ({ project_id, step_id, ...body }) => {
       log('tool_invocation', { tool: 'step_update', project_id, step_id })
-      const data = await api.put(`/api/projects/${project_id}/steps/${step_id}`, body)
+      const data = await api.put('/api/projects/{id}/steps/{stepId}', { params: { id: project_id, stepId: step_id }, body })
       return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] }
     }
   )
@@ -1,7 +1,10 @@
+import { useEffect } from 'react'
 import { Outlet } from 'react-router-dom'
-import { NavLink, useNavigate } from 'react-router-dom'
+import { NavLink, useLocation, useNavigate } from 'react-router-dom'
 import { ThemeToggle } from './ui'
 import { useTheme } from './hooks/useTheme'
+import { usePages } from './hooks/usePages'
+import { useJournal } from './hooks/useJournal'
 import { useSession, authClient } from './lib/auth-client'
 import styles from './Layout.module.css'
 
@@ -9,6 +12,27 @@ export default function Layout() {
   const { theme, toggleTheme } = useTheme()
   const { data: session } = useSession()
   const navigate = useNavigate()
+  const location = useLocation()
+  const { pages, fetchPages } = usePages()
+  const { replayDrafts } = useJournal()
+
+  // Refetched on returning to the pages list, so edits show up in the header
+  const onPagesList = location.pathname === '/pages'
+  useEffect(() => {
+    fetchPages()
+  }, [fetchPages, session?.user.id, onPagesList])
+
+  // Journal drafts saved while offline go out once signed in and back online
+  const userId = session?.user.id
+  useEffect(() => {
+    if (!userId) return
+    replayDrafts()
+    const handleOnline = () => { replayDrafts() }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [userId, replayDrafts])
+
+  const navPages = pages.filter(page => page.is_public && page.show_in_nav)
 
   const handleSignOut = async () => {
     await authClient.signOut()
@@ -28,6 +52,15 @@ export default function Layout() {
             >
               Blog
             </NavLink>
+            {navPages.map(page => (
+              <NavLink
+                key={page.id}
+                to={`/${page.slug}`}
+                className={({ isActive }) => `${styles.navLink} ${isActive ? styles.navLinkActive : ''}`}
+              >
+                {page.nav_label || page.title}
+              </NavLink>
+            ))}
             {session && (
               <>
                 <NavLink
@@ -48,6 +81,12 @@ export default function Layout() {
                 >
                   Projects
                 </NavLink>
+                <NavLink
+                  to="/pages"
+                  className={({ isActive }) => `${styles.navLink} ${isActive ? styles.navLinkActive : ''}`}
+                >
+                  Pages
+                </NavLink>
               </>
             )}
           </nav>
@@ -0,0 +1,57 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import styles from './PostContent.module.css'
+
+// Markdown body shared by blog posts and draft previews
+
+export interface ImageAsset {
+  width: number
+  height: number
+  srcset: string
+  webp_srcset: string | null
+}
+
+// Matches the 720px article column
+const IMAGE_SIZES = '(max-width: 720px) 100vw, 720px'
+
+// Uploaded images come with resized variants; anything else renders as written
+function PostImage({ src, alt, asset }: { src?: string; alt?: string; asset?: ImageAsset }) {
+  if (!asset) {
+    return <img src={src} alt={alt || ''} loading="lazy" decoding="async" />
+  }
+
+  return (
+    <picture>
+      {asset.webp_srcset && (
+        <source type="image/webp" srcSet={asset.webp_srcset} sizes={IMAGE_SIZES} />
+      )}
+      <img
+        src={src}
+        alt={alt || ''}
+        srcSet={asset.srcset}
+        sizes={IMAGE_SIZES}
+        width={asset.width}
+        height={asset.height}
+        loading="lazy"
+        decoding="async"
+      />
+    </picture>
+  )
+}
+
+export default function PostContent({ content, assets }: { content: string; assets?: Record<string, ImageAsset> }) {
+  return (
+    <div className={styles.content}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          img: ({ src, alt }) => (
+            <PostImage src={src} alt={alt} asset={src ? assets?.[src] : undefined} />
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
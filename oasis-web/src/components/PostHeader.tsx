@@ -0,0 +1,52 @@
+import { Fragment } from 'react'
+import { Link } from 'react-router-dom'
+import styles from './PostHeader.module.css'
+
+// Title, date, reading time, and tags — shared by blog posts and previews
+
+interface PostHeaderProps {
+  title: string
+  date: string
+  /** Shown before the date, e.g. "Updated" */
+  datePrefix?: string
+  readingTime: number
+  tags?: string[]
+  /** Extra meta items after the reading time, e.g. "Part 2 of 5" */
+  extra?: string[]
+  /** Off where following a tag would leave unsaved work, like the editor preview */
+  linkTags?: boolean
+}
+
+export default function PostHeader({ title, date, datePrefix, readingTime, tags = [], extra = [], linkTags = true }: PostHeaderProps) {
+  const formattedDate = new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  return (
+    <header className={styles.header}>
+      <h1 className={styles.title}>{title}</h1>
+      <div className={styles.meta}>
+        <time dateTime={date}>{datePrefix ? `${datePrefix} ${formattedDate}` : formattedDate}</time>
+        <span className={styles.dot}>&middot;</span>
+        <span>{readingTime} min read</span>
+        {extra.map(item => (
+          <Fragment key={item}>
+            <span className={styles.dot}>&middot;</span>
+            <span>{item}</span>
+          </Fragment>
+        ))}
+      </div>
+      {tags.length > 0 && (
+        <div className={styles.tags}>
+          {tags.map(tag => linkTags ? (
+            <Link key={tag} to={`/blog/tag/${tag}`} className={styles.tag}>#{tag}</Link>
+          ) : (
+            <span key={tag} className={styles.tag}>#{tag}</span>
+          ))}
+        </div>
+      )}
+    </header>
+  )
+}
@@ -1,20 +1,46 @@
 import { useState, useCallback } from 'react'
+import { isDraftApplied, listQueuedDrafts, removeQueuedDraft, type DraftData } from '../lib/draftQueue'
+import { writeHeaders } from '../lib/etag'
+import {
+  api,
+  fieldMessages,
+  type DraftPreviewResponse,
+  type ImportReport,
+  type JournalEntry,
+  type Revision,
+  type RevisionSummary,
+  type ShareLink,
+  type SlugAvailability,
+  type TrashedEntry,
+} from '../lib/api'
 
-export interface JournalEntry {
-  id: number
-  title: string
-  content: string
-  is_public: boolean
-  slug?: string | null
-  excerpt?: string | null
-  published_at?: string | null
-  created_at: string
-  updated_at: string
-}
+export type {
+  JournalEntry,
+  TrashedEntry,
+  SlugAvailability,
+  RevisionSummary,
+  Revision,
+  ShareLink,
+  ImportReport,
+} from '../lib/api'
+
+export type DraftPreview = DraftPreviewResponse['preview']
+export type ImportedFile = ImportReport['created'][number]
+
+/**
+ * How a save went: a conflict carries the server's current version, and
+ * "offline" (no connection or a server error) means it's worth retrying.
+ */
+export type SaveOutcome =
+  | { status: 'saved'; entry: JournalEntry }
+  | { status: 'conflict'; entry: JournalEntry }
+  | { status: 'offline' }
+  | { status: 'rejected'; error: string; fields: Record<string, string> }
 
 interface JournalState {
   entries: JournalEntry[]
-  total: number
+  /** Pass to fetchEntries for the next page; null when there isn't one */
+  nextCursor: string | null
   loading: boolean
   error: string | null
 }
@@ -22,23 +48,24 @@ interface JournalState {
 export function useJournal() {
   const [state, setState] = useState<JournalState>({
     entries: [],
-    total: 0,
+    nextCursor: null,
     loading: false,
     error: null
   })
 
-  const fetchEntries = useCallback(async (page = 1, limit = 20) => {
+  // Without a cursor, loads the first page; with one, appends the page after it
+  const fetchEntries = useCallback(async (after?: string, limit = 20) => {
     setState(prev => ({ ...prev, loading: true, error: null }))
     try {
-      const res = await fetch(`/api/journal?page=${page}&limit=${limit}`)
+      const res = await api.get('/api/journal', { query: { after, limit } })
       if (!res.ok) throw new Error('Failed to fetch entries')
-      const data = await res.json()
-      setState({
-        entries: data.entries,
-        total: data.total,
+      const { entries, next_cursor } = res.data
+      setState(prev => ({
+        entries: after ? [...prev.entries, ...entries] : entries,
+        nextCursor: next_cursor,
         loading: false,
         error: null
-      })
+      }))
     } catch (err) {
       setState(prev => ({
         ...prev,
@@ -50,50 +77,188 @@ export function useJournal() {
 
   const getEntry = useCallback(async (id: number): Promise<JournalEntry | null> => {
     try {
-      const res = await fetch(`/api/journal/${id}`)
-      if (!res.ok) return null
-      const data = await res.json()
-      return data.entry
+      const res = await api.get('/api/journal/{id}', { params: { id } })
+      return res.ok ? res.data.entry : null
     } catch {
       return null
     }
   }, [])
 
-  const createEntry = useCallback(async (data: { title: string; content: string; is_public?: boolean; slug?: string; excerpt?: string }): Promise<JournalEntry | null> => {
+  const createEntry = useCallback(async (data: DraftData): Promise<JournalEntry | null> => {
     try {
-      const res = await fetch('/api/journal', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
-      })
-      if (!res.ok) throw new Error('Failed to create entry')
-      const result = await res.json()
-      return result.entry
+      const res = await api.post('/api/journal', { body: data })
+      return res.ok ? res.data.entry : null
     } catch {
       return null
     }
   }, [])
 
-  const updateEntry = useCallback(async (id: number, data: { title: string; content: string; is_public?: boolean; slug?: string; excerpt?: string }): Promise<JournalEntry | null> => {
+  const updateEntry = useCallback(async (id: number, data: DraftData, baseUpdatedAt?: string): Promise<JournalEntry | null> => {
     try {
-      const res = await fetch(`/api/journal/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
+      const res = await api.put('/api/journal/{id}', {
+        params: { id },
+        headers: writeHeaders(baseUpdatedAt),
+        body: data
       })
-      if (!res.ok) throw new Error('Failed to update entry')
-      const result = await res.json()
-      return result.entry
+      return res.ok ? res.data.entry : null
     } catch {
       return null
     }
   }, [])
 
+  // Create or update; updates send If-Match for the version the edits were based on.
+  // Creates send the draft's key, so a create that is sent twice makes one entry.
+  const saveEntry = useCallback(async (
+    id: number | null,
+    data: DraftData,
+    baseUpdatedAt: string | null,
+    draftKey: string
+  ): Promise<SaveOutcome> => {
+    let res
+    try {
+      res = id
+        ? await api.put('/api/journal/{id}', { params: { id }, headers: writeHeaders(baseUpdatedAt), body: data })
+        : await api.post('/api/journal', { headers: { 'Idempotency-Key': draftKey }, body: data })
+    } catch {
+      return { status: 'offline' }
+    }
+    // An earlier create with this key got through, with older text
+    if (res.ok && !id && !isDraftApplied(res.data.entry, data)) {
+      return saveEntry(res.data.entry.id, data, res.data.entry.updated_at, draftKey)
+    }
+    if (res.ok) return { status: 'saved', entry: res.data.entry }
+    // A taken slug is a 409, but without the current entry
+    const current = res.body.entry as JournalEntry | undefined
+    if ((res.status === 412 || res.status === 409) && current) return { status: 'conflict', entry: current }
+    if (res.status >= 500) return { status: 'offline' }
+    return { status: 'rejected', error: res.error.message, fields: fieldMessages(res.error) }
+  }, [])
+
+  // Sends drafts queued while offline. Conflicting ones stay queued; the
+  // editor offers a merge the next time that entry is opened.
+  const replayDrafts = useCallback(async () => {
+    let drafts
+    try {
+      drafts = await listQueuedDrafts()
+    } catch {
+      return
+    }
+    for (const draft of drafts) {
+      const outcome = await saveEntry(draft.entryId, draft.data, draft.baseUpdatedAt, draft.key)
+      if (outcome.status === 'offline') return
+      if (outcome.status === 'saved' || (outcome.status === 'conflict' && isDraftApplied(outcome.entry, draft.data))) {
+        await removeQueuedDraft(draft.key, draft.queuedAt)
+      }
+    }
+  }, [saveEntry])
+
   const deleteEntry = useCallback(async (id: number): Promise<boolean> => {
     try {
-      const res = await fetch(`/api/journal/${id}`, {
-        method: 'DELETE'
+      const res = await api.delete('/api/journal/{id}', { params: { id } })
+      return res.ok
+    } catch {
+      return false
+    }
+  }, [])
+
+  const checkSlug = useCallback(async (slug: string, excludeId?: number | null): Promise<SlugAvailability | null> => {
+    try {
+      const res = await api.get('/api/journal/slug-available', {
+        query: { slug, exclude_id: excludeId || undefined }
       })
+      return res.ok ? res.data : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  const fetchTrash = useCallback(async (): Promise<TrashedEntry[]> => {
+    try {
+      const res = await api.get('/api/journal/trash')
+      return res.ok ? res.data.entries : []
+    } catch {
+      return []
+    }
+  }, [])
+
+  const restoreEntry = useCallback(async (id: number): Promise<JournalEntry | null> => {
+    try {
+      const res = await api.post('/api/journal/{id}/restore', { params: { id } })
+      return res.ok ? res.data.entry : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  const listRevisions = useCallback(async (id: number): Promise<RevisionSummary[]> => {
+    try {
+      const res = await api.get('/api/journal/{id}/revisions', { params: { id } })
+      return res.ok ? res.data.revisions : []
+    } catch {
+      return []
+    }
+  }, [])
+
+  const getRevision = useCallback(async (id: number, revisionId: number): Promise<Revision | null> => {
+    try {
+      const res = await api.get('/api/journal/{id}/revisions/{rev}', { params: { id, rev: revisionId } })
+      return res.ok ? res.data.revision : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  const restoreRevision = useCallback(async (id: number, revisionId: number): Promise<JournalEntry | null> => {
+    try {
+      const res = await api.post('/api/journal/{id}/revisions/{rev}/restore', { params: { id, rev: revisionId } })
+      return res.ok ? res.data.entry : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  const previewDraft = useCallback(async (draft: { content: string; excerpt?: string }): Promise<DraftPreview | null> => {
+    try {
+      const res = await api.post('/api/journal/preview', { body: draft })
+      return res.ok ? res.data.preview : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  // Throws with the API's message so the page can show why an archive was refused
+  const importArchive = useCallback(async (file: File): Promise<ImportReport> => {
+    const form = new FormData()
+    form.append('file', file)
+    const res = await api.post('/api/journal/import', { body: form })
+    if (!res.ok) throw new Error(res.error.message)
+    return res.data
+  }, [])
+
+  const listShareLinks = useCallback(async (id: number): Promise<ShareLink[]> => {
+    try {
+      const res = await api.get('/api/journal/{id}/share-links', { params: { id } })
+      return res.ok ? res.data.links : []
+    } catch {
+      return []
+    }
+  }, [])
+
+  const createShareLink = useCallback(async (id: number, expiresInDays: number): Promise<ShareLink | null> => {
+    try {
+      const res = await api.post('/api/journal/{id}/share-links', {
+        params: { id },
+        body: { expires_in_days: expiresInDays }
+      })
+      return res.ok ? res.data.link : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  const revokeShareLink = useCallback(async (id: number, linkId: number): Promise<boolean> => {
+    try {
+      const res = await api.delete('/api/journal/{id}/share-links/{linkId}', { params: { id, linkId } })
       return res.ok
     } catch {
       return false
@@ -106,6 +271,19 @@ export function useJournal() {
     getEntry,
     createEntry,
     updateEntry,
-    deleteEntry
+    saveEntry,
+    replayDrafts,
+    deleteEntry,
+    checkSlug,
+    previewDraft,
+    fetchTrash,
+    restoreEntry,
+    listRevisions,
+    getRevision,
+    restoreRevision,
+    importArchive,
+    listShareLinks,
+    createShareLink,
+    revokeShareLink
   }
 }
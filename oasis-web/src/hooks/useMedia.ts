@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react'
+import { api, type MediaAsset } from '../lib/api'
+
+export type { MediaAsset }
+
+export function useMedia() {
+  const [uploading, setUploading] = useState(false)
+
+  // Throws with the API's message so the editor can show why an upload was refused
+  const upload = useCallback(async (file: File): Promise<MediaAsset> => {
+    setUploading(true)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      const res = await api.post('/api/media', { body: form })
+      if (!res.ok) throw new Error(res.error.message)
+      return res.data.asset
+    } finally {
+      setUploading(false)
+    }
+  }, [])
+
+  return { upload, uploading }
+}
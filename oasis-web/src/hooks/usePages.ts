@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react'
+import { writeHeaders } from '../lib/etag'
+import { api, type Page, type PageLink } from '../lib/api'
+
+export type { Page }
+
+/** What the header needs; anonymous visitors get pages without content */
+export type { PageLink }
+
+export interface PageInput {
+  title: string
+  content: string
+  slug?: string
+  is_public: boolean
+  show_in_nav: boolean
+  nav_label?: string | null
+  nav_order: number
+}
+
+export interface SavePageResult {
+  page: Page | null
+  error: string | null
+}
+
+export function usePages() {
+  const [pages, setPages] = useState<PageLink[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchPages = useCallback(async (): Promise<PageLink[]> => {
+    setLoading(true)
+    try {
+      const res = await api.get('/api/pages')
+      if (!res.ok) throw new Error('Failed to fetch pages')
+      setPages(res.data.pages)
+      return res.data.pages
+    } catch {
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Signed in, the list carries full pages; editing picks one out of it
+  const getPage = useCallback(async (id: number): Promise<Page | null> => {
+    try {
+      const res = await api.get('/api/pages')
+      if (!res.ok) return null
+      const page = res.data.pages.find(p => p.id === id)
+      return page && 'content' in page ? page : null
+    } catch {
+      return null
+    }
+  }, [])
+
+  // Returns the API's message (e.g. a taken slug, or an edit made elsewhere
+  // since the page was loaded) so the form can show it
+  const savePage = useCallback(async (id: number | null, data: PageInput, baseUpdatedAt?: string): Promise<SavePageResult> => {
+    try {
+      const res = id
+        ? await api.put('/api/pages/{id}', { params: { id }, headers: writeHeaders(baseUpdatedAt), body: data })
+        : await api.post('/api/pages', { body: data })
+      if (!res.ok) return { page: null, error: res.error.message }
+      return { page: res.data.page, error: null }
+    } catch {
+      return { page: null, error: 'Failed to save page' }
+    }
+  }, [])
+
+  const deletePage = useCallback(async (id: number): Promise<boolean> => {
+    try {
+      const res = await api.delete('/api/pages/{id}', { params: { id } })
+      return res.ok
+    } catch {
+      return false
+    }
+  }, [])
+
+  return {
+    pages,
+    loading,
+    fetchPages,
+    getPage,
+    savePage,
+    deletePage
+  }
+}
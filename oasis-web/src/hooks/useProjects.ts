@@ -1,18 +1,21 @@
 import { useState, useCallback } from 'react'
-
-export interface ProjectStep {
-  id: number
-  project_id: number
-  parent_id: number | null
-  title: string
-  description: string
-  status: 'pending' | 'active' | 'completed' | 'skipped'
-  sort_order: number
-  meta: Record<string, unknown>
-  created_at: string
-  updated_at: string
-  completed_at: string | null
-}
+import { writeHeaders } from '../lib/etag'
+import {
+  api,
+  fieldMessages,
+  type ApiError,
+  type CreateProject,
+  type GeneratedStep,
+  type Project,
+  type ProjectSummary,
+  type StepInput,
+  type Step,
+  type UpdateProject,
+  type UpdateStep,
+} from '../lib/api'
+
+export type ProjectStep = Step
+export type { Project, ProjectSummary }
 
 export interface StepTreeNode extends ProjectStep {
   children: StepTreeNode[]
@@ -38,20 +41,30 @@ export function buildStepTree(steps: ProjectStep[]): StepTreeNode[] {
   return roots
 }
 
-export interface Project {
-  id: number
-  title: string
-  description: string
-  status: 'active' | 'paused' | 'completed' | 'archived'
-  meta: Record<string, unknown>
-  total_steps: number
-  completed_steps: number
-  created_at: string
-  updated_at: string
+/**
+ * Updates pass the updated_at they were based on; if the project or step has
+ * changed since, nothing is written and the current version comes back.
+ */
+export type ProjectUpdateResult<T> =
+  | { status: 'saved'; value: T }
+  | { status: 'conflict'; value: T }
+  | ProjectSaveFailure
+
+/** The API's message, plus per-field messages for the form */
+export interface ProjectSaveFailure {
+  status: 'failed'
+  message: string
+  fields: Record<string, string>
+}
+
+function failure(error: ApiError | null, fallback: string): ProjectSaveFailure {
+  return error
+    ? { status: 'failed', message: error.message, fields: fieldMessages(error) }
+    : { status: 'failed', message: fallback, fields: {} }
 }
 
 interface ProjectsState {
-  projects: Project[]
+  projects: ProjectSummary[]
   loading: boolean
   error: string | null
 }
@@ -63,14 +76,12 @@ export function useProjects() {
     error: null,
   })
 
-  const fetchProjects = useCallback(async (status?: string) => {
+  const fetchProjects = useCallback(async (status?: ProjectSummary['status']) => {
     setState(prev => ({ ...prev, loading: true, error: null }))
     try {
-      const url = status ? `/api/projects?status=${status}` : '/api/projects'
-      const res = await fetch(url)
+      const res = await api.get('/api/projects', { query: { status } })
       if (!res.ok) throw new Error('Failed to fetch projects')
-      const data = await res.json()
-      setState({ projects: data.projects, loading: false, error: null })
+      setState({ projects: res.data.projects, loading: false, error: null })
     } catch (err) {
       setState(prev => ({
         ...prev,
@@ -82,56 +93,40 @@ export function useProjects() {
 
   const getProject = useCallback(async (id: number): Promise<{ project: Project; steps: ProjectStep[] } | null> => {
     try {
-      const res = await fetch(`/api/projects/${id}`)
-      if (!res.ok) return null
-      return await res.json()
+      const res = await api.get('/api/projects/{id}', { params: { id } })
+      return res.ok ? res.data : null
     } catch {
       return null
     }
   }, [])
 
-  const createProject = useCallback(async (data: {
-    title: string
-    description?: string
-    meta?: Record<string, unknown>
-    steps?: Array<{ title: string; description?: string; children?: any[]; meta?: Record<string, unknown> }>
-  }): Promise<{ project: Project; steps: ProjectStep[] } | null> => {
+  const createProject = useCallback(async (data: CreateProject): Promise<{ status: 'saved'; value: { project: Project; steps: ProjectStep[] } } | ProjectSaveFailure> => {
     try {
-      const res = await fetch('/api/projects', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      })
-      if (!res.ok) throw new Error('Failed to create project')
-      return await res.json()
+      const res = await api.post('/api/projects', { body: data })
+      return res.ok ? { status: 'saved', value: res.data } : failure(res.error, 'Failed to create project')
     } catch {
-      return null
+      return failure(null, 'Failed to create project')
     }
   }, [])
 
-  const updateProject = useCallback(async (id: number, data: {
-    title?: string
-    description?: string
-    status?: string
-    meta?: Record<string, unknown>
-  }): Promise<Project | null> => {
+  const updateProject = useCallback(async (id: number, data: UpdateProject, baseUpdatedAt?: string): Promise<ProjectUpdateResult<Project>> => {
     try {
-      const res = await fetch(`/api/projects/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+      const res = await api.put('/api/projects/{id}', {
+        params: { id },
+        headers: writeHeaders(baseUpdatedAt),
+        body: data,
       })
-      if (!res.ok) throw new Error('Failed to update project')
-      const result = await res.json()
-      return result.project
+      if (res.ok) return { status: 'saved', value: res.data.project }
+      const current = res.body.project as Project | undefined
+      return res.status === 412 && current ? { status: 'conflict', value: current } : failure(res.error, 'Failed to update project')
     } catch {
-      return null
+      return failure(null, 'Failed to update project')
     }
   }, [])
 
   const deleteProject = useCallback(async (id: number): Promise<boolean> => {
     try {
-      const res = await fetch(`/api/projects/${id}`, { method: 'DELETE' })
+      const res = await api.delete('/api/projects/{id}', { params: { id } })
       return res.ok
     } catch {
       return false
@@ -139,19 +134,10 @@ export function useProjects() {
   }, [])
 
   // Step operations
-  const addSteps = useCallback(async (
-    projectId: number,
-    steps: Array<{ title: string; description?: string; parent_id?: number | null; meta?: Record<string, unknown> }>
-  ): Promise<ProjectStep[] | null> => {
+  const addSteps = useCallback(async (projectId: number, steps: StepInput[]): Promise<ProjectStep[] | null> => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/steps`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(steps),
-      })
-      if (!res.ok) throw new Error('Failed to add steps')
-      const result = await res.json()
-      return result.steps
+      const res = await api.post('/api/projects/{id}/steps', { params: { id: projectId }, body: steps })
+      return res.ok ? res.data.steps : null
     } catch {
       return null
     }
@@ -160,25 +146,26 @@ export function useProjects() {
   const updateStep = useCallback(async (
     projectId: number,
     stepId: number,
-    data: { title?: string; description?: string; status?: string; sort_order?: number; meta?: Record<string, unknown> }
-  ): Promise<ProjectStep | null> => {
+    data: UpdateStep,
+    baseUpdatedAt: string
+  ): Promise<ProjectUpdateResult<ProjectStep>> => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/steps/${stepId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+      const res = await api.put('/api/projects/{id}/steps/{stepId}', {
+        params: { id: projectId, stepId },
+        headers: writeHeaders(baseUpdatedAt),
+        body: data,
       })
-      if (!res.ok) throw new Error('Failed to update step')
-      const result = await res.json()
-      return result.step
+      if (res.ok) return { status: 'saved', value: res.data.step }
+      const current = res.body.step as ProjectStep | undefined
+      return res.status === 412 && current ? { status: 'conflict', value: current } : failure(res.error, 'Failed to update step')
     } catch {
-      return null
+      return failure(null, 'Failed to update step')
     }
   }, [])
 
   const deleteStep = useCallback(async (projectId: number, stepId: number): Promise<boolean> => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/steps/${stepId}`, { method: 'DELETE' })
+      const res = await api.delete('/api/projects/{id}/steps/{stepId}', { params: { id: projectId, stepId } })
       return res.ok
     } catch {
       return false
@@ -187,13 +174,14 @@ export function useProjects() {
 
   const reorderSteps = useCallback(async (
     projectId: number,
-    updates: Array<{ id: number; sort_order: number }>
+    updates: Array<{ id: number; sort_order: number }>,
+    baseUpdatedAt: string
   ): Promise<boolean> => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/steps`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates),
+      const res = await api.put('/api/projects/{id}/steps', {
+        params: { id: projectId },
+        headers: writeHeaders(baseUpdatedAt),
+        body: updates,
       })
       return res.ok
     } catch {
@@ -201,22 +189,10 @@ export function useProjects() {
     }
   }, [])
 
-  const generateSteps = useCallback(async (
-    title: string,
-    description?: string
-  ): Promise<Array<{ title: string; description: string; children: any[] }> | null> => {
+  const generateSteps = useCallback(async (title: string, description?: string): Promise<GeneratedStep[] | null> => {
     try {
-      const res = await fetch('/api/projects/generate-steps', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title, description }),
-      })
-      if (!res.ok) {
-        const err = await res.json()
-        throw new Error(err.error || 'Failed to generate steps')
-      }
-      const data = await res.json()
-      return data.steps
+      const res = await api.post('/api/projects/generate-steps', { body: { title, description } })
+      return res.ok ? res.data.steps : null
     } catch {
       return null
     }
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react'
+
+export interface SearchResult {
+  id?: number
+  slug: string | null
+  title: string
+  is_public?: boolean
+  published_at: string | null
+  created_at?: string
+  snippet: { text: string; match: boolean }[]
+}
+
+const SEARCH_DELAY = 250
+
+// publicOnly restricts results to published posts even when signed in (blog search)
+export function useSearch({ publicOnly = false }: { publicOnly?: boolean } = {}) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const q = query.trim()
+    if (!q) {
+      setResults([])
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+
+    // Debounce keystrokes; abort the in-flight request when the query changes
+    const timer = setTimeout(async () => {
+      try {
+        const scope = publicOnly ? '&scope=public' : ''
+        const res = await fetch(`/api/journal/search?q=${encodeURIComponent(q)}${scope}`, {
+          signal: controller.signal,
+        })
+        if (!res.ok) throw new Error('Search failed')
+        const data = await res.json()
+        setResults(data.results)
+      } catch {
+        if (!controller.signal.aborted) setResults([])
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }, SEARCH_DELAY)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, publicOnly])
+
+  return {
+    query,
+    setQuery,
+    results,
+    loading,
+    active: query.trim().length > 0,
+  }
+}
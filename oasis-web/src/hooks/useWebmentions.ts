@@ -0,0 +1,43 @@
+import { useState, useCallback } from 'react'
+import { api, type Webmention } from '../lib/api'
+
+export type { Webmention }
+export type MentionStatus = Webmention['status']
+
+export function useWebmentions() {
+  const [mentions, setMentions] = useState<Webmention[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchMentions = useCallback(async (status: MentionStatus = 'pending'): Promise<Webmention[]> => {
+    setLoading(true)
+    try {
+      const res = await api.get('/api/webmentions', { query: { status } })
+      if (!res.ok) throw new Error('Failed to fetch mentions')
+      setMentions(res.data.mentions)
+      return res.data.mentions
+    } catch {
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Moderated mentions leave the list being shown
+  const moderateMention = useCallback(async (id: number, status: MentionStatus): Promise<boolean> => {
+    try {
+      const res = await api.put('/api/webmentions/{id}', { params: { id }, body: { status } })
+      if (!res.ok) return false
+      setMentions(prev => prev.filter(m => m.id !== id))
+      return true
+    } catch {
+      return false
+    }
+  }, [])
+
+  return {
+    mentions,
+    loading,
+    fetchMentions,
+    moderateMention
+  }
+}
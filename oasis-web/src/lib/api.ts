@@ -0,0 +1,7 @@
+import { createClient } from '../../../oasis-client/src'
+
+// Typed client for the API. Same-origin: Vite and nginx proxy /api through.
+export const api = createClient()
+
+export { fieldMessages } from '../../../oasis-client/src'
+export type * from '../../../oasis-client/src'
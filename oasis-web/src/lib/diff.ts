@@ -0,0 +1,114 @@
+// Line-based diff for the side-by-side revision view.
+// Plain LCS — journal entries are small enough that O(n·m) is fine.
+
+export type DiffRow =
+  | { type: 'same'; left: string; right: string }
+  | { type: 'changed'; left: string; right: string }
+  | { type: 'removed'; left: string; right: null }
+  | { type: 'added'; left: null; right: string }
+
+type Op = { type: 'same' | 'removed' | 'added'; line: string }
+
+function diffOps(a: string[], b: string[]): Op[] {
+  const n = a.length
+  const m = b.length
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: Op[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', line: a[i++] })
+    } else {
+      ops.push({ type: 'added', line: b[j++] })
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', line: a[i++] })
+  while (j < m) ops.push({ type: 'added', line: b[j++] })
+  return ops
+}
+
+/**
+ * Diff two texts into side-by-side rows. Adjacent removals and additions
+ * are paired up as "changed" rows so edited lines sit next to each other.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const ops = diffOps(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+
+  let k = 0
+  while (k < ops.length) {
+    if (ops[k].type === 'same') {
+      rows.push({ type: 'same', left: ops[k].line, right: ops[k].line })
+      k++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (k < ops.length && ops[k].type !== 'same') {
+      if (ops[k].type === 'removed') removed.push(ops[k].line)
+      else added.push(ops[k].line)
+      k++
+    }
+
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      if (r < removed.length && r < added.length) {
+        rows.push({ type: 'changed', left: removed[r], right: added[r] })
+      } else if (r < removed.length) {
+        rows.push({ type: 'removed', left: removed[r], right: null })
+      } else {
+        rows.push({ type: 'added', left: null, right: added[r] })
+      }
+    }
+  }
+
+  return rows
+}
+
+export const CONFLICT_START = '<<<<<<< Saved version'
+export const CONFLICT_SEPARATOR = '======='
+export const CONFLICT_END = '>>>>>>> Your version'
+
+/**
+ * Text for resolving a save conflict by hand: lines both versions share
+ * appear once, and each stretch where they differ becomes a git-style
+ * conflict block with the saved version first.
+ */
+export function mergeWithConflictMarkers(saved: string, mine: string): string {
+  const ops = diffOps(saved.split('\n'), mine.split('\n'))
+  const lines: string[] = []
+
+  let k = 0
+  while (k < ops.length) {
+    if (ops[k].type === 'same') {
+      lines.push(ops[k++].line)
+      continue
+    }
+    const savedLines: string[] = []
+    const myLines: string[] = []
+    while (k < ops.length && ops[k].type !== 'same') {
+      if (ops[k].type === 'removed') savedLines.push(ops[k].line)
+      else myLines.push(ops[k].line)
+      k++
+    }
+    lines.push(CONFLICT_START, ...savedLines, CONFLICT_SEPARATOR, ...myLines, CONFLICT_END)
+  }
+
+  return lines.join('\n')
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return text.split('\n').some(line => line === CONFLICT_START || line === CONFLICT_END)
+}
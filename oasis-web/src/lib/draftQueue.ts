@@ -0,0 +1,101 @@
+// Journal drafts waiting to reach the API, kept in IndexedDB so edits made
+// while offline (or while the API is down) survive reloads and are sent
+// once the connection is back.
+
+export interface DraftData {
+  title: string
+  content: string
+  is_public?: boolean
+  slug?: string
+  excerpt?: string
+  tags?: string[]
+  published_at?: string
+}
+
+export interface QueuedDraft {
+  /** Entry id, or "new:<random>" for an entry that hasn't been created yet */
+  key: string
+  entryId: number | null
+  data: DraftData
+  /** updated_at of the version the edits were based on; null for new entries */
+  baseUpdatedAt: string | null
+  queuedAt: number
+}
+
+const DB_NAME = 'ash1-journal'
+const STORE = 'drafts'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const request = run(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(request.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function draftKey(entryId: number): string {
+  return String(entryId)
+}
+
+export function newDraftKey(): string {
+  return `new:${crypto.randomUUID()}`
+}
+
+export function queueDraft(draft: QueuedDraft): Promise<void> {
+  return withStore('readwrite', store => store.put(draft))
+}
+
+export async function getQueuedDraft(key: string): Promise<QueuedDraft | null> {
+  return (await withStore<QueuedDraft | undefined>('readonly', store => store.get(key))) ?? null
+}
+
+export function listQueuedDrafts(): Promise<QueuedDraft[]> {
+  return withStore('readonly', store => store.getAll())
+}
+
+/**
+ * Drop a draft once it has been saved. With queuedAt, only that version is
+ * dropped — newer edits queued while the save was in flight are kept.
+ */
+export async function removeQueuedDraft(key: string, queuedAt?: number): Promise<void> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite')
+    const store = tx.objectStore(STORE)
+    const request = store.get(key)
+    request.onsuccess = () => {
+      const draft = request.result as QueuedDraft | undefined
+      if (draft && (queuedAt === undefined || draft.queuedAt === queuedAt)) store.delete(key)
+    }
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+// A "conflicting" server version that already holds the draft's text means
+// the draft did get through (e.g. a save that finished as the page closed)
+export function isDraftApplied(entry: { title: string; content: string }, data: DraftData): boolean {
+  return entry.title === data.title && entry.content === data.content
+}
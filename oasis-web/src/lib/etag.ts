@@ -0,0 +1,12 @@
+// The API's ETag for a row: its updated_at in epoch milliseconds. Sent back
+// as If-Match, it makes a write fail (412) if someone else saved first.
+export function etagFor(updatedAt: string): string {
+  return `"${new Date(updatedAt).getTime()}"`
+}
+
+// JSON request headers, with If-Match when the version being edited is known
+export function writeHeaders(baseUpdatedAt?: string | null): Record<string, string> {
+  return baseUpdatedAt
+    ? { 'Content-Type': 'application/json', 'If-Match': etagFor(baseUpdatedAt) }
+    : { 'Content-Type': 'application/json' }
+}
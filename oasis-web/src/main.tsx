@@ -5,6 +5,7 @@ import Layout from './Layout'
 import RequireAuth from './components/RequireAuth'
 import BlogFeedPage from './pages/BlogFeedPage'
 import BlogPostPage from './pages/BlogPostPage'
+import PreviewPage from './pages/PreviewPage'
 import DashboardPage from './pages/DashboardPage'
 import ProjectsPage from './pages/ProjectsPage'
 import ProjectDetailPage from './pages/ProjectDetailPage'
@@ -13,6 +14,10 @@ import ProjectEditPage from './pages/ProjectEditPage'
 import JournalPage from './pages/JournalPage'
 import JournalEditPage from './pages/JournalEditPage'
 import LoginPage from './pages/LoginPage'
+import PagesPage from './pages/PagesPage'
+import PageEditPage from './pages/PageEditPage'
+import StaticPage from './pages/StaticPage'
+import NotFoundPage from './pages/NotFoundPage'
 import './index.css'
 
 createRoot(document.getElementById('root')!).render(
@@ -21,7 +26,9 @@ createRoot(document.getElementById('root')!).render(
       <Routes>
         <Route element={<Layout />}>
           <Route index element={<BlogFeedPage />} />
+          <Route path="blog/tag/:tag" element={<BlogFeedPage />} />
           <Route path="blog/:slug" element={<BlogPostPage />} />
+          <Route path="preview/:token" element={<PreviewPage />} />
           <Route path="login" element={<LoginPage />} />
           <Route path="journal" element={<RequireAuth><JournalPage /></RequireAuth>} />
           <Route path="dashboard" element={<RequireAuth><DashboardPage /></RequireAuth>} />
@@ -29,6 +36,12 @@ createRoot(document.getElementById('root')!).render(
           <Route path="projects/new" element={<RequireAuth><ProjectNewPage /></RequireAuth>} />
           <Route path="projects/:id" element={<RequireAuth><ProjectDetailPage /></RequireAuth>} />
           <Route path="projects/:id/edit" element={<RequireAuth><ProjectEditPage /></RequireAuth>} />
+          <Route path="pages" element={<RequireAuth><PagesPage /></RequireAuth>} />
+          <Route path="pages/new" element={<RequireAuth><PageEditPage /></RequireAuth>} />
+          <Route path="pages/:id/edit" element={<RequireAuth><PageEditPage /></RequireAuth>} />
+          {/* Custom pages live at the root; unknown slugs render the 404 page */}
+          <Route path=":slug" element={<StaticPage />} />
+          <Route path="*" element={<NotFoundPage />} />
         </Route>
         <Route path="journal/new" element={<RequireAuth><JournalEditPage /></RequireAuth>} />
         <Route path="journal/:id" element={<JournalEditPage />} />
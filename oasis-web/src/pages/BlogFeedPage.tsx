@@ -1,67 +1,99 @@
-import { useState, useEffect, useCallback } from 'react'
-import { PostCard } from '../ui'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { PostCard, SearchBox } from '../ui'
+import { useSearch, type SearchResult } from '../hooks/useSearch'
+import { api, type PostSummary } from '../lib/api'
 import styles from './BlogFeedPage.module.css'
 
-interface BlogPost {
-  slug: string
-  title: string
-  excerpt: string
-  published_at: string
-  reading_time: number
-}
-
 export default function BlogFeedPage() {
-  const [posts, setPosts] = useState<BlogPost[]>([])
-  const [total, setTotal] = useState(0)
-  const [page, setPage] = useState(1)
+  const { tag } = useParams<{ tag: string }>()
+  const navigate = useNavigate()
+  const search = useSearch({ publicOnly: true })
+  const [posts, setPosts] = useState<PostSummary[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  // Stops infinite scroll from retrying a failing request; the button still can
+  const [loadFailed, setLoadFailed] = useState(false)
+  const loadMoreRef = useRef<HTMLButtonElement>(null)
   const limit = 10
 
-  const fetchPosts = useCallback(async (pageNum: number, append = false) => {
+  const fetchPosts = useCallback(async (after?: string) => {
     setLoading(true)
     try {
-      const res = await fetch(`/api/journal/public?page=${pageNum}&limit=${limit}`)
+      const res = await api.get('/api/journal/public', { query: { limit, after, tag } })
       if (!res.ok) throw new Error('Failed to fetch posts')
-      const data = await res.json()
-      setPosts(prev => append ? [...prev, ...data.posts] : data.posts)
-      setTotal(data.total)
+      setPosts(prev => after ? [...prev, ...res.data.posts] : res.data.posts)
+      setNextCursor(res.data.next_cursor)
+      setLoadFailed(false)
     } catch {
       // Silently handle — empty state shown
+      setLoadFailed(true)
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [tag])
 
   useEffect(() => {
-    fetchPosts(1)
+    setNextCursor(null)
+    fetchPosts()
   }, [fetchPosts])
 
+  // Infinite scroll: the next page loads as the Load more button nears the
+  // viewport. Re-attached after each page, so one scroll fetches one page.
+  useEffect(() => {
+    const button = loadMoreRef.current
+    if (!button || !nextCursor || loading || loadFailed || search.active) return
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) fetchPosts(nextCursor)
+    }, { rootMargin: '400px 0px' })
+    observer.observe(button)
+    return () => observer.disconnect()
+  }, [nextCursor, loading, loadFailed, search.active, fetchPosts])
+
   const handleLoadMore = () => {
-    const nextPage = page + 1
-    setPage(nextPage)
-    fetchPosts(nextPage, true)
+    if (nextCursor) fetchPosts(nextCursor)
   }
 
-  const hasMore = posts.length < total
+  const handleSearchSelect = (result: SearchResult) => {
+    navigate(`/blog/${result.slug}`)
+  }
+
+  const hasMore = nextCursor !== null
 
   return (
     <div className={styles.feed}>
-      <h1 className={styles.heading}>Blog</h1>
-
-      {!loading && posts.length === 0 && (
-        <p className={styles.empty}>No posts yet.</p>
+      <h1 className={styles.heading}>{tag ? `#${tag}` : 'Blog'}</h1>
+      {tag && (
+        <Link to="/" className={styles.backLink}>&larr; All posts</Link>
       )}
 
-      {posts.map(post => (
-        <PostCard key={post.slug} {...post} />
-      ))}
+      <SearchBox
+        value={search.query}
+        onChange={search.setQuery}
+        results={search.results}
+        loading={search.loading}
+        onSelect={handleSearchSelect}
+        placeholder="Search posts..."
+      />
+
+      {!search.active && (
+        <>
+          {!loading && posts.length === 0 && (
+            <p className={styles.empty}>No posts yet.</p>
+          )}
+
+          {posts.map(post => (
+            <PostCard key={post.slug} {...post} />
+          ))}
 
-      {loading && <p className={styles.loading}>Loading...</p>}
+          {loading && <p className={styles.loading}>Loading...</p>}
 
-      {hasMore && !loading && (
-        <button className={styles.loadMore} onClick={handleLoadMore}>
-          Load more
-        </button>
+          {hasMore && !loading && (
+            <button ref={loadMoreRef} className={styles.loadMore} onClick={handleLoadMore}>
+              Load more
+            </button>
+          )}
+        </>
       )}
     </div>
   )
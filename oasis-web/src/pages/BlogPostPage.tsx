@@ -1,9 +1,34 @@
 import { useState, useEffect } from 'react'
-import { useParams, Link } from 'react-router-dom'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import PostHeader from '../components/PostHeader'
+import PostContent, { type ImageAsset } from '../components/PostContent'
 import styles from './BlogPostPage.module.css'
 
+interface PostLink {
+  slug: string
+  title: string
+}
+
+interface PostSeries {
+  title: string
+  parts: PostLink[]
+  index: number
+}
+
+interface RelatedPost extends PostLink {
+  excerpt: string
+  published_at: string
+}
+
+interface Mention {
+  type: 'like' | 'repost' | 'reply' | 'mention'
+  source: string
+  author_name: string | null
+  author_url: string | null
+  content: string | null
+  published_at: string
+}
+
 interface BlogPost {
   slug: string
   title: string
@@ -11,16 +36,142 @@ interface BlogPost {
   excerpt: string
   published_at: string
   reading_time: number
+  tags: string[]
+  assets?: Record<string, ImageAsset>
+  series?: PostSeries | null
+  adjacent?: { previous: PostLink | null; next: PostLink | null }
+  related?: RelatedPost[]
+  mentions?: Mention[]
+}
+
+declare global {
+  interface Window {
+    __INITIAL_POST__?: BlogPost
+  }
+}
+
+// Server-rendered pages embed the post so the first render needs no fetch.
+// Kept side-effect free: StrictMode runs state initializers twice.
+function getInitialPost(slug: string | undefined): BlogPost | null {
+  const initial = window.__INITIAL_POST__
+  return initial && initial.slug === slug ? initial : null
+}
+
+function PrevNextLinks({ prev, next }: { prev?: PostLink | null; next?: PostLink | null }) {
+  if (!prev && !next) return null
+
+  return (
+    <div className={styles.navLinks}>
+      {prev ? (
+        <Link to={`/blog/${prev.slug}`} className={styles.navLink}>
+          <span className={styles.navDirection}>&larr; Previous</span>
+          {prev.title}
+        </Link>
+      ) : <span />}
+      {next && (
+        <Link to={`/blog/${next.slug}`} className={`${styles.navLink} ${styles.navNext}`}>
+          <span className={styles.navDirection}>Next &rarr;</span>
+          {next.title}
+        </Link>
+      )}
+    </div>
+  )
+}
+
+function SeriesNav({ series }: { series: PostSeries }) {
+  return (
+    <nav className={styles.postNav} aria-label={`Series: ${series.title}`}>
+      <p className={styles.navLabel}>
+        Part {series.index + 1} of {series.parts.length} in <strong>{series.title}</strong>
+      </p>
+      <PrevNextLinks prev={series.parts[series.index - 1]} next={series.parts[series.index + 1]} />
+    </nav>
+  )
+}
+
+function RelatedPosts({ posts }: { posts: RelatedPost[] }) {
+  return (
+    <section className={styles.postNav} aria-labelledby="related-posts">
+      <h2 id="related-posts" className={styles.navLabel}>Related posts</h2>
+      <ul className={styles.relatedList}>
+        {posts.map(related => (
+          <li key={related.slug}>
+            <Link to={`/blog/${related.slug}`} className={styles.relatedLink}>
+              <span className={styles.relatedTitle}>{related.title}</span>
+              <span className={styles.relatedExcerpt}>{related.excerpt}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+function MentionAuthor({ mention }: { mention: Mention }) {
+  const name = mention.author_name || new URL(mention.source).hostname
+  return (
+    <a href={mention.author_url || mention.source} className={styles.mentionAuthor} rel="nofollow ugc">
+      {name}
+    </a>
+  )
+}
+
+// Likes and reposts are listed by name; replies and mentions show their text
+function Mentions({ mentions }: { mentions: Mention[] }) {
+  const likes = mentions.filter(m => m.type === 'like')
+  const reposts = mentions.filter(m => m.type === 'repost')
+  const responses = mentions.filter(m => m.type === 'reply' || m.type === 'mention')
+
+  return (
+    <section className={styles.postNav} aria-labelledby="mentions">
+      <h2 id="mentions" className={styles.navLabel}>Responses</h2>
+      {[{ label: 'Liked by', list: likes }, { label: 'Reposted by', list: reposts }]
+        .filter(group => group.list.length > 0)
+        .map(group => (
+          <p key={group.label} className={styles.mentionNames}>
+            {group.label}{' '}
+            {group.list.map((mention, i) => (
+              <span key={mention.source}>
+                {i > 0 && ', '}
+                <MentionAuthor mention={mention} />
+              </span>
+            ))}
+          </p>
+        ))}
+      {responses.length > 0 && (
+        <ul className={styles.relatedList}>
+          {responses.map(mention => (
+            <li key={mention.source} className={styles.mention}>
+              <p className={styles.mentionMeta}>
+                <MentionAuthor mention={mention} />
+                {' · '}
+                <a href={mention.source} rel="nofollow ugc">
+                  {mention.type === 'reply' ? 'replied' : 'mentioned this'}{' '}
+                  {new Date(mention.published_at).toLocaleDateString('en-US', {
+                    year: 'numeric', month: 'short', day: 'numeric',
+                  })}
+                </a>
+              </p>
+              {mention.content && <p className={styles.mentionContent}>{mention.content}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
 }
 
 export default function BlogPostPage() {
   const { slug } = useParams<{ slug: string }>()
-  const [post, setPost] = useState<BlogPost | null>(null)
-  const [loading, setLoading] = useState(true)
+  const navigate = useNavigate()
+  const [post, setPost] = useState<BlogPost | null>(() => getInitialPost(slug))
+  const [loading, setLoading] = useState(post === null)
   const [notFound, setNotFound] = useState(false)
 
   useEffect(() => {
     if (!slug) return
+    // Already have it — embedded by the server, or just redirected from a retired slug
+    if (post?.slug === slug) return
 
     setLoading(true)
     setNotFound(false)
@@ -34,11 +185,16 @@ export default function BlogPostPage() {
         return res.json()
       })
       .then(data => {
-        if (data) setPost(data.post)
+        if (!data) return
+        setPost(data.post)
+        // Retired slug: the API returns the post under its current slug
+        if (data.post.slug !== slug) {
+          navigate(`/blog/${data.post.slug}`, { replace: true })
+        }
       })
       .catch(() => setNotFound(true))
       .finally(() => setLoading(false))
-  }, [slug])
+  }, [slug, navigate])
 
   if (loading) {
     return (
@@ -57,30 +213,31 @@ export default function BlogPostPage() {
     )
   }
 
-  const formattedDate = new Date(post.published_at).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  })
-
   return (
     <article className={styles.page}>
       <Link to="/" className={styles.backLink}>&larr; Back to blog</Link>
 
-      <header className={styles.header}>
-        <h1 className={styles.title}>{post.title}</h1>
-        <div className={styles.meta}>
-          <time dateTime={post.published_at}>{formattedDate}</time>
-          <span className={styles.dot}>&middot;</span>
-          <span>{post.reading_time} min read</span>
-        </div>
-      </header>
-
-      <div className={styles.content}>
-        <ReactMarkdown remarkPlugins={[remarkGfm]}>
-          {post.content}
-        </ReactMarkdown>
-      </div>
+      <PostHeader
+        title={post.title}
+        date={post.published_at}
+        readingTime={post.reading_time}
+        tags={post.tags}
+        extra={post.series ? [`Part ${post.series.index + 1} of ${post.series.parts.length}`] : []}
+      />
+
+      <PostContent content={post.content} assets={post.assets} />
+
+      {post.series && <SeriesNav series={post.series} />}
+
+      {post.adjacent && (post.adjacent.previous || post.adjacent.next) && (
+        <nav className={styles.postNav} aria-label="More posts">
+          <PrevNextLinks prev={post.adjacent.previous} next={post.adjacent.next} />
+        </nav>
+      )}
+
+      {post.related && post.related.length > 0 && <RelatedPosts posts={post.related} />}
+
+      {post.mentions && post.mentions.length > 0 && <Mentions mentions={post.mentions} />}
     </article>
   )
 }
@@ -1,31 +1,95 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
-import { JournalEditor } from '../ui'
-import { useJournal, type JournalEntry } from '../hooks/useJournal'
+import { JournalEditor, RevisionHistory, ShareLinks, type DraftText } from '../ui'
+import { useJournal, type JournalEntry, type Revision, type RevisionSummary, type SaveOutcome, type ShareLink } from '../hooks/useJournal'
+import { useMedia } from '../hooks/useMedia'
+import {
+  draftKey,
+  newDraftKey,
+  getQueuedDraft,
+  isDraftApplied,
+  queueDraft,
+  removeQueuedDraft,
+  type DraftData,
+  type QueuedDraft,
+} from '../lib/draftQueue'
+import { writeHeaders } from '../lib/etag'
 import styles from './JournalEditPage.module.css'
 
 const AUTOSAVE_DELAY = 2000
+// Offline saves are retried on this interval as well as on the browser's "online" event
+const RETRY_DELAY = 30000
 
 export default function JournalEditPage() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const journal = useJournal()
+  const media = useMedia()
   const [entry, setEntry] = useState<JournalEntry | null>(null)
   const [saving, setSaving] = useState(false)
-  const [autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  const [autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'offline' | 'error'>('idle')
+  const [conflict, setConflict] = useState<{ mine: DraftData; saved: JournalEntry } | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   const entryIdRef = useRef<number | null>(id ? Number(id) : null)
+  // The version local edits are based on, sent so stale writes are refused
+  const baseUpdatedAtRef = useRef<string | null>(null)
+  const draftKeyRef = useRef(id ? draftKey(Number(id)) : newDraftKey())
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const pendingDataRef = useRef<{ title: string; content: string } | null>(null)
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingDataRef = useRef<DraftData | null>(null)
+  const conflictRef = useRef(false)
   const isCreatingRef = useRef(false)
+  const [history, setHistory] = useState<{ revisions: RevisionSummary[]; loading: boolean } | null>(null)
+  const [selectedRevision, setSelectedRevision] = useState<Revision | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [shareLinks, setShareLinks] = useState<{ links: ShareLink[]; loading: boolean } | null>(null)
+  const [creatingLink, setCreatingLink] = useState(false)
+  const [revokingLinkId, setRevokingLinkId] = useState<number | null>(null)
 
   const isNew = !id
 
+  const showConflict = useCallback((mine: DraftData, saved: JournalEntry) => {
+    conflictRef.current = true
+    baseUpdatedAtRef.current = saved.updated_at
+    setConflict({ mine, saved })
+  }, [])
+
+  // Every save goes to the local queue first, so nothing is lost if the
+  // request fails or the tab closes mid-flight
+  const persistDraft = useCallback(async (data: DraftData): Promise<QueuedDraft> => {
+    const draft: QueuedDraft = {
+      key: draftKeyRef.current,
+      entryId: entryIdRef.current,
+      data,
+      baseUpdatedAt: baseUpdatedAtRef.current,
+      queuedAt: Date.now(),
+    }
+    await queueDraft(draft).catch(() => {})
+    return draft
+  }, [])
+
   const loadEntry = useCallback(async () => {
-    if (id) {
-      const result = await journal.getEntry(Number(id))
-      setEntry(result)
+    if (!id) return
+    const result = await journal.getEntry(Number(id))
+    if (!result) {
+      setEntry(null)
+      return
+    }
+    baseUpdatedAtRef.current = result.updated_at
+
+    // Edits left over from an earlier offline session
+    const queued = await getQueuedDraft(draftKey(result.id)).catch(() => null)
+    if (queued && isDraftApplied(result, queued.data)) {
+      await removeQueuedDraft(queued.key, queued.queuedAt).catch(() => {})
+    } else if (queued && queued.baseUpdatedAt === result.updated_at) {
+      setEntry({ ...result, title: queued.data.title, content: queued.data.content })
+      pendingDataRef.current = queued.data
+      return
+    } else if (queued) {
+      showConflict(queued.data, result)
     }
-  }, [id, journal.getEntry])
+    setEntry(result)
+  }, [id, journal.getEntry, showConflict])
 
   useEffect(() => {
     loadEntry()
@@ -34,54 +98,98 @@ export default function JournalEditPage() {
   // Fire-and-forget save for use during navigation/unmount
   const flushSave = useCallback(() => {
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
     const data = pendingDataRef.current
-    if (data && data.title.trim() && data.content.trim()) {
+    if (data && data.title.trim() && data.content.trim() && !conflictRef.current) {
       const entryId = entryIdRef.current
+      const base = baseUpdatedAtRef.current
       const url = entryId ? `/api/journal/${entryId}` : '/api/journal'
       const method = entryId ? 'PUT' : 'POST'
-      fetch(url, {
-        method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-        keepalive: true,
-      })
+      // If this doesn't get through, the queued copy is sent on a later visit
+      void persistDraft(data).then(draft =>
+        fetch(url, {
+          method,
+          headers: entryId ? writeHeaders(base) : { ...writeHeaders(null), 'Idempotency-Key': draft.key },
+          body: JSON.stringify(data),
+          keepalive: true,
+        })
+          .then(res => { if (res.ok) return removeQueuedDraft(draft.key, draft.queuedAt) })
+          .catch(() => {})
+      )
       pendingDataRef.current = null
     }
-  }, [])
+  }, [persistDraft])
 
-  const performSave = useCallback(async (data: { title: string; content: string }) => {
+  // Applies a save's outcome; returns whether the edits reached the server
+  const handleOutcome = useCallback(async (outcome: SaveOutcome, draft: QueuedDraft): Promise<boolean> => {
+    if (outcome.status === 'conflict' && !isDraftApplied(outcome.entry, draft.data)) {
+      showConflict(draft.data, outcome.entry)
+      setAutoSaveStatus('idle')
+      return false
+    }
+    if (outcome.status === 'offline') {
+      setAutoSaveStatus('offline')
+      return false
+    }
+    if (outcome.status === 'rejected') {
+      setAutoSaveStatus('error')
+      setFieldErrors(outcome.fields)
+      return false
+    }
+    setFieldErrors({})
+
+    const saved = outcome.entry
+    if (!entryIdRef.current) {
+      entryIdRef.current = saved.id
+      window.history.replaceState(null, '', `/journal/${saved.id}`)
+    }
+    baseUpdatedAtRef.current = saved.updated_at
+    await removeQueuedDraft(draft.key, draft.queuedAt).catch(() => {})
+    draftKeyRef.current = draftKey(saved.id)
+    return true
+  }, [showConflict])
+
+  const performSave = useCallback(async (data: DraftData) => {
     if (!data.title.trim() || !data.content.trim()) return
     if (!entryIdRef.current && isCreatingRef.current) return
+    if (conflictRef.current) return
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
 
     if (!entryIdRef.current) isCreatingRef.current = true
     setAutoSaveStatus('saving')
 
-    let success = false
-    if (entryIdRef.current) {
-      const result = await journal.updateEntry(entryIdRef.current, data)
-      success = !!result
-    } else {
-      const result = await journal.createEntry(data)
-      if (result) {
-        entryIdRef.current = result.id
-        window.history.replaceState(null, '', `/journal/${result.id}`)
-        success = true
-      }
-      isCreatingRef.current = false
-    }
+    const draft = await persistDraft(data)
+    const outcome = await journal.saveEntry(entryIdRef.current, data, baseUpdatedAtRef.current, draft.key)
+    isCreatingRef.current = false
+    const success = await handleOutcome(outcome, draft)
 
     if (success) {
-      pendingDataRef.current = null
+      if (pendingDataRef.current === data) pendingDataRef.current = null
       setAutoSaveStatus('saved')
       setTimeout(() => {
         setAutoSaveStatus(current => current === 'saved' ? 'idle' : current)
       }, 3000)
-    } else {
-      setAutoSaveStatus('error')
+    } else if (outcome.status === 'offline') {
+      retryTimerRef.current = setTimeout(() => {
+        performSave(pendingDataRef.current ?? data)
+      }, RETRY_DELAY)
     }
-  }, [journal.updateEntry, journal.createEntry])
+  }, [journal.saveEntry, persistDraft, handleOutcome])
+
+  // Send edits recovered from the queue as soon as the editor opens
+  useEffect(() => {
+    if (entry && pendingDataRef.current) performSave(pendingDataRef.current)
+  }, [entry?.id, performSave])
 
-  const handleChange = useCallback((data: { title: string; content: string }) => {
+  useEffect(() => {
+    const handleOnline = () => {
+      if (pendingDataRef.current) performSave(pendingDataRef.current)
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [performSave])
+
+  const handleChange = useCallback((data: DraftData) => {
     pendingDataRef.current = data
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
     saveTimerRef.current = setTimeout(() => {
@@ -98,23 +206,46 @@ export default function JournalEditPage() {
     }
   }, [flushSave])
 
-  const handleSave = async (data: { title: string; content: string; is_public: boolean; slug?: string; excerpt?: string }) => {
+  const handleSave = async (data: { title: string; content: string; is_public: boolean; slug?: string; excerpt?: string; tags?: string[]; published_at?: string }) => {
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
     pendingDataRef.current = null
 
     setSaving(true)
-    if (entryIdRef.current) {
-      await journal.updateEntry(entryIdRef.current, data)
-    } else {
-      await journal.createEntry(data)
-    }
+    const draft = await persistDraft(data)
+    const outcome = await journal.saveEntry(entryIdRef.current, data, baseUpdatedAtRef.current, draft.key)
+    const success = await handleOutcome(outcome, draft)
     setSaving(false)
+    // Stay in the editor if the save didn't go through (slug taken, conflict, offline)
+    if (!success) {
+      if (outcome.status === 'offline') pendingDataRef.current = data
+      return
+    }
     navigate('/journal')
   }
 
+  // The dialog's choice becomes the new local version, based on the saved one
+  const handleResolveConflict = (resolved: DraftText) => {
+    if (!conflict) return
+    const { mine, saved } = conflict
+    conflictRef.current = false
+    setConflict(null)
+    setEntry({ ...saved, title: resolved.title, content: resolved.content })
+    if (isDraftApplied(saved, resolved)) {
+      pendingDataRef.current = null
+      removeQueuedDraft(draftKeyRef.current).catch(() => {})
+      return
+    }
+    const data = { ...mine, ...resolved }
+    pendingDataRef.current = data
+    performSave(data)
+  }
+
   const handleDelete = async () => {
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
     pendingDataRef.current = null
+    removeQueuedDraft(draftKeyRef.current).catch(() => {})
 
     const deleteId = entryIdRef.current || entry?.id
     if (deleteId) {
@@ -123,6 +254,96 @@ export default function JournalEditPage() {
     navigate('/journal')
   }
 
+  const checkSlug = useCallback(
+    (slug: string) => journal.checkSlug(slug, entryIdRef.current),
+    [journal.checkSlug]
+  )
+
+  const handleShowHistory = async () => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+
+    // Save pending edits first so "current" in the diff is what's on the server
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (pendingDataRef.current) await performSave(pendingDataRef.current)
+
+    setSelectedRevision(null)
+    setHistory({ revisions: [], loading: true })
+    const [fresh, revisions] = await Promise.all([
+      journal.getEntry(entryId),
+      journal.listRevisions(entryId),
+    ])
+    if (fresh) {
+      baseUpdatedAtRef.current = fresh.updated_at
+      setEntry(fresh)
+    }
+    setHistory({ revisions, loading: false })
+  }
+
+  const handleSelectRevision = async (revision: { id: number }) => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+    const result = await journal.getRevision(entryId, revision.id)
+    setSelectedRevision(result)
+  }
+
+  const handleRestoreRevision = async (revision: { id: number }) => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+    setRestoring(true)
+    const restored = await journal.restoreRevision(entryId, revision.id)
+    setRestoring(false)
+    if (restored) {
+      // The restore is a new version; later saves build on it
+      baseUpdatedAtRef.current = restored.updated_at
+      setEntry(restored)
+      setHistory(null)
+      setSelectedRevision(null)
+    }
+  }
+
+  const handleShowShareLinks = async () => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+
+    // Save pending edits first so the shared version is the latest one
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (pendingDataRef.current) await performSave(pendingDataRef.current)
+
+    setShareLinks({ links: [], loading: true })
+    const [fresh, links] = await Promise.all([
+      journal.getEntry(entryId),
+      journal.listShareLinks(entryId),
+    ])
+    if (fresh) {
+      baseUpdatedAtRef.current = fresh.updated_at
+      setEntry(fresh)
+    }
+    setShareLinks({ links, loading: false })
+  }
+
+  const handleCreateShareLink = async (expiresInDays: number) => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+    setCreatingLink(true)
+    const link = await journal.createShareLink(entryId, expiresInDays)
+    setCreatingLink(false)
+    if (link) {
+      setShareLinks(prev => prev && { ...prev, links: [link, ...prev.links] })
+    }
+  }
+
+  const handleRevokeShareLink = async (link: { id: number }) => {
+    const entryId = entryIdRef.current
+    if (!entryId) return
+    setRevokingLinkId(link.id)
+    const revoked = await journal.revokeShareLink(entryId, link.id)
+    setRevokingLinkId(null)
+    if (revoked) {
+      setShareLinks(prev => prev && { ...prev, links: prev.links.filter(l => l.id !== link.id) })
+    }
+  }
+
   const handleCancel = () => {
     flushSave()
     navigate('/journal')
@@ -131,6 +352,39 @@ export default function JournalEditPage() {
   // For editing, wait until entry is loaded
   if (!isNew && !entry) return null
 
+  if (history && entry) {
+    return (
+      <div className={styles.writingView}>
+        <RevisionHistory
+          revisions={history.revisions}
+          loading={history.loading}
+          selected={selectedRevision}
+          current={{ title: entry.title, content: entry.content }}
+          onSelect={handleSelectRevision}
+          onRestore={handleRestoreRevision}
+          onClose={() => setHistory(null)}
+          restoring={restoring}
+        />
+      </div>
+    )
+  }
+
+  if (shareLinks && entry) {
+    return (
+      <div className={styles.writingView}>
+        <ShareLinks
+          links={shareLinks.links}
+          loading={shareLinks.loading}
+          onCreate={handleCreateShareLink}
+          onRevoke={handleRevokeShareLink}
+          onClose={() => setShareLinks(null)}
+          creating={creatingLink}
+          revokingId={revokingLinkId}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className={styles.writingView}>
       <JournalEditor
@@ -138,9 +392,17 @@ export default function JournalEditPage() {
         onSave={handleSave}
         onChange={handleChange}
         onDelete={entry ? handleDelete : undefined}
+        onShowHistory={entry ? handleShowHistory : undefined}
+        onShowShareLinks={entry ? handleShowShareLinks : undefined}
+        checkSlug={checkSlug}
+        uploadFile={media.upload}
+        previewDraft={journal.previewDraft}
         onCancel={handleCancel}
         saving={saving}
         autoSaveStatus={autoSaveStatus}
+        conflict={conflict}
+        onResolveConflict={handleResolveConflict}
+        fieldErrors={fieldErrors}
       />
     </div>
   )
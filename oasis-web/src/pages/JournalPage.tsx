@@ -1,7 +1,9 @@
-import { useEffect } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Card, JournalList } from '../ui'
-import { useJournal, type JournalEntry } from '../hooks/useJournal'
+import { Card, JournalList, MentionQueue, SearchBox, TrashList, type MentionDecision } from '../ui'
+import { useJournal, type ImportReport, type JournalEntry, type TrashedEntry } from '../hooks/useJournal'
+import { useSearch, type SearchResult } from '../hooks/useSearch'
+import { useWebmentions } from '../hooks/useWebmentions'
 import { useSession } from '../lib/auth-client'
 import styles from './JournalPage.module.css'
 
@@ -9,6 +11,16 @@ export default function JournalPage() {
   const journal = useJournal()
   const navigate = useNavigate()
   const { data: session } = useSession()
+  const search = useSearch()
+  const webmentions = useWebmentions()
+  const [trash, setTrash] = useState<TrashedEntry[] | null>(null)
+  const [restoringId, setRestoringId] = useState<number | null>(null)
+  const [showMentions, setShowMentions] = useState(false)
+  const [moderatingId, setModeratingId] = useState<number | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importReport, setImportReport] = useState<ImportReport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     journal.fetchEntries()
@@ -18,18 +30,148 @@ export default function JournalPage() {
     navigate(`/journal/${entry.id}`)
   }
 
+  const handleSearchSelect = (result: SearchResult) => {
+    navigate(`/journal/${result.id}`)
+  }
+
   const handleNew = () => {
     navigate('/journal/new')
   }
 
+  const handleShowTrash = async () => {
+    setTrash(await journal.fetchTrash())
+  }
+
+  const handleRestore = async (entry: { id: number }) => {
+    setRestoringId(entry.id)
+    const restored = await journal.restoreEntry(entry.id)
+    setRestoringId(null)
+    if (restored) {
+      setTrash(prev => prev?.filter(e => e.id !== entry.id) ?? null)
+      journal.fetchEntries()
+    }
+  }
+
+  const handleShowMentions = async () => {
+    await webmentions.fetchMentions()
+    setShowMentions(true)
+  }
+
+  const handleModerate = async (mention: { id: number }, decision: MentionDecision) => {
+    setModeratingId(mention.id)
+    await webmentions.moderateMention(mention.id, decision)
+    setModeratingId(null)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setImporting(true)
+    setImportReport(null)
+    setImportError(null)
+    try {
+      setImportReport(await journal.importArchive(file))
+      journal.fetchEntries()
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (trash) {
+    return (
+      <Card>
+        <h2 className={styles.sectionTitle}>Trash</h2>
+        <TrashList
+          entries={trash}
+          onRestore={handleRestore}
+          restoringId={restoringId}
+        />
+        <button className={styles.viewToggle} onClick={() => setTrash(null)}>
+          &larr; Back to journal
+        </button>
+      </Card>
+    )
+  }
+
+  if (showMentions) {
+    return (
+      <Card>
+        <h2 className={styles.sectionTitle}>Mentions</h2>
+        <MentionQueue
+          mentions={webmentions.mentions}
+          onModerate={handleModerate}
+          busyId={moderatingId}
+        />
+        <button className={styles.viewToggle} onClick={() => setShowMentions(false)}>
+          &larr; Back to journal
+        </button>
+      </Card>
+    )
+  }
+
   return (
     <Card>
       <h2 className={styles.sectionTitle}>Journal</h2>
-      <JournalList
-        entries={journal.entries}
-        onSelect={handleSelect}
-        onNew={session ? handleNew : undefined}
+      <SearchBox
+        value={search.query}
+        onChange={search.setQuery}
+        results={search.results}
+        loading={search.loading}
+        onSelect={handleSearchSelect}
+        placeholder="Search entries..."
       />
+      {!search.active && (
+        <JournalList
+          entries={journal.entries}
+          onSelect={handleSelect}
+          onNew={session ? handleNew : undefined}
+        />
+      )}
+      {importReport && (
+        <div className={styles.importReport}>
+          <p>
+            Imported {importReport.created.length} new, {importReport.updated.length} updated,{' '}
+            {importReport.unchanged.length} unchanged.
+          </p>
+          {(importReport.conflicts.length > 0 || importReport.errors.length > 0) && (
+            <ul className={styles.importProblems}>
+              {importReport.conflicts.map(c => <li key={c.file}>{c.file}: {c.reason}</li>)}
+              {importReport.errors.map(e => <li key={e.file}>{e.file}: {e.error}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {importError && <p className={styles.importError}>{importError}</p>}
+      {session && !search.active && (
+        <div className={styles.footerActions}>
+          <a className={styles.viewToggle} href="/api/journal/export" download>
+            Export
+          </a>
+          <button
+            className={styles.viewToggle}
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleImport}
+            hidden
+          />
+          <button className={styles.viewToggle} onClick={handleShowMentions}>
+            Mentions
+          </button>
+          <button className={styles.viewToggle} onClick={handleShowTrash}>
+            Trash
+          </button>
+        </div>
+      )}
     </Card>
   )
 }
@@ -0,0 +1,14 @@
+import { Link } from 'react-router-dom'
+import styles from './NotFoundPage.module.css'
+
+export default function NotFoundPage() {
+  return (
+    <div className={styles.page}>
+      <p className={styles.code}>404</p>
+      <p className={styles.message}>There's nothing at this address.</p>
+      <Link to="/" className={styles.home}>
+        &larr; Back to the blog
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { PageForm, type PageFormData } from '../ui'
+import { usePages, type Page } from '../hooks/usePages'
+
+// Create (/pages/new) or edit (/pages/:id/edit) a static page
+export default function PageEditPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { getPage, savePage, deletePage } = usePages()
+  const [page, setPage] = useState<Page | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const pageId = id ? Number(id) : null
+
+  useEffect(() => {
+    if (pageId) getPage(pageId).then(setPage)
+  }, [pageId, getPage])
+
+  if (pageId && !page) return null
+
+  const handleSave = async (data: PageFormData) => {
+    setSaving(true)
+    setError(null)
+    const result = await savePage(pageId, data, page?.updated_at)
+    setSaving(false)
+    if (result.page) {
+      navigate('/pages')
+    } else {
+      setError(result.error)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pageId || !window.confirm('Delete this page? This cannot be undone.')) return
+    if (await deletePage(pageId)) navigate('/pages')
+  }
+
+  return (
+    <PageForm
+      initialData={page}
+      onSave={handleSave}
+      onCancel={() => navigate('/pages')}
+      onDelete={pageId ? handleDelete : undefined}
+      saving={saving}
+      error={error}
+    />
+  )
+}
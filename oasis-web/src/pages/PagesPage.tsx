@@ -0,0 +1,47 @@
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Badge, Card } from '../ui'
+import { usePages } from '../hooks/usePages'
+import styles from './PagesPage.module.css'
+
+export default function PagesPage() {
+  const { pages, fetchPages } = usePages()
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    fetchPages()
+  }, [fetchPages])
+
+  return (
+    <Card>
+      <h2 className={styles.sectionTitle}>Pages</h2>
+      <div className={styles.list}>
+        <button className={styles.newButton} onClick={() => navigate('/pages/new')}>
+          + New Page
+        </button>
+        {pages.length === 0 ? (
+          <div className={styles.empty}>
+            No pages yet. Add an About or Now page and link it from the header.
+          </div>
+        ) : (
+          pages.map(page => (
+            <button
+              key={page.id}
+              className={styles.page}
+              onClick={() => navigate(`/pages/${page.id}/edit`)}
+            >
+              <span className={styles.title}>{page.title}</span>
+              <span className={styles.meta}>
+                /{page.slug}
+                {page.show_in_nav && <> &middot; in header</>}
+              </span>
+              <Badge variant={page.is_public ? 'success' : 'default'}>
+                {page.is_public ? 'Published' : 'Draft'}
+              </Badge>
+            </button>
+          ))
+        )}
+      </div>
+    </Card>
+  )
+}
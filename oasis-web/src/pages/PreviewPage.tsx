@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import PostHeader from '../components/PostHeader'
+import PostContent, { type ImageAsset } from '../components/PostContent'
+import styles from './PreviewPage.module.css'
+
+interface SharedEntry {
+  title: string
+  content: string
+  excerpt: string
+  updated_at: string
+  reading_time: number
+  tags: string[]
+  assets?: Record<string, ImageAsset>
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+}
+
+// Read-only view of an entry opened through a private share link
+export default function PreviewPage() {
+  const { token } = useParams<{ token: string }>()
+  const [entry, setEntry] = useState<SharedEntry | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+
+  useEffect(() => {
+    if (!token) return
+
+    setLoading(true)
+    setNotFound(false)
+
+    fetch(`/api/journal/shared/${token}`)
+      .then(res => {
+        if (!res.ok) {
+          setNotFound(true)
+          return null
+        }
+        return res.json()
+      })
+      .then(data => {
+        if (!data) return
+        setEntry(data.entry)
+        setExpiresAt(data.expires_at)
+      })
+      .catch(() => setNotFound(true))
+      .finally(() => setLoading(false))
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className={styles.page}>
+        <p className={styles.loading}>Loading...</p>
+      </div>
+    )
+  }
+
+  if (notFound || !entry) {
+    return (
+      <div className={styles.page}>
+        <p className={styles.notFound}>This preview link is invalid or has expired.</p>
+      </div>
+    )
+  }
+
+  return (
+    <article className={styles.page}>
+      <div className={styles.banner}>
+        Private preview &middot; not published
+        {expiresAt && <> &middot; link expires {formatDate(expiresAt)}</>}
+      </div>
+
+      <PostHeader
+        title={entry.title}
+        date={entry.updated_at}
+        datePrefix="Updated"
+        readingTime={entry.reading_time}
+        tags={entry.tags}
+        linkTags={false}
+      />
+
+      <PostContent content={entry.content} assets={entry.assets} />
+    </article>
+  )
+}
@@ -26,14 +26,17 @@ export default function ProjectDetailPage() {
 
   if (!project) return null
 
+  // A step or project changed elsewhere isn't overwritten; the reload shows its current state
   const handleToggleStep = async (step: { id: number; status: string }) => {
     const newStatus = step.status === 'completed' ? 'pending' : 'completed'
-    await projects.updateStep(projectId, step.id, { status: newStatus })
+    const loaded = steps.find(s => s.id === step.id)
+    if (!loaded) return
+    await projects.updateStep(projectId, step.id, { status: newStatus }, loaded.updated_at)
     await loadProject()
   }
 
   const handleAddStep = async (title: string, description?: string, parentId?: number | null) => {
-    await projects.addSteps(projectId, [{ title, description, parent_id: parentId ?? null }])
+    await projects.addSteps(projectId, [{ title, description, parent_id: parentId ?? undefined }])
     await loadProject()
   }
 
@@ -61,12 +64,12 @@ export default function ProjectDetailPage() {
       { id: siblings[swapIdx].id, sort_order: siblings[idx].sort_order },
     ]
 
-    await projects.reorderSteps(projectId, updates)
+    await projects.reorderSteps(projectId, updates, project.updated_at)
     await loadProject()
   }
 
   const handleUpdateProjectStatus = async (status: string) => {
-    await projects.updateProject(projectId, { status })
+    await projects.updateProject(projectId, { status: status as Project['status'] }, project.updated_at)
     await loadProject()
   }
 
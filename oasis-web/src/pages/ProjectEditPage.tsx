@@ -9,6 +9,8 @@ export default function ProjectEditPage() {
   const projects = useProjects()
   const [project, setProject] = useState<Project | null>(null)
   const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
   const projectId = Number(id)
 
@@ -27,13 +29,20 @@ export default function ProjectEditPage() {
 
   const handleSave = async (data: { title: string; description: string; steps: Array<{ title: string; description?: string }> }) => {
     setSaving(true)
-    const updated = await projects.updateProject(projectId, {
+    setError(null)
+    setFieldErrors({})
+    const result = await projects.updateProject(projectId, {
       title: data.title,
       description: data.description,
-    })
+    }, project.updated_at)
     setSaving(false)
-    if (updated) {
+    if (result.status === 'saved') {
       navigate(`/projects/${projectId}`)
+    } else if (result.status === 'conflict') {
+      setError('This project was changed elsewhere since you opened it. Reload to see the latest version before saving.')
+    } else {
+      setError(result.message)
+      setFieldErrors(result.fields)
     }
   }
 
@@ -46,6 +55,8 @@ export default function ProjectEditPage() {
       onSave={handleSave}
       onCancel={() => navigate(`/projects/${projectId}`)}
       saving={saving}
+      error={error}
+      fieldErrors={fieldErrors}
     />
   )
 }
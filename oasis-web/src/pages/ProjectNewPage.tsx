@@ -7,17 +7,24 @@ export default function ProjectNewPage() {
   const navigate = useNavigate()
   const projects = useProjects()
   const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
   const handleSave = async (data: { title: string; description: string; steps: Array<{ title: string; description?: string; children?: any[] }> }) => {
     setSaving(true)
+    setError(null)
+    setFieldErrors({})
     const result = await projects.createProject({
       title: data.title,
       description: data.description,
       steps: data.steps,
     })
     setSaving(false)
-    if (result) {
-      navigate(`/projects/${result.project.id}`)
+    if (result.status === 'saved') {
+      navigate(`/projects/${result.value.project.id}`)
+    } else {
+      setError(result.message)
+      setFieldErrors(result.fields)
     }
   }
 
@@ -27,6 +34,8 @@ export default function ProjectNewPage() {
       onCancel={() => navigate('/projects')}
       onGenerateSteps={projects.generateSteps}
       saving={saving}
+      error={error}
+      fieldErrors={fieldErrors}
     />
   )
 }
@@ -2,7 +2,7 @@ import { useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Card, ProjectList } from '../ui'
 import type { ProjectSummary } from '../ui'
-import { useProjects } from '../hooks/useProjects'
+import { useProjects, type Project } from '../hooks/useProjects'
 import styles from './ProjectsPage.module.css'
 
 export default function ProjectsPage() {
@@ -22,7 +22,8 @@ export default function ProjectsPage() {
   }
 
   const handleUpdateProjectStatus = async (projectId: number, status: string) => {
-    await projects.updateProject(projectId, { status })
+    const loaded = projects.projects.find(p => p.id === projectId)
+    await projects.updateProject(projectId, { status: status as Project['status'] }, loaded?.updated_at)
     await projects.fetchProjects()
   }
 
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import PostContent, { type ImageAsset } from '../components/PostContent'
+import NotFoundPage from './NotFoundPage'
+import styles from './StaticPage.module.css'
+
+interface StaticPageData {
+  title: string
+  slug: string
+  content: string
+  is_public: boolean
+  assets?: Record<string, ImageAsset>
+}
+
+// A custom page (About, Now, ...) at /:slug; anything else is a 404
+export default function StaticPage() {
+  const { slug } = useParams<{ slug: string }>()
+  const [page, setPage] = useState<StaticPageData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+
+  useEffect(() => {
+    if (!slug) return
+
+    setLoading(true)
+    setNotFound(false)
+
+    fetch(`/api/pages/${encodeURIComponent(slug)}`)
+      .then(res => {
+        if (!res.ok) {
+          setNotFound(true)
+          return null
+        }
+        return res.json()
+      })
+      .then(data => {
+        if (!data) return
+        setPage(data.page)
+      })
+      .catch(() => setNotFound(true))
+      .finally(() => setLoading(false))
+  }, [slug])
+
+  if (loading) {
+    return (
+      <div className={styles.page}>
+        <p className={styles.loading}>Loading...</p>
+      </div>
+    )
+  }
+
+  if (notFound || !page) {
+    return <NotFoundPage />
+  }
+
+  return (
+    <article className={styles.page}>
+      {!page.is_public && (
+        <div className={styles.banner}>Draft &middot; only you can see this page</div>
+      )}
+      <h1 className={styles.title}>{page.title}</h1>
+      <PostContent content={page.content} assets={page.assets} />
+    </article>
+  )
+}
@@ -3,10 +3,12 @@ import styles from './Input.module.css'
 
 export interface InputProps extends InputHTMLAttributes<HTMLInputElement> {
   label?: string
+  /** A problem with the value, shown under the field */
+  error?: string | null
 }
 
 export const Input = forwardRef<HTMLInputElement, InputProps>(
-  ({ label, className, id, ...props }, ref) => {
+  ({ label, error, className, id, ...props }, ref) => {
     const inputId = id || label?.toLowerCase().replace(/\s+/g, '-')
 
     return (
@@ -19,9 +21,16 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(
         <input
           ref={ref}
           id={inputId}
-          className={`${styles.input} ${className || ''}`}
+          className={`${styles.input} ${error ? styles.invalid : ''} ${className || ''}`}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error && inputId ? `${inputId}-error` : undefined}
           {...props}
         />
+        {error && (
+          <span id={inputId ? `${inputId}-error` : undefined} className={styles.error}>
+            {error}
+          </span>
+        )}
       </div>
     )
   }
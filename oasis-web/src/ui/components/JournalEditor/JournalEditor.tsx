@@ -1,14 +1,18 @@
-import { forwardRef, useState, useEffect, useCallback, useRef, type HTMLAttributes } from 'react'
+import { forwardRef, useState, useEffect, useCallback, useMemo, useRef, type HTMLAttributes } from 'react'
 import { useEditor, EditorContent, type Editor } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Placeholder from '@tiptap/extension-placeholder'
 import Link from '@tiptap/extension-link'
+import Image from '@tiptap/extension-image'
 import TaskList from '@tiptap/extension-task-list'
 import TaskItem from '@tiptap/extension-task-item'
 import { Markdown } from 'tiptap-markdown'
 import { Button } from '../Button/Button'
 import { ThemeToggle } from '../ThemeToggle/ThemeToggle'
 import { useTheme } from '../../../hooks/useTheme'
+import { hasConflictMarkers, mergeWithConflictMarkers } from '../../../lib/diff'
+import PostHeader from '../../../components/PostHeader'
+import PostContent, { type ImageAsset } from '../../../components/PostContent'
 import styles from './JournalEditor.module.css'
 
 export interface JournalEntry {
@@ -19,21 +23,65 @@ export interface JournalEntry {
   slug?: string | null
   excerpt?: string | null
   published_at?: string | null
+  tags?: string[]
   created_at: string
   updated_at: string
 }
 
+export interface SlugAvailability {
+  available: boolean
+  suggestion: string | null
+}
+
+export interface UploadedFile {
+  url: string
+  filename: string
+  mime_type: string
+}
+
+export interface DraftPreview {
+  excerpt: string
+  reading_time: number
+  assets: Record<string, ImageAsset>
+}
+
+export interface DraftText {
+  title: string
+  content: string
+}
+
+/** Local edits that couldn't be saved because the entry changed elsewhere */
+export interface SaveConflict {
+  mine: DraftText
+  saved: DraftText
+}
+
+const UPLOAD_ACCEPT = 'image/png,image/jpeg,image/gif,image/webp,application/pdf'
+
 export interface JournalEditorProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onSubmit' | 'onChange'> {
   entry?: JournalEntry | null
-  onSave: (data: { title: string; content: string; is_public: boolean; slug?: string; excerpt?: string }) => void
+  onSave: (data: { title: string; content: string; is_public: boolean; slug?: string; excerpt?: string; tags?: string[]; published_at?: string }) => void
   onChange?: (data: { title: string; content: string; slug?: string; excerpt?: string }) => void
   onDelete?: () => void
+  onShowHistory?: () => void
+  onShowShareLinks?: () => void
+  /** Live slug validation; omit to skip the check */
+  checkSlug?: (slug: string) => Promise<SlugAvailability | null>
+  /** Stores a picked, dropped, or pasted file; omit to disable uploads */
+  uploadFile?: (file: File) => Promise<UploadedFile>
+  /** Blog metadata for the unsaved draft; omit to hide the Preview toggle */
+  previewDraft?: (draft: { content: string; excerpt?: string }) => Promise<DraftPreview | null>
   onCancel: () => void
   saving?: boolean
-  autoSaveStatus?: 'idle' | 'saving' | 'saved' | 'error'
+  autoSaveStatus?: 'idle' | 'saving' | 'saved' | 'offline' | 'error'
+  /** Shows the merge dialog until resolved */
+  conflict?: SaveConflict | null
+  onResolveConflict?: (resolved: DraftText) => void
+  /** Messages from a refused save, keyed by field */
+  fieldErrors?: Record<string, string>
 }
 
-function FormatToolbar({ editor }: { editor: Editor }) {
+function FormatToolbar({ editor, onPickFile }: { editor: Editor; onPickFile?: () => void }) {
   const setLink = useCallback(() => {
     const existing = editor.getAttributes('link').href
     const url = window.prompt('URL', existing || 'https://')
@@ -92,6 +140,62 @@ function FormatToolbar({ editor }: { editor: Editor }) {
         {btn('Quote', () => editor.chain().focus().toggleBlockquote().run(), editor.isActive('blockquote'), 'Blockquote')}
         {btn('Link', setLink, editor.isActive('link'), 'Insert link')}
         {btn('---', () => editor.chain().focus().setHorizontalRule().run(), false, 'Horizontal rule')}
+        {onPickFile && btn('Image', onPickFile, false, 'Upload an image or PDF')}
+      </div>
+    </div>
+  )
+}
+
+function MergeDialog({ conflict, onResolve }: { conflict: SaveConflict; onResolve: (resolved: DraftText) => void }) {
+  const { mine, saved } = conflict
+  const initialMerge = useMemo(() => mergeWithConflictMarkers(saved.content, mine.content), [saved.content, mine.content])
+  const [title, setTitle] = useState(mine.title)
+  const [merged, setMerged] = useState(initialMerge)
+  const unresolved = hasConflictMarkers(merged)
+
+  return (
+    <div className={styles.mergeOverlay}>
+      <div className={styles.mergeDialog} role="dialog" aria-modal="true" aria-labelledby="merge-heading">
+        <h2 id="merge-heading" className={styles.mergeHeading}>This entry changed somewhere else</h2>
+        <p className={styles.mergeHint}>
+          Your edits were based on an older version. Keep one version, or edit the merged text:
+          each conflict shows the saved lines first, then yours.
+        </p>
+        {saved.title !== mine.title && (
+          <label className={styles.mergeTitleField}>
+            <span className={styles.mergeLabel}>Title (saved: &ldquo;{saved.title}&rdquo;)</span>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={styles.mergeTitleInput}
+            />
+          </label>
+        )}
+        <textarea
+          value={merged}
+          onChange={(e) => setMerged(e.target.value)}
+          className={styles.mergeText}
+          aria-label="Merged content"
+          rows={16}
+        />
+        <div className={styles.mergeActions}>
+          <button type="button" className={styles.mergeOption} onClick={() => onResolve(saved)}>
+            Use saved version
+          </button>
+          <button type="button" className={styles.mergeOption} onClick={() => onResolve(mine)}>
+            Keep mine
+          </button>
+          <Button
+            type="button"
+            variant="primary"
+            size="sm"
+            disabled={unresolved || !title.trim() || !merged.trim()}
+            onClick={() => onResolve({ title: title.trim(), content: merged })}
+          >
+            {unresolved ? 'Resolve conflicts to save' : 'Save merged'}
+          </Button>
+        </div>
       </div>
     </div>
   )
@@ -107,25 +211,48 @@ function clientSlugify(text: string): string {
     .replace(/^-|-$/g, '')
 }
 
+// datetime-local inputs work in local time without an offset
+function toLocalDateTimeInput(iso: string): string {
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function parseTags(text: string): string[] {
+  const tags = text.split(',').map(clientSlugify).filter(Boolean)
+  return [...new Set(tags)]
+}
+
 export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
-  ({ entry, onSave, onChange, onDelete, onCancel, saving = false, autoSaveStatus = 'idle', className, ...props }, ref) => {
+  ({ entry, onSave, onChange, onDelete, onShowHistory, onShowShareLinks, checkSlug, uploadFile, previewDraft, onCancel, saving = false, autoSaveStatus = 'idle', conflict = null, onResolveConflict, fieldErrors = {}, className, ...props }, ref) => {
     const [title, setTitle] = useState('')
     const [isPublic, setIsPublic] = useState(false)
     const [slug, setSlug] = useState('')
     const [excerpt, setExcerpt] = useState('')
+    const [tagsInput, setTagsInput] = useState('')
+    const [publishAt, setPublishAt] = useState('')
     const [slugManuallyEdited, setSlugManuallyEdited] = useState(false)
+    const [slugStatus, setSlugStatus] = useState<SlugAvailability | null>(null)
+    const [preview, setPreview] = useState<{ content: string; loading: boolean; data: DraftPreview | null } | null>(null)
+    const [uploadStatus, setUploadStatus] = useState<{ message: string; error: boolean } | null>(null)
     const contentRef = useRef('')
     const titleRef = useRef('')
     const slugRef = useRef('')
+    const slugManuallyEditedRef = useRef(false)
     const excerptRef = useRef('')
     const onChangeRef = useRef(onChange)
     const isInitializingRef = useRef(false)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const insertFilesRef = useRef<(files: File[], pos?: number) => Promise<void>>()
     const { theme, toggleTheme } = useTheme()
 
     useEffect(() => {
       onChangeRef.current = onChange
     }, [onChange])
 
+    // Only a hand-edited slug is sent; otherwise the API derives a unique one from the title
+    const explicitSlug = () => (slugManuallyEditedRef.current ? slugRef.current || undefined : undefined)
+
     const editor = useEditor({
       extensions: [
         StarterKit,
@@ -140,6 +267,10 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
         TaskItem.configure({
           nested: true,
         }),
+        // Inline so markdown keeps images inside their paragraph: ![alt](src)
+        Image.configure({
+          inline: true,
+        }),
         Markdown.configure({
           html: false,
           transformPastedText: true,
@@ -147,11 +278,28 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
         }),
       ],
       content: '',
+      editorProps: {
+        handleDrop: (view, event, _slice, moved) => {
+          const files = Array.from(event.dataTransfer?.files || [])
+          if (moved || files.length === 0 || !insertFilesRef.current) return false
+          event.preventDefault()
+          const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos
+          void insertFilesRef.current(files, pos)
+          return true
+        },
+        handlePaste: (_view, event) => {
+          const files = Array.from(event.clipboardData?.files || [])
+          if (files.length === 0 || !insertFilesRef.current) return false
+          event.preventDefault()
+          void insertFilesRef.current(files)
+          return true
+        },
+      },
       onUpdate: ({ editor }) => {
         const md = (editor.storage as Record<string, any>).markdown
         contentRef.current = md.getMarkdown()
         if (!isInitializingRef.current) {
-          onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: slugRef.current, excerpt: excerptRef.current })
+          onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: explicitSlug(), excerpt: excerptRef.current })
         }
       },
     })
@@ -164,7 +312,10 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
         setIsPublic(entry.is_public)
         setSlug(entry.slug || '')
         setExcerpt(entry.excerpt || '')
+        setTagsInput((entry.tags || []).join(', '))
+        setPublishAt(entry.published_at ? toLocalDateTimeInput(entry.published_at) : '')
         setSlugManuallyEdited(!!entry.slug)
+        slugManuallyEditedRef.current = !!entry.slug
         titleRef.current = entry.title
         slugRef.current = entry.slug || ''
         excerptRef.current = entry.excerpt || ''
@@ -175,7 +326,10 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
         setIsPublic(false)
         setSlug('')
         setExcerpt('')
+        setTagsInput('')
+        setPublishAt('')
         setSlugManuallyEdited(false)
+        slugManuallyEditedRef.current = false
         titleRef.current = ''
         slugRef.current = ''
         excerptRef.current = ''
@@ -187,6 +341,50 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
       })
     }, [entry, editor])
 
+    // Uploads one at a time; images are embedded, anything else becomes a link
+    const insertFiles = async (files: File[], pos?: number) => {
+      if (!editor || !uploadFile) return
+      for (const file of files) {
+        setUploadStatus({ message: `Uploading ${file.name}...`, error: false })
+        try {
+          const asset = await uploadFile(file)
+          const node = asset.mime_type.startsWith('image/')
+            ? { type: 'image', attrs: { src: asset.url, alt: file.name.replace(/\.[^.]+$/, '') } }
+            : { type: 'text', text: asset.filename, marks: [{ type: 'link', attrs: { href: asset.url } }] }
+          if (pos === undefined) {
+            editor.chain().focus().insertContent(node).run()
+          } else {
+            editor.chain().focus().insertContentAt(pos, node).run()
+            // Later files follow the first one at the cursor
+            pos = undefined
+          }
+          setUploadStatus(null)
+        } catch (err) {
+          setUploadStatus({ message: err instanceof Error ? err.message : 'Upload failed', error: true })
+          return
+        }
+      }
+    }
+    insertFilesRef.current = uploadFile ? insertFiles : undefined
+
+    const handleFilePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || [])
+      e.target.value = ''
+      if (files.length > 0) void insertFiles(files)
+    }
+
+    // The editor stays mounted underneath, so toggling back keeps cursor and undo history
+    const togglePreview = async () => {
+      if (preview || !previewDraft) {
+        setPreview(null)
+        return
+      }
+      const content = contentRef.current
+      setPreview({ content, loading: true, data: null })
+      const data = await previewDraft({ content, excerpt: excerptRef.current.trim() || undefined })
+      setPreview(prev => prev && { ...prev, loading: false, data })
+    }
+
     const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const newTitle = e.target.value
       setTitle(newTitle)
@@ -196,22 +394,42 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
         setSlug(autoSlug)
         slugRef.current = autoSlug
       }
-      onChangeRef.current?.({ title: newTitle, content: contentRef.current, slug: slugRef.current, excerpt: excerptRef.current })
+      onChangeRef.current?.({ title: newTitle, content: contentRef.current, slug: explicitSlug(), excerpt: excerptRef.current })
     }
 
-    const handleSlugChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const newSlug = e.target.value
+    const applySlug = (newSlug: string) => {
       setSlug(newSlug)
       slugRef.current = newSlug
       setSlugManuallyEdited(true)
-      onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: newSlug, excerpt: excerptRef.current })
+      slugManuallyEditedRef.current = true
+      onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: newSlug || undefined, excerpt: excerptRef.current })
+    }
+
+    const handleSlugChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      applySlug(e.target.value)
     }
 
+    useEffect(() => {
+      setSlugStatus(null)
+      const candidate = slug.trim()
+      if (!checkSlug || !isPublic || !slugManuallyEdited || !candidate) return
+
+      let cancelled = false
+      const timer = setTimeout(async () => {
+        const result = await checkSlug(candidate)
+        if (!cancelled) setSlugStatus(result)
+      }, 400)
+      return () => {
+        cancelled = true
+        clearTimeout(timer)
+      }
+    }, [slug, isPublic, slugManuallyEdited, checkSlug])
+
     const handleExcerptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       const newExcerpt = e.target.value
       setExcerpt(newExcerpt)
       excerptRef.current = newExcerpt
-      onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: slugRef.current, excerpt: newExcerpt })
+      onChangeRef.current?.({ title: titleRef.current, content: contentRef.current, slug: explicitSlug(), excerpt: newExcerpt })
     }
 
     const handleSave = () => {
@@ -221,8 +439,10 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
           title: title.trim(),
           content,
           is_public: isPublic,
-          slug: slug.trim() || undefined,
+          slug: slugManuallyEdited ? slug.trim() || undefined : undefined,
           excerpt: excerpt.trim() || undefined,
+          tags: parseTags(tagsInput),
+          published_at: publishAt ? new Date(publishAt).toISOString() : undefined,
         })
       }
     }
@@ -235,6 +455,7 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
     }
 
     const isValid = title.trim() && contentRef.current.trim()
+    const isScheduled = !!publishAt && new Date(publishAt) > new Date()
 
     return (
       <div ref={ref} className={`${styles.editor} ${className || ''}`} {...props}>
@@ -263,10 +484,43 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
             {autoSaveStatus === 'saved' && (
               <span className={styles.autoSaveStatus}>Saved</span>
             )}
+            {autoSaveStatus === 'offline' && (
+              <span className={styles.autoSaveStatus} title="Kept on this device; it will be sent when the connection is back">
+                Saved offline
+              </span>
+            )}
             {autoSaveStatus === 'error' && (
               <span className={`${styles.autoSaveStatus} ${styles.autoSaveError}`}>Save failed</span>
             )}
             <ThemeToggle theme={theme} onToggle={toggleTheme} />
+            {previewDraft && (
+              <button
+                type="button"
+                className={`${styles.previewButton} ${preview ? styles.previewButtonActive : ''}`}
+                onClick={togglePreview}
+                aria-pressed={!!preview}
+              >
+                {preview ? 'Edit' : 'Preview'}
+              </button>
+            )}
+            {entry && onShowHistory && (
+              <button
+                type="button"
+                className={styles.historyButton}
+                onClick={onShowHistory}
+              >
+                History
+              </button>
+            )}
+            {entry && onShowShareLinks && (
+              <button
+                type="button"
+                className={styles.shareButton}
+                onClick={onShowShareLinks}
+              >
+                Share
+              </button>
+            )}
             {entry && onDelete && (
               <button
                 type="button"
@@ -288,7 +542,35 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
           </div>
         </div>
 
-        <div className={styles.body}>
+        {preview && (
+          <article className={styles.preview}>
+            {preview.loading ? (
+              <p className={styles.previewStatus}>Loading preview...</p>
+            ) : (
+              <>
+                {!preview.data && (
+                  <p className={styles.previewStatus}>Couldn't load the excerpt and reading time.</p>
+                )}
+                <PostHeader
+                  title={title.trim() || 'Untitled'}
+                  date={publishAt ? new Date(publishAt).toISOString() : new Date().toISOString()}
+                  readingTime={preview.data?.reading_time ?? 1}
+                  tags={parseTags(tagsInput)}
+                  linkTags={false}
+                />
+                {preview.data && isPublic && (
+                  <div className={styles.previewExcerpt}>
+                    <span className={styles.previewLabel}>Feed excerpt</span>
+                    {preview.data.excerpt}
+                  </div>
+                )}
+                <PostContent content={preview.content} assets={preview.data?.assets} />
+              </>
+            )}
+          </article>
+        )}
+
+        <div className={`${styles.body} ${preview ? styles.bodyHidden : ''}`}>
           <input
             type="text"
             value={title}
@@ -298,6 +580,7 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
             className={styles.titleInput}
             autoFocus={!entry}
           />
+          {fieldErrors.title && <div className={styles.fieldError}>{fieldErrors.title}</div>}
 
           {isPublic && (
             <div className={styles.blogFields}>
@@ -311,6 +594,21 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
                   className={styles.slugInput}
                 />
               </div>
+              {fieldErrors.slug && <div className={styles.fieldError}>{fieldErrors.slug}</div>}
+              {slugStatus && !slugStatus.available && (
+                <div className={styles.slugHint}>
+                  This slug is already in use.
+                  {slugStatus.suggestion && (
+                    <button
+                      type="button"
+                      className={styles.slugSuggestion}
+                      onClick={() => applySlug(slugStatus.suggestion!)}
+                    >
+                      Use {slugStatus.suggestion}
+                    </button>
+                  )}
+                </div>
+              )}
               <textarea
                 value={excerpt}
                 onChange={handleExcerptChange}
@@ -318,13 +616,62 @@ export const JournalEditor = forwardRef<HTMLDivElement, JournalEditorProps>(
                 className={styles.excerptInput}
                 rows={2}
               />
+              {fieldErrors.excerpt && <div className={styles.fieldError}>{fieldErrors.excerpt}</div>}
+              <input
+                type="text"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="Tags, comma separated (e.g. homelab, math)"
+                className={styles.tagsInput}
+              />
+              {fieldErrors.tags && <div className={styles.fieldError}>{fieldErrors.tags}</div>}
+              <label className={styles.publishAtField}>
+                <span className={styles.publishAtLabel}>
+                  {isScheduled ? 'Scheduled for' : 'Publish at'}
+                </span>
+                <input
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  className={styles.publishAtInput}
+                />
+                {!publishAt && (
+                  <span className={styles.publishAtHint}>Leave empty to publish on save</span>
+                )}
+              </label>
+              {fieldErrors.published_at && <div className={styles.fieldError}>{fieldErrors.published_at}</div>}
             </div>
           )}
 
-          {editor && <FormatToolbar editor={editor} />}
+          {editor && (
+            <FormatToolbar
+              editor={editor}
+              onPickFile={uploadFile ? () => fileInputRef.current?.click() : undefined}
+            />
+          )}
+          {uploadFile && (
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              multiple
+              hidden
+              onChange={handleFilePicked}
+            />
+          )}
+          {uploadStatus && (
+            <div className={`${styles.uploadStatus} ${uploadStatus.error ? styles.uploadError : ''}`}>
+              {uploadStatus.message}
+            </div>
+          )}
 
           <EditorContent editor={editor} className={styles.contentEditor} />
+          {fieldErrors.content && <div className={styles.fieldError}>{fieldErrors.content}</div>}
         </div>
+
+        {conflict && onResolveConflict && (
+          <MergeDialog conflict={conflict} onResolve={onResolveConflict} />
+        )}
       </div>
     )
   }
@@ -0,0 +1,90 @@
+import { forwardRef, type HTMLAttributes } from 'react'
+import styles from './MentionQueue.module.css'
+
+export interface QueuedMention {
+  id: number
+  entry_title: string
+  source: string
+  type: 'like' | 'repost' | 'reply' | 'mention'
+  author_name: string | null
+  content: string | null
+  verified_at: string | null
+  created_at: string
+}
+
+export type MentionDecision = 'approved' | 'rejected'
+
+export interface MentionQueueProps extends HTMLAttributes<HTMLDivElement> {
+  mentions: QueuedMention[]
+  onModerate: (mention: QueuedMention, decision: MentionDecision) => void
+  busyId?: number | null
+}
+
+const TYPE_LABELS: Record<QueuedMention['type'], string> = {
+  like: 'liked',
+  repost: 'reposted',
+  reply: 'replied to',
+  mention: 'mentioned',
+}
+
+export const MentionQueue = forwardRef<HTMLDivElement, MentionQueueProps>(
+  ({ mentions, onModerate, busyId = null, className, ...props }, ref) => {
+    const formatDate = (dateStr: string) => {
+      const date = new Date(dateStr)
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+      })
+    }
+
+    return (
+      <div ref={ref} className={`${styles.list} ${className || ''}`} {...props}>
+        {mentions.length === 0 ? (
+          <div className={styles.empty}>
+            No mentions waiting for review.
+          </div>
+        ) : (
+          mentions.map((mention) => (
+            <div key={mention.id} className={styles.mention}>
+              <div className={styles.info}>
+                <span className={styles.title}>
+                  {mention.author_name || new URL(mention.source).hostname} {TYPE_LABELS[mention.type]}{' '}
+                  &ldquo;{mention.entry_title}&rdquo;
+                </span>
+                {mention.content && <p className={styles.content}>{mention.content}</p>}
+                <span className={styles.meta}>
+                  <a href={mention.source} target="_blank" rel="noopener noreferrer nofollow">
+                    {mention.source}
+                  </a>
+                  {' '}&middot; {formatDate(mention.created_at)}
+                  {!mention.verified_at && <> &middot; not yet verified</>}
+                </span>
+              </div>
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={styles.approveButton}
+                  disabled={busyId === mention.id}
+                  onClick={() => onModerate(mention, 'approved')}
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  className={styles.rejectButton}
+                  disabled={busyId === mention.id}
+                  onClick={() => onModerate(mention, 'rejected')}
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    )
+  }
+)
+
+MentionQueue.displayName = 'MentionQueue'
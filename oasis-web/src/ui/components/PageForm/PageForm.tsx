@@ -0,0 +1,165 @@
+import { forwardRef, useState, useEffect, type HTMLAttributes } from 'react'
+import { Input } from '../Input/Input'
+import { TextArea } from '../TextArea/TextArea'
+import { Button } from '../Button/Button'
+import styles from './PageForm.module.css'
+
+export interface PageFormData {
+  title: string
+  slug?: string
+  content: string
+  is_public: boolean
+  show_in_nav: boolean
+  nav_label: string | null
+  nav_order: number
+}
+
+export interface PageFormProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onSubmit'> {
+  initialData?: (PageFormData & { slug: string }) | null
+  onSave: (data: PageFormData) => void
+  onCancel: () => void
+  onDelete?: () => void
+  saving?: boolean
+  /** Shown under the fields, e.g. a taken slug */
+  error?: string | null
+}
+
+export const PageForm = forwardRef<HTMLDivElement, PageFormProps>(
+  ({ initialData, onSave, onCancel, onDelete, saving = false, error = null, className, ...props }, ref) => {
+    const [title, setTitle] = useState('')
+    const [slug, setSlug] = useState('')
+    const [content, setContent] = useState('')
+    const [isPublic, setIsPublic] = useState(false)
+    const [showInNav, setShowInNav] = useState(false)
+    const [navLabel, setNavLabel] = useState('')
+    const [navOrder, setNavOrder] = useState('0')
+
+    const isEditing = !!initialData
+
+    useEffect(() => {
+      setTitle(initialData?.title ?? '')
+      setSlug(initialData?.slug ?? '')
+      setContent(initialData?.content ?? '')
+      setIsPublic(initialData?.is_public ?? false)
+      setShowInNav(initialData?.show_in_nav ?? false)
+      setNavLabel(initialData?.nav_label ?? '')
+      setNavOrder(String(initialData?.nav_order ?? 0))
+    }, [initialData])
+
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault()
+      if (!title.trim()) return
+
+      onSave({
+        title: title.trim(),
+        // Left blank on a new page, the server derives it from the title
+        slug: slug.trim() || undefined,
+        content,
+        is_public: isPublic,
+        show_in_nav: showInNav,
+        nav_label: navLabel.trim() || null,
+        nav_order: parseInt(navOrder) || 0,
+      })
+    }
+
+    return (
+      <div ref={ref} className={`${styles.form} ${className || ''}`} {...props}>
+        <form onSubmit={handleSubmit} className={styles.fields}>
+          <Input
+            label="Title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. About"
+            required
+          />
+
+          <Input
+            label="Slug"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            placeholder={isEditing ? '' : 'Generated from the title'}
+          />
+          <div className={styles.hint}>
+            The page lives at /{slug.trim() || '…'}
+          </div>
+
+          <TextArea
+            label="Content (markdown)"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className={styles.content}
+          />
+
+          <div className={styles.toggles}>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+              />
+              Published
+            </label>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={showInNav}
+                onChange={(e) => setShowInNav(e.target.checked)}
+              />
+              Link in header
+            </label>
+          </div>
+
+          {showInNav && (
+            <div className={styles.navFields}>
+              <Input
+                label="Link text"
+                value={navLabel}
+                onChange={(e) => setNavLabel(e.target.value)}
+                placeholder={title.trim() || 'Defaults to the title'}
+                maxLength={64}
+              />
+              <Input
+                label="Order"
+                type="number"
+                value={navOrder}
+                onChange={(e) => setNavOrder(e.target.value)}
+              />
+            </div>
+          )}
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <div className={styles.leftActions}>
+              <Button
+                type="submit"
+                variant="primary"
+                disabled={!title.trim() || saving}
+              >
+                {saving ? 'Saving...' : isEditing ? 'Update' : 'Create Page'}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            </div>
+            {onDelete && (
+              <Button
+                type="button"
+                variant="danger"
+                onClick={onDelete}
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+        </form>
+      </div>
+    )
+  }
+)
+
+PageForm.displayName = 'PageForm'
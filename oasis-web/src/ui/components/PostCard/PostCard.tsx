@@ -1,4 +1,4 @@
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import styles from './PostCard.module.css'
 
 export interface PostCardProps {
@@ -7,9 +7,10 @@ export interface PostCardProps {
   excerpt: string
   published_at: string
   reading_time: number
+  tags?: string[]
 }
 
-export function PostCard({ slug, title, excerpt, published_at, reading_time }: PostCardProps) {
+export function PostCard({ slug, title, excerpt, published_at, reading_time, tags = [] }: PostCardProps) {
   const navigate = useNavigate()
 
   const formattedDate = new Date(published_at).toLocaleDateString('en-US', {
@@ -26,6 +27,16 @@ export function PostCard({ slug, title, excerpt, published_at, reading_time }: P
         <time dateTime={published_at}>{formattedDate}</time>
         <span className={styles.dot}>&middot;</span>
         <span>{reading_time} min read</span>
+        {tags.map(tag => (
+          <Link
+            key={tag}
+            to={`/blog/tag/${tag}`}
+            className={styles.tag}
+            onClick={(e) => e.stopPropagation()}
+          >
+            #{tag}
+          </Link>
+        ))}
       </div>
     </article>
   )
@@ -23,6 +23,10 @@ export interface ProjectFormProps extends Omit<HTMLAttributes<HTMLDivElement>, '
   onCancel: () => void
   onGenerateSteps?: (title: string, description: string) => Promise<NestedStep[] | null>
   saving?: boolean
+  /** Shown under the fields, e.g. a save refused because of an edit elsewhere */
+  error?: string | null
+  /** Messages for individual fields, keyed by the API's field path (e.g. "steps.0.title") */
+  fieldErrors?: Record<string, string>
 }
 
 // Convert a tree of steps to indented text (2 spaces per level)
@@ -72,13 +76,15 @@ function textToSteps(text: string): NestedStep[] {
 }
 
 export const ProjectForm = forwardRef<HTMLDivElement, ProjectFormProps>(
-  ({ initialData, onSave, onCancel, onGenerateSteps, saving = false, className, ...props }, ref) => {
+  ({ initialData, onSave, onCancel, onGenerateSteps, saving = false, error = null, fieldErrors = {}, className, ...props }, ref) => {
     const [title, setTitle] = useState('')
     const [description, setDescription] = useState('')
     const [stepsText, setStepsText] = useState('')
     const [generating, setGenerating] = useState(false)
 
     const isEditing = !!initialData
+    // Steps are edited as one block of text, so any step's problem is shown under it
+    const stepsError = Object.entries(fieldErrors).find(([field]) => field.startsWith('steps'))
 
     useEffect(() => {
       if (initialData) {
@@ -124,6 +130,7 @@ export const ProjectForm = forwardRef<HTMLDivElement, ProjectFormProps>(
             onChange={(e) => setTitle(e.target.value)}
             placeholder="e.g. Migrate homelab to Kubernetes"
             required
+            error={fieldErrors.title}
           />
 
           <TextArea
@@ -131,6 +138,7 @@ export const ProjectForm = forwardRef<HTMLDivElement, ProjectFormProps>(
             value={description}
             onChange={(e) => setDescription(e.target.value)}
             placeholder="Describe the end goal. What does 'done' look like? What do you want to get out of this?"
+            error={fieldErrors.description}
           />
 
           {!isEditing && (
@@ -157,10 +165,13 @@ export const ProjectForm = forwardRef<HTMLDivElement, ProjectFormProps>(
                 value={stepsText}
                 onChange={(e) => setStepsText(e.target.value)}
                 placeholder={"Set up local K3s cluster\n  Install K3s on the server\n  Configure kubectl on laptop\n  Verify node is Ready\nDeploy first app to the cluster\n  Write a Deployment manifest\n  Apply and verify pods are running"}
+                error={stepsError && `${stepsError[0]}: ${stepsError[1]}`}
               />
             </>
           )}
 
+          {error && <div className={styles.error}>{error}</div>}
+
           <div className={styles.actions}>
             <div className={styles.leftActions}>
               <Button
@@ -0,0 +1,124 @@
+import { forwardRef, useMemo, type HTMLAttributes } from 'react'
+import { diffLines } from '../../../lib/diff'
+import { Button } from '../Button/Button'
+import styles from './RevisionHistory.module.css'
+
+export interface RevisionSummary {
+  id: number
+  title: string
+  content_length: number
+  created_at: string
+}
+
+export interface Revision extends Omit<RevisionSummary, 'content_length'> {
+  content: string
+}
+
+export interface RevisionHistoryProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onSelect'> {
+  revisions: RevisionSummary[]
+  selected: Revision | null
+  current: { title: string; content: string }
+  onSelect: (revision: RevisionSummary) => void
+  onRestore: (revision: Revision) => void
+  onClose: () => void
+  loading?: boolean
+  restoring?: boolean
+}
+
+function formatTimestamp(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export const RevisionHistory = forwardRef<HTMLDivElement, RevisionHistoryProps>(
+  ({ revisions, selected, current, onSelect, onRestore, onClose, loading = false, restoring = false, className, ...props }, ref) => {
+    const rows = useMemo(
+      () => (selected ? diffLines(selected.content, current.content) : []),
+      [selected, current.content]
+    )
+    const titleChanged = !!selected && selected.title !== current.title
+
+    return (
+      <div ref={ref} className={`${styles.history} ${className || ''}`} {...props}>
+        <div className={styles.header}>
+          <h2 className={styles.heading}>History</h2>
+          <button type="button" className={styles.closeButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <div className={styles.layout}>
+          <ul className={styles.list}>
+            {loading && revisions.length === 0 && (
+              <li className={styles.status}>Loading...</li>
+            )}
+            {!loading && revisions.length === 0 && (
+              <li className={styles.status}>No earlier versions yet.</li>
+            )}
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  className={`${styles.item} ${selected?.id === revision.id ? styles.itemActive : ''}`}
+                  onClick={() => onSelect(revision)}
+                >
+                  <span className={styles.itemDate}>{formatTimestamp(revision.created_at)}</span>
+                  <span className={styles.itemTitle}>{revision.title}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className={styles.compare}>
+            {!selected ? (
+              <div className={styles.status}>Select a version to compare it with the current entry.</div>
+            ) : (
+              <>
+                <div className={styles.compareHeader}>
+                  <span>{formatTimestamp(selected.created_at)}</span>
+                  <span>Current</span>
+                </div>
+                {titleChanged && (
+                  <div className={styles.row}>
+                    <div className={`${styles.cell} ${styles.removed}`}>{selected.title}</div>
+                    <div className={`${styles.cell} ${styles.added}`}>{current.title}</div>
+                  </div>
+                )}
+                <div className={styles.diff}>
+                  {rows.map((row, i) => (
+                    <div key={i} className={styles.row}>
+                      <div className={`${styles.cell} ${row.type === 'removed' || row.type === 'changed' ? styles.removed : ''} ${row.left === null ? styles.empty : ''}`}>
+                        {row.left}
+                      </div>
+                      <div className={`${styles.cell} ${row.type === 'added' || row.type === 'changed' ? styles.added : ''} ${row.right === null ? styles.empty : ''}`}>
+                        {row.right}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className={styles.actions}>
+                  <Button
+                    type="button"
+                    variant="primary"
+                    size="sm"
+                    disabled={restoring}
+                    onClick={() => onRestore(selected)}
+                  >
+                    {restoring ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+)
+
+RevisionHistory.displayName = 'RevisionHistory'
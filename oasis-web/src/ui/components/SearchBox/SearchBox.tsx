@@ -0,0 +1,75 @@
+import { forwardRef, type HTMLAttributes } from 'react'
+import styles from './SearchBox.module.css'
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchResult {
+  id?: number
+  slug: string | null
+  title: string
+  is_public?: boolean
+  published_at: string | null
+  created_at?: string
+  snippet: SnippetSegment[]
+}
+
+export interface SearchBoxProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onChange' | 'onSelect' | 'results'> {
+  value: string
+  onChange: (value: string) => void
+  results: SearchResult[]
+  onSelect: (result: SearchResult) => void
+  loading?: boolean
+  placeholder?: string
+}
+
+export const SearchBox = forwardRef<HTMLDivElement, SearchBoxProps>(
+  ({ value, onChange, results, onSelect, loading = false, placeholder = 'Search...', className, ...props }, ref) => {
+    const active = value.trim().length > 0
+
+    return (
+      <div ref={ref} className={`${styles.search} ${className || ''}`} {...props}>
+        <input
+          type="search"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={styles.input}
+          aria-label={placeholder}
+        />
+
+        {active && (
+          <div className={styles.results}>
+            {loading && results.length === 0 && (
+              <div className={styles.status}>Searching...</div>
+            )}
+            {!loading && results.length === 0 && (
+              <div className={styles.status}>No matches.</div>
+            )}
+            {results.map((result) => (
+              <button
+                key={result.id ?? result.slug}
+                type="button"
+                className={styles.result}
+                onClick={() => onSelect(result)}
+              >
+                <span className={styles.title}>{result.title}</span>
+                <span className={styles.snippet}>
+                  {result.snippet.map((segment, i) =>
+                    segment.match
+                      ? <mark key={i} className={styles.match}>{segment.text}</mark>
+                      : <span key={i}>{segment.text}</span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+)
+
+SearchBox.displayName = 'SearchBox'
@@ -0,0 +1,131 @@
+import { forwardRef, useState, type HTMLAttributes } from 'react'
+import { Button } from '../Button/Button'
+import styles from './ShareLinks.module.css'
+
+export interface ShareLink {
+  id: number
+  url: string
+  expires_at: string
+}
+
+export interface ShareLinksProps extends HTMLAttributes<HTMLDivElement> {
+  links: ShareLink[]
+  onCreate: (expiresInDays: number) => void
+  onRevoke: (link: ShareLink) => void
+  onClose: () => void
+  loading?: boolean
+  creating?: boolean
+  revokingId?: number | null
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+]
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export const ShareLinks = forwardRef<HTMLDivElement, ShareLinksProps>(
+  ({ links, onCreate, onRevoke, onClose, loading = false, creating = false, revokingId = null, className, ...props }, ref) => {
+    const [expiresInDays, setExpiresInDays] = useState(7)
+    const [copiedId, setCopiedId] = useState<number | null>(null)
+
+    const handleCopy = async (link: ShareLink) => {
+      try {
+        await navigator.clipboard.writeText(new URL(link.url, window.location.origin).href)
+        setCopiedId(link.id)
+        setTimeout(() => setCopiedId((id) => (id === link.id ? null : id)), 2000)
+      } catch {
+        // Clipboard unavailable (e.g. insecure context) — the link is still shown
+      }
+    }
+
+    return (
+      <div ref={ref} className={`${styles.shareLinks} ${className || ''}`} {...props}>
+        <div className={styles.header}>
+          <h2 className={styles.heading}>Share links</h2>
+          <button type="button" className={styles.closeButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <p className={styles.description}>
+          Anyone with a link can read this entry, even unpublished, until the link expires or is revoked.
+        </p>
+
+        <div className={styles.create}>
+          <label className={styles.expiry}>
+            Expires after
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className={styles.expirySelect}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <Button
+            type="button"
+            variant="primary"
+            size="sm"
+            disabled={creating}
+            onClick={() => onCreate(expiresInDays)}
+          >
+            {creating ? 'Creating...' : 'Create link'}
+          </Button>
+        </div>
+
+        <div className={styles.list}>
+          {loading && links.length === 0 && (
+            <div className={styles.empty}>Loading...</div>
+          )}
+          {!loading && links.length === 0 && (
+            <div className={styles.empty}>No active share links.</div>
+          )}
+          {links.map((link) => {
+            const expired = new Date(link.expires_at) <= new Date()
+            return (
+              <div key={link.id} className={styles.link}>
+                <div className={styles.info}>
+                  <code className={`${styles.url} ${expired ? styles.expired : ''}`}>{link.url}</code>
+                  <span className={styles.date}>
+                    {expired ? 'Expired' : 'Expires'} {formatDate(link.expires_at)}
+                  </span>
+                </div>
+                <div className={styles.actions}>
+                  {!expired && (
+                    <button type="button" className={styles.actionButton} onClick={() => handleCopy(link)}>
+                      {copiedId === link.id ? 'Copied' : 'Copy'}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className={`${styles.actionButton} ${styles.revokeButton}`}
+                    disabled={revokingId === link.id}
+                    onClick={() => onRevoke(link)}
+                  >
+                    {revokingId === link.id ? 'Revoking...' : expired ? 'Remove' : 'Revoke'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    )
+  }
+)
+
+ShareLinks.displayName = 'ShareLinks'
@@ -3,10 +3,12 @@ import styles from './TextArea.module.css'
 
 export interface TextAreaProps extends TextareaHTMLAttributes<HTMLTextAreaElement> {
   label?: string
+  /** A problem with the value, shown under the field */
+  error?: string | null
 }
 
 export const TextArea = forwardRef<HTMLTextAreaElement, TextAreaProps>(
-  ({ label, className, id, ...props }, ref) => {
+  ({ label, error, className, id, ...props }, ref) => {
     const textareaId = id || label?.toLowerCase().replace(/\s+/g, '-')
 
     return (
@@ -19,9 +21,16 @@ export const TextArea = forwardRef<HTMLTextAreaElement, TextAreaProps>(
         <textarea
           ref={ref}
           id={textareaId}
-          className={`${styles.textarea} ${className || ''}`}
+          className={`${styles.textarea} ${error ? styles.invalid : ''} ${className || ''}`}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error && textareaId ? `${textareaId}-error` : undefined}
           {...props}
         />
+        {error && (
+          <span id={textareaId ? `${textareaId}-error` : undefined} className={styles.error}>
+            {error}
+          </span>
+        )}
       </div>
     )
   }
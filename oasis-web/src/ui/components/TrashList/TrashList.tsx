@@ -0,0 +1,59 @@
+import { forwardRef, type HTMLAttributes } from 'react'
+import styles from './TrashList.module.css'
+
+export interface TrashedEntry {
+  id: number
+  title: string
+  deleted_at: string
+  purge_at: string
+}
+
+export interface TrashListProps extends HTMLAttributes<HTMLDivElement> {
+  entries: TrashedEntry[]
+  onRestore: (entry: TrashedEntry) => void
+  restoringId?: number | null
+}
+
+export const TrashList = forwardRef<HTMLDivElement, TrashListProps>(
+  ({ entries, onRestore, restoringId = null, className, ...props }, ref) => {
+    const formatDate = (dateStr: string) => {
+      const date = new Date(dateStr)
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+      })
+    }
+
+    return (
+      <div ref={ref} className={`${styles.list} ${className || ''}`} {...props}>
+        {entries.length === 0 ? (
+          <div className={styles.empty}>
+            Trash is empty.
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className={styles.entry}>
+              <div className={styles.info}>
+                <span className={styles.title}>{entry.title}</span>
+                <span className={styles.date}>
+                  Deleted {formatDate(entry.deleted_at)} &middot; purged {formatDate(entry.purge_at)}
+                </span>
+              </div>
+              <button
+                type="button"
+                className={styles.restoreButton}
+                disabled={restoringId === entry.id}
+                onClick={() => onRestore(entry)}
+              >
+                {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    )
+  }
+)
+
+TrashList.displayName = 'TrashList'
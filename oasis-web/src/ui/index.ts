@@ -30,7 +30,7 @@ export { JournalList } from './components/JournalList/JournalList'
 export type { JournalListProps, JournalEntry as JournalListEntry } from './components/JournalList/JournalList'
 
 export { JournalEditor } from './components/JournalEditor/JournalEditor'
-export type { JournalEditorProps, JournalEntry as JournalEditorEntry } from './components/JournalEditor/JournalEditor'
+export type { JournalEditorProps, JournalEntry as JournalEditorEntry, SlugAvailability, UploadedFile, DraftPreview, DraftText, SaveConflict } from './components/JournalEditor/JournalEditor'
 
 export { ProjectList } from './components/ProjectList/ProjectList'
 export type { ProjectListProps, ProjectSummary } from './components/ProjectList/ProjectList'
@@ -43,3 +43,21 @@ export type { ProjectFormProps, ProjectFormData } from './components/ProjectForm
 
 export { PostCard } from './components/PostCard/PostCard'
 export type { PostCardProps } from './components/PostCard/PostCard'
+
+export { SearchBox } from './components/SearchBox/SearchBox'
+export type { SearchBoxProps, SearchResult, SnippetSegment } from './components/SearchBox/SearchBox'
+
+export { RevisionHistory } from './components/RevisionHistory/RevisionHistory'
+export type { RevisionHistoryProps, RevisionSummary, Revision } from './components/RevisionHistory/RevisionHistory'
+
+export { TrashList } from './components/TrashList/TrashList'
+export type { TrashListProps, TrashedEntry } from './components/TrashList/TrashList'
+
+export { ShareLinks } from './components/ShareLinks/ShareLinks'
+export type { ShareLinksProps, ShareLink } from './components/ShareLinks/ShareLinks'
+
+export { PageForm } from './components/PageForm/PageForm'
+export type { PageFormProps, PageFormData } from './components/PageForm/PageForm'
+
+export { MentionQueue } from './components/MentionQueue/MentionQueue'
+export type { MentionQueueProps, QueuedMention, MentionDecision } from './components/MentionQueue/MentionQueue'
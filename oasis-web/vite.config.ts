@@ -12,6 +12,18 @@ export default defineConfig({
         target: 'http://oasis-api:3001',
         changeOrigin: true,
       },
+      '/media': {
+        target: 'http://oasis-api:3001',
+        changeOrigin: true,
+      },
+      '/sitemap.xml': {
+        target: 'http://oasis-api:3001',
+        changeOrigin: true,
+      },
+      '/robots.txt': {
+        target: 'http://oasis-api:3001',
+        changeOrigin: true,
+      },
     },
     hmr: {
       host: 'localhost',
@@ -20,6 +32,10 @@ export default defineConfig({
     watch: {
       usePolling: true,
     },
+    // The typed API client lives beside the app, outside its root
+    fs: {
+      allow: ['.', '../oasis-client'],
+    },
   },
   preview: {
     host: '0.0.0.0',
@@ -0,0 +1,17 @@
+-- Blog tags: a tag vocabulary plus an entry-to-tag join table
+
+CREATE TABLE IF NOT EXISTS journal.tags (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS journal.entry_tags (
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    tag_id INTEGER NOT NULL REFERENCES journal.tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (entry_id, tag_id)
+);
+
+-- Reverse lookup for the tag-filtered feed (tag → entries)
+CREATE INDEX IF NOT EXISTS idx_journal_entry_tags_tag_id
+    ON journal.entry_tags(tag_id);
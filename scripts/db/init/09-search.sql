@@ -0,0 +1,11 @@
+-- Full-text search over journal entry titles and content.
+-- Title matches are weighted above content matches.
+
+ALTER TABLE journal.entries ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_search
+  ON journal.entries USING GIN (search_vector);
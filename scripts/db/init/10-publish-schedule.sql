@@ -0,0 +1,14 @@
+-- Scheduled publishing: tracks which posts have been announced as live.
+-- A post is live once is_public AND published_at <= NOW(); the API's
+-- publish scheduler claims rows here so each post is announced exactly once.
+
+CREATE TABLE IF NOT EXISTS journal.post_announcements (
+    entry_id INTEGER PRIMARY KEY REFERENCES journal.entries(id) ON DELETE CASCADE,
+    announced_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Backfill: posts that are already live don't get announced again
+INSERT INTO journal.post_announcements (entry_id, announced_at)
+  SELECT id, published_at FROM journal.entries
+  WHERE is_public = true AND published_at IS NOT NULL AND published_at <= NOW()
+ON CONFLICT (entry_id) DO NOTHING;
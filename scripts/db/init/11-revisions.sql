@@ -0,0 +1,14 @@
+-- Revision history: snapshots of a journal entry taken before it is overwritten.
+-- Autosaves are coalesced in the API, so one row covers a burst of edits.
+
+CREATE TABLE IF NOT EXISTS journal.revisions (
+    id SERIAL PRIMARY KEY,
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL,
+    excerpt TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_revisions_entry
+    ON journal.revisions(entry_id, created_at DESC);
@@ -0,0 +1,12 @@
+-- Soft deletes for journal entries (same pattern as 04-soft-deletes.sql)
+-- deleted_at NULL means "not deleted"; trashed rows are purged by the API after a retention window
+
+ALTER TABLE journal.entries
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_not_deleted
+    ON journal.entries(id) WHERE deleted_at IS NULL;
+
+-- Trash listing and the purge job scan by deletion time
+CREATE INDEX IF NOT EXISTS idx_journal_entries_deleted_at
+    ON journal.entries(deleted_at) WHERE deleted_at IS NOT NULL;
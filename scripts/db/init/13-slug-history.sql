@@ -0,0 +1,41 @@
+-- Slug history: retired blog slugs and the entry they now point to.
+-- Lets old /blog/:slug links redirect after an author renames a post.
+
+CREATE TABLE IF NOT EXISTS journal.slug_history (
+    slug VARCHAR(255) PRIMARY KEY,
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    retired_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_slug_history_entry
+    ON journal.slug_history(entry_id);
+
+-- Record the old slug whenever an entry's slug changes. A slug that goes
+-- live again (on any entry) stops being a redirect.
+CREATE OR REPLACE FUNCTION journal.record_slug_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        IF OLD.slug IS NOT DISTINCT FROM NEW.slug THEN
+            RETURN NEW;
+        END IF;
+        IF OLD.slug IS NOT NULL THEN
+            INSERT INTO journal.slug_history (slug, entry_id)
+            VALUES (OLD.slug, NEW.id)
+            ON CONFLICT (slug) DO UPDATE
+                SET entry_id = EXCLUDED.entry_id, retired_at = CURRENT_TIMESTAMP;
+        END IF;
+    END IF;
+
+    IF NEW.slug IS NOT NULL THEN
+        DELETE FROM journal.slug_history WHERE slug = NEW.slug;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_slug_change ON journal.entries;
+CREATE TRIGGER record_slug_change
+    AFTER INSERT OR UPDATE OF slug ON journal.entries
+    FOR EACH ROW
+    EXECUTE FUNCTION journal.record_slug_change();
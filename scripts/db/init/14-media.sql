@@ -0,0 +1,18 @@
+-- Media uploads for journal posts.
+-- Files live on the API's media volume, stored once per content hash;
+-- each owner gets one row per distinct file.
+CREATE SCHEMA IF NOT EXISTS media;
+
+CREATE TABLE IF NOT EXISTS media.assets (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT REFERENCES auth."user"(id),
+    filename VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(127) NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    sha256 CHAR(64) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_assets_sha256
+    ON media.assets(sha256);
@@ -0,0 +1,7 @@
+-- Responsive image derivatives for uploaded images.
+-- Dimensions are those of the original; variants lists the resized copies
+-- cached on the media volume as [{ "width": 640, "format": "webp" }, ...].
+ALTER TABLE media.assets
+    ADD COLUMN IF NOT EXISTS width INTEGER,
+    ADD COLUMN IF NOT EXISTS height INTEGER,
+    ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,26 @@
+-- Series: ordered groups of journal entries (e.g. a multi-part build log).
+-- An entry belongs to at most one series.
+
+CREATE TABLE IF NOT EXISTS journal.series (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT REFERENCES auth."user"(id),
+    title VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS journal.series_entries (
+    series_id INTEGER NOT NULL REFERENCES journal.series(id) ON DELETE CASCADE,
+    entry_id INTEGER NOT NULL UNIQUE REFERENCES journal.entries(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (series_id, entry_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_series_entries_order
+    ON journal.series_entries(series_id, position);
+
+DROP TRIGGER IF EXISTS set_series_updated_at ON journal.series;
+CREATE TRIGGER set_series_updated_at
+    BEFORE UPDATE ON journal.series
+    FOR EACH ROW
+    EXECUTE FUNCTION journal.update_timestamp();
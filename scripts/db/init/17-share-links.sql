@@ -0,0 +1,14 @@
+-- Private share links: expiring, revocable tokens that let someone read a
+-- draft without it being published.
+
+CREATE TABLE IF NOT EXISTS journal.share_links (
+    id SERIAL PRIMARY KEY,
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    token VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_share_links_entry
+    ON journal.share_links(entry_id);
@@ -0,0 +1,27 @@
+-- Static pages (About, Now, Uses): standalone markdown served at /:slug.
+-- Page slugs are their own namespace, separate from blog post slugs.
+
+CREATE TABLE IF NOT EXISTS journal.pages (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT REFERENCES auth."user"(id),
+    title VARCHAR(255) NOT NULL,
+    slug VARCHAR(255) NOT NULL UNIQUE,
+    content TEXT NOT NULL DEFAULT '',
+    is_public BOOLEAN NOT NULL DEFAULT false,
+    -- Header navigation: shown when public and show_in_nav, ordered by nav_order
+    show_in_nav BOOLEAN NOT NULL DEFAULT false,
+    nav_label VARCHAR(64),
+    nav_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_pages_nav
+    ON journal.pages(nav_order)
+    WHERE is_public = true AND show_in_nav = true;
+
+DROP TRIGGER IF EXISTS set_pages_updated_at ON journal.pages;
+CREATE TRIGGER set_pages_updated_at
+    BEFORE UPDATE ON journal.pages
+    FOR EACH ROW
+    EXECUTE FUNCTION journal.update_timestamp();
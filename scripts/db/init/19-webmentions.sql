@@ -0,0 +1,44 @@
+-- Webmentions (https://www.w3.org/TR/webmention/).
+-- Received mentions wait in a moderation queue; only approved ones whose
+-- source has been verified to link here are shown under the post.
+
+CREATE TABLE IF NOT EXISTS journal.webmentions (
+    id SERIAL PRIMARY KEY,
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    target TEXT NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+    -- Set once the source has been fetched and found to link to the target
+    verified_at TIMESTAMP WITH TIME ZONE,
+    type VARCHAR(16) NOT NULL DEFAULT 'mention'
+        CHECK (type IN ('like', 'repost', 'reply', 'mention')),
+    author_name VARCHAR(255),
+    author_url TEXT,
+    content TEXT,
+    published_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (source, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_webmentions_entry
+    ON journal.webmentions(entry_id, status);
+
+DROP TRIGGER IF EXISTS set_webmentions_updated_at ON journal.webmentions;
+CREATE TRIGGER set_webmentions_updated_at
+    BEFORE UPDATE ON journal.webmentions
+    FOR EACH ROW
+    EXECUTE FUNCTION journal.update_timestamp();
+
+-- Outgoing: one row per post and linked URL, claimed before sending so a
+-- link is only notified once however many times the post is saved
+CREATE TABLE IF NOT EXISTS journal.webmention_sends (
+    entry_id INTEGER NOT NULL REFERENCES journal.entries(id) ON DELETE CASCADE,
+    target TEXT NOT NULL,
+    endpoint TEXT,
+    status_code INTEGER,
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (entry_id, target)
+);
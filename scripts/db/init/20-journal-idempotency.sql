@@ -0,0 +1,10 @@
+-- Idempotency keys for creating journal entries. The editor sends one key
+-- per unsaved entry, so a create that is sent twice (a response lost on the
+-- way back, or an offline draft replayed while the first request was still
+-- in flight) returns the entry made the first time instead of a duplicate.
+
+ALTER TABLE journal.entries ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_idempotency_key
+  ON journal.entries(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,10 @@
+-- The public feed pages by (published_at, id) and skips trashed entries.
+-- idx_journal_entries_published covers neither the id tie-break nor the
+-- trash filter, so a deep page still sorted and filtered rows; this index
+-- matches the keyset query, and replaces the older one.
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_published_keyset
+  ON journal.entries(published_at DESC, id DESC)
+  WHERE is_public = true AND published_at IS NOT NULL AND deleted_at IS NULL;
+
+DROP INDEX IF EXISTS journal.idx_journal_entries_published;